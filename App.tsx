@@ -1,13 +1,23 @@
-import React, { useState } from 'react';
-import { ViewState, ScriptData, TopicItem } from './types';
+import React, { useState, useEffect } from 'react';
+import { ViewState, ScriptData, TopicItem, ScriptWriterDraft } from './types';
 import TopicSelector from './components/TopicSelector';
 import TopicList from './components/TopicList';
 import StyleSelector from './components/StyleSelector';
 import Dashboard from './components/Dashboard';
-import { fetchTrendingTopics, generatePerfectScript, generateScriptFromRawText, applyDirectorMode, rewriteScript, generateThumbnail } from './services/geminiService';
-import { saveToIndexedDB } from './services/pipeline';
+import OutlineEditor from './components/OutlineEditor';
+import { fetchTrendingTopics, generateOutline, generatePerfectScript, generateScriptFromRawText, applyDirectorMode, rewriteScript, generateThumbnail, GenerationCancelledError, ScriptTruncatedError, ScriptStreamOptions, ScriptStreamUpdate } from './services/geminiService';
+import { saveToIndexedDB, hydrateProject } from './services/projectLibrary';
+import { ingestAsset } from './services/assetStore';
+import { jobScheduler, JOB_PRIORITY } from './services/scheduler';
+import { AIError } from './services/aiErrors';
+import { importProjectZip } from './services/projectArchive';
+import { migrateScriptData, ProjectSchemaError } from './services/projectSchema';
+import { createSnapshot } from './services/snapshots';
+import { setUsageProject, claimDraftUsage } from './services/usageLedger';
+import { pruneUsageHistory } from './services/usageHistory';
 import { Loader2, AlertTriangle, X } from 'lucide-react';
 import QuotaMonitor from './components/QuotaMonitor'; 
+import ScriptStreamView from './components/ScriptStreamView';
 
 const App: React.FC = () => {
   // State
@@ -16,22 +26,41 @@ const App: React.FC = () => {
   const [topics, setTopics] = useState<TopicItem[]>([]);
   const [isTopicsLoading, setIsTopicsLoading] = useState(false);
   const [scriptData, setScriptData] = useState<ScriptData | null>(null);
+  const [writerDraft, setWriterDraft] = useState<ScriptWriterDraft | null>(null); // [NEW] Outline + chapters under review
   const [isScriptLoading, setIsScriptLoading] = useState(false);
   const [loadingStep, setLoadingStep] = useState<string>('');
+  const [streamPreview, setStreamPreview] = useState<ScriptStreamUpdate | null>(null); // [NEW] Scenes received while streaming
+  const [generationAbort, setGenerationAbort] = useState<AbortController | null>(null);
+  const [isStopping, setIsStopping] = useState(false);
+  const [stopNote, setStopNote] = useState('');
   
   // API Error State
   const [apiError, setApiError] = useState<string | null>(null);
 
+  // [NEW] Token/cost accounting follows the open project
+  useEffect(() => {
+    setUsageProject(scriptData?.project_id);
+  }, [scriptData?.project_id]);
+
+  // [NEW] Drop daily usage records past the retention period
+  useEffect(() => {
+    pruneUsageHistory();
+  }, []);
+
   // Helper to run thumbnail generation in background without blocking UI
   const triggerThumbnailGeneration = (data: ScriptData) => {
     if (data.meta.thumbnail_prompt && !data.meta.thumbnail_url) {
-        generateThumbnail(data.meta.thumbnail_prompt).then(async (url) => {
+        jobScheduler.submit(
+            { label: '썸네일', capability: 'image', priority: JOB_PRIORITY.LOW },
+            () => generateThumbnail(data.meta.thumbnail_prompt)
+        ).then(async (url) => {
             if (url) {
+                const stored = await ingestAsset(url);
                 setScriptData(prev => {
                     if (!prev) return null;
                     const newData = { 
                         ...prev, 
-                        meta: { ...prev.meta, thumbnail_url: url } 
+                        meta: { ...prev.meta, thumbnail_asset_id: stored.id, thumbnail_url: stored.url } 
                     };
                     saveToIndexedDB(newData);
                     return newData;
@@ -61,19 +90,66 @@ const App: React.FC = () => {
     }
   };
 
+  // [NEW] Staged writer, step 1: outline only; the user reviews it in OutlineEditor
   const handleSelectTopic = async (topic: string) => {
     setIsScriptLoading(true);
     setApiError(null);
+
+    try {
+      const outline = await generateOutline(topic, (msg) => setLoadingStep(msg));
+      setWriterDraft({ outline, chapters: {} });
+      setView(ViewState.OUTLINE_REVIEW);
+    } catch (error: any) {
+      console.error(error);
+      if (error instanceof AIError && error.blocksService) {
+          setApiError(error.userMessage);
+          return;
+      }
+      alert(error instanceof AIError && error.kind === 'safety' ? error.userMessage : "목차 생성에 실패했습니다. (AI 응답 오류)");
+    } finally {
+      setIsScriptLoading(false);
+    }
+  };
+
+  // [NEW] Streamed generation: live scene preview plus a stop button that keeps what has arrived
+  const beginStream = (note: string): ScriptStreamOptions => {
+    const controller = new AbortController();
+    setGenerationAbort(controller);
+    setStopNote(note);
+    setStreamPreview(null);
+    setIsStopping(false);
+    return { onUpdate: setStreamPreview, signal: controller.signal };
+  };
+
+  const endStream = () => {
+    setGenerationAbort(null);
+    setStreamPreview(null);
+    setIsStopping(false);
+  };
+
+  const handleStopGeneration = () => {
+    generationAbort?.abort();
+    setIsStopping(true);
+  };
+
+  // Step 2/3: write the chapters still missing, then split them into scenes
+  const handleBuildScript = async () => {
+    if (!writerDraft) return;
+    setIsScriptLoading(true);
+    setApiError(null);
     
     try {
-      // Use One-Shot Generator
       const data = await generatePerfectScript(
-        topic, 
-        (msg) => setLoadingStep(msg) // "회의 중..." 메시지 표시
+        writerDraft.outline.topic,
+        (msg) => setLoadingStep(msg),
+        writerDraft,
+        beginStream("완성된 씬만 남깁니다. 아직 받은 씬이 없으면 목차 화면으로 돌아가며, 작성된 챕터는 유지됩니다.")
       );
       
       const savedData = await saveToIndexedDB(data);
+      await claimDraftUsage(savedData.project_id!);
       setScriptData(savedData);
+      setWriterDraft(null);
       
       // [NEW] Trigger Thumbnail Generation in Background
       triggerThumbnailGeneration(savedData);
@@ -81,18 +157,23 @@ const App: React.FC = () => {
       setView(ViewState.STYLE_SELECT);
 
     } catch (error: any) {
+      // Stopped before any scene was complete: back to the outline, with the chapters written so far
+      if (error instanceof GenerationCancelledError) {
+        if (error.draft) setWriterDraft(error.draft);
+        return;
+      }
       console.error(error);
-      const msg = error.message || error.toString();
-      
-      // Since geminiService now translates errors, we can just check for key phrases or display the message directly
-      if (msg.includes("할당량") || msg.includes("속도") || msg.includes("Quota") || msg.includes("429")) {
-          setApiError(msg);
+
+      // Service-level problems (quota, rate limit, key...) go to the banner with a localized message
+      if (error instanceof AIError && error.blocksService) {
+          setApiError(error.userMessage);
           setIsScriptLoading(false);
           return;
       }
-      alert("대본 생성에 실패했습니다. (AI 응답 오류)");
+      alert((error instanceof AIError && error.kind === 'safety') || error instanceof ScriptTruncatedError ? error.userMessage : "대본 생성에 실패했습니다. (AI 응답 오류)");
     } finally {
       setIsScriptLoading(false);
+      endStream();
     }
   };
 
@@ -107,6 +188,7 @@ const App: React.FC = () => {
         );
 
         const savedData = await saveToIndexedDB(data);
+        await claimDraftUsage(savedData.project_id!);
         setScriptData(savedData);
         
         // [NEW] Trigger Thumbnail Generation in Background
@@ -116,13 +198,12 @@ const App: React.FC = () => {
 
       } catch (error: any) {
         console.error(error);
-        const msg = error.message || error.toString();
-        if (msg.includes("할당량") || msg.includes("속도") || msg.includes("Quota") || msg.includes("429")) {
-             setApiError(msg);
+        if (error instanceof AIError && error.blocksService) {
+             setApiError(error.userMessage);
              setIsScriptLoading(false);
              return;
         }
-        alert("대본 분석 중 오류가 발생했습니다.");
+        alert((error instanceof AIError && error.kind === 'safety') || error instanceof ScriptTruncatedError ? error.userMessage : "대본 분석 중 오류가 발생했습니다.");
       } finally {
         setIsScriptLoading(false);
       }
@@ -130,25 +211,32 @@ const App: React.FC = () => {
 
   const handleRewriteScript = async (mode: 'longer' | 'shorter') => {
       if (!scriptData) return;
+      setIsScriptLoading(true);
+      setLoadingStep('');
       
       try {
-          const newData = await rewriteScript(scriptData, mode, (msg) => console.log(msg));
-          const savedData = await saveToIndexedDB(newData);
+          await createSnapshot(scriptData, mode === 'longer' ? '대본 확장 전' : '대본 요약 전');
+          const newData = await rewriteScript(scriptData, mode, (msg) => setLoadingStep(msg), beginStream("다시 쓴 씬 뒤에 아직 다시 쓰지 않은 원래 씬을 그대로 이어 붙입니다."));
+          const savedData = await saveToIndexedDB({ ...newData, project_id: scriptData.project_id });
           setScriptData(savedData);
       } catch (error: any) {
+          if (error instanceof GenerationCancelledError) return; // Nothing rewritten yet: the script stays as it was
           console.error("Rewrite failed", error);
-          const msg = error.message || error.toString();
-          if (msg.includes("할당량") || msg.includes("Quota")) {
-              setApiError(msg);
+          if (error instanceof AIError && error.blocksService) {
+              setApiError(error.userMessage);
           } else {
               throw error; // Let StyleSelector handle UI alert
           }
+      } finally {
+          setIsScriptLoading(false);
+          endStream();
       }
   };
 
   const handleStyleSelected = async (styleName: string, stylePrompt: string) => {
      if (!scriptData) return;
 
+     await createSnapshot(scriptData, `스타일 적용 전 (${styleName})`);
      const directedData = applyDirectorMode(scriptData, styleName, stylePrompt);
      const savedData = await saveToIndexedDB(directedData);
      setScriptData(savedData);
@@ -156,15 +244,33 @@ const App: React.FC = () => {
      setView(ViewState.SCRIPT_VIEW);
   };
 
-  const handleLoadProject = (file: File) => {
+  const handleLoadProject = async (file: File) => {
+    // [NEW] Full project archive (project.json + assets/) exported from the Dashboard
+    if (file.name.toLowerCase().endsWith('.zip')) {
+      try {
+        const imported = await importProjectZip(file);
+        const savedData = await saveToIndexedDB(imported);
+        setScriptData(savedData);
+        setView(ViewState.SCRIPT_VIEW);
+      } catch (error: any) {
+        console.error(error);
+        alert(error instanceof ProjectSchemaError ? error.toReport() : "프로젝트 ZIP을 불러오지 못했습니다. " + (error.message || ""));
+      }
+      return;
+    }
+
     const reader = new FileReader();
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       try {
         const json = JSON.parse(e.target?.result as string);
-        setScriptData(json as ScriptData);
+        // Every import becomes a new library entry, even when the file came from this library
+        const savedData = await saveToIndexedDB({ ...migrateScriptData(json), project_id: undefined });
+        // Session URLs inside an exported JSON are dead; resolve whatever assets exist locally
+        setScriptData(await hydrateProject(savedData));
         setView(ViewState.SCRIPT_VIEW);
       } catch (error) {
-        alert("잘못된 프로젝트 파일입니다.");
+        console.error(error);
+        alert(error instanceof ProjectSchemaError ? error.toReport() : "잘못된 프로젝트 파일입니다.");
       }
     };
     reader.readAsText(file);
@@ -177,6 +283,7 @@ const App: React.FC = () => {
 
   const handleBackToCategories = () => {
     setScriptData(null);
+    setWriterDraft(null);
     setTopics([]);
     setApiError(null);
     setView(ViewState.CATEGORY_SELECT);
@@ -184,6 +291,7 @@ const App: React.FC = () => {
 
   const handleBackToTopics = () => {
     setScriptData(null);
+    setWriterDraft(null);
     setApiError(null);
     setView(ViewState.TOPIC_LIST);
   };
@@ -193,17 +301,24 @@ const App: React.FC = () => {
     return (
       <div className="min-h-screen bg-slate-900 flex flex-col items-center justify-center p-4">
         <QuotaMonitor />
-        <div className="relative mt-8">
-          <div className="absolute inset-0 bg-emerald-500 blur-xl opacity-20 animate-pulse rounded-full"></div>
-          <Loader2 className="w-16 h-16 text-emerald-500 animate-spin relative z-10" />
-        </div>
-        <h2 className="mt-8 text-2xl font-bold text-white tracking-tight">AI 총괄 프로듀서</h2>
-        <div className="mt-4 flex flex-col items-center gap-2">
-            <p className="text-emerald-400 font-mono text-lg animate-pulse text-center">
-                {loadingStep || "AI 감독관들이 회의 중입니다... (약 30초 소요)"}
-            </p>
-            <p className="text-slate-500 text-sm">최고의 영상을 위해 설계를 진행하고 있습니다.</p>
-        </div>
+        {generationAbort ? (
+          // [NEW] Streamed generation: scenes show up as they are written
+          <ScriptStreamView step={loadingStep} preview={streamPreview} onStop={handleStopGeneration} stopNote={stopNote} isStopping={isStopping} />
+        ) : (
+          <>
+            <div className="relative mt-8">
+              <div className="absolute inset-0 bg-emerald-500 blur-xl opacity-20 animate-pulse rounded-full"></div>
+              <Loader2 className="w-16 h-16 text-emerald-500 animate-spin relative z-10" />
+            </div>
+            <h2 className="mt-8 text-2xl font-bold text-white tracking-tight">AI 총괄 프로듀서</h2>
+            <div className="mt-4 flex flex-col items-center gap-2">
+                <p className="text-emerald-400 font-mono text-lg animate-pulse text-center">
+                    {loadingStep || "AI 감독관들이 회의 중입니다..."}
+                </p>
+                <p className="text-slate-500 text-sm">최고의 영상을 위해 설계를 진행하고 있습니다.</p>
+            </div>
+          </>
+        )}
       </div>
     );
   }
@@ -258,6 +373,15 @@ const App: React.FC = () => {
           />
         )}
 
+        {view === ViewState.OUTLINE_REVIEW && writerDraft && (
+          <OutlineEditor
+            draft={writerDraft}
+            onChange={setWriterDraft}
+            onBuild={handleBuildScript}
+            onBack={handleBackToTopics}
+          />
+        )}
+
         {view === ViewState.STYLE_SELECT && scriptData && (
            <div className="flex-1 flex items-center justify-center">
               <StyleSelector 
@@ -270,8 +394,10 @@ const App: React.FC = () => {
 
         {view === ViewState.SCRIPT_VIEW && scriptData && (
           <Dashboard 
+            key={scriptData.project_id}
             initialData={scriptData}
             onBack={handleBackToCategories} 
+            onOpenProject={handleResumeProject}
           />
         )}
       </main>
@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { Wallet, X } from 'lucide-react';
+import { getSettings } from '../services/settings';
+import { getBudgetStatus, describeBudgetCheck, BudgetStatus } from '../services/budgetGuard';
+
+// Budget warning / hard stop for the Dashboard; the numbers come from the same check invoke() runs
+const BudgetBanner: React.FC = () => {
+  const [status, setStatus] = useState<BudgetStatus | null>(null);
+  const [dismissed, setDismissed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => getBudgetStatus().then(next => { if (!cancelled) setStatus(next); });
+    const handleBudget = (e: CustomEvent<BudgetStatus>) => setStatus(e.detail);
+    refresh();
+
+    window.addEventListener('budget-update' as any, handleBudget);
+    window.addEventListener('usage-update', refresh);
+    window.addEventListener('settings-update', refresh);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('budget-update' as any, handleBudget);
+      window.removeEventListener('usage-update', refresh);
+      window.removeEventListener('settings-update', refresh);
+    };
+  }, []);
+
+  // A dismissed warning comes back if it escalates to a stop
+  useEffect(() => {
+    if (status?.level === 'exceeded') setDismissed(false);
+  }, [status?.level]);
+
+  if (!status || status.level === 'ok' || (dismissed && status.level === 'warning')) return null;
+
+  const exceeded = status.level === 'exceeded';
+  const threshold = exceeded ? 1 : getSettings().budgetWarnPercent / 100;
+  const flagged = status.checks.filter(check => check.ratio >= threshold).sort((a, b) => b.ratio - a.ratio);
+
+  return (
+    <div className={`mb-6 flex items-start gap-3 px-4 py-3 rounded-xl border text-sm
+      ${exceeded ? 'bg-red-950/40 border-red-800/60 text-red-100' : 'bg-amber-950/30 border-amber-800/60 text-amber-100'}`}>
+      <Wallet className={`w-5 h-5 mt-0.5 shrink-0 ${exceeded ? 'text-red-400' : 'text-amber-400'}`} />
+      <div className="flex-1">
+        <div className="font-bold">
+          {exceeded ? '예산 한도에 도달해 AI 호출을 멈췄습니다' : '설정한 예산에 가까워지고 있습니다'}
+        </div>
+        <div className="text-xs opacity-80 mt-1 font-mono">
+          {flagged.map(check => `${describeBudgetCheck(check)} (${Math.round(check.ratio * 100)}%)`).join(' · ')}
+        </div>
+        <div className="text-xs opacity-70 mt-1">
+          {exceeded
+            ? '실행 중이던 파이프라인은 일시정지되었습니다. 설정에서 예산을 올리면 남은 씬부터 다시 실행할 수 있습니다. (일일 예산은 태평양 시간 자정에 초기화)'
+            : '한도에 도달하면 파이프라인이 자동으로 일시정지됩니다.'}
+        </div>
+      </div>
+      {!exceeded && (
+        <button onClick={() => setDismissed(true)} className="p-1 opacity-60 hover:opacity-100">
+          <X className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default BudgetBanner;
@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CassetteTape, Circle, Play, Square, Download, Upload, Trash2 } from 'lucide-react';
+import {
+  CassetteMode,
+  getCassetteMode,
+  getActiveCassetteName,
+  setCassetteMode,
+  loadCassette,
+  listCassettes,
+  deleteCassette,
+  exportCassette,
+  importCassette
+} from '../services/providers';
+
+const MODE_LABELS: Record<CassetteMode, string> = {
+  off: '끄기',
+  record: '녹화',
+  replay: '재생'
+};
+
+const CassetteControl: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [mode, setMode] = useState<CassetteMode>(getCassetteMode());
+  const [name, setName] = useState(getActiveCassetteName());
+  const [entryCount, setEntryCount] = useState(0);
+  const [cassettes, setCassettes] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    setMode(getCassetteMode());
+    setName(getActiveCassetteName());
+    setEntryCount((await loadCassette()).entries.length);
+    setCassettes(await listCassettes());
+  };
+
+  useEffect(() => {
+    refresh();
+    const handleUpdate = () => { refresh(); };
+    window.addEventListener('cassette-update', handleUpdate);
+    return () => window.removeEventListener('cassette-update', handleUpdate);
+  }, []);
+
+  const handleExport = async () => {
+    const blob = await exportCassette(name);
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `cassette_${name}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const cassette = await importCassette(file);
+      setCassetteMode(mode, cassette.name);
+      alert(`카세트 "${cassette.name}"을(를) 불러왔습니다. (${cassette.entries.length}건)`);
+    } catch (err: any) {
+      alert(`카세트 불러오기 실패: ${err.message}`);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`카세트 "${name}"의 녹화 기록을 모두 삭제할까요?`)) return;
+    await deleteCassette(name);
+  };
+
+  const badgeClass = mode === 'record' ? 'bg-red-500/20 text-red-300 border-red-500/30' :
+                     mode === 'replay' ? 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30' :
+                     'text-slate-500 border-transparent hover:text-slate-300';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1 px-2 py-0.5 rounded border transition-colors ${badgeClass}`}
+        title="AI 호출 녹화/재생 (카세트)"
+      >
+        <CassetteTape className="w-3 h-3" />
+        {mode !== 'off' && <span className="font-bold">{mode === 'record' ? 'REC' : 'REPLAY'}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-72 p-3 bg-slate-800 border border-slate-700 rounded-lg shadow-xl text-[11px] text-slate-300 z-50 space-y-3">
+          <p className="text-white font-bold border-b border-slate-600 pb-1 flex justify-between">
+            <span>AI Call Cassette</span>
+            <span className="text-slate-500 font-normal">{entryCount}건 녹화됨</span>
+          </p>
+
+          <div className="flex gap-1">
+            {(['off', 'record', 'replay'] as CassetteMode[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setCassetteMode(m, name)}
+                className={`flex-1 flex items-center justify-center gap-1 py-1 rounded border ${mode === m ? 'bg-slate-600 border-slate-500 text-white' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+              >
+                {m === 'off' && <Square className="w-3 h-3" />}
+                {m === 'record' && <Circle className="w-3 h-3 text-red-400" />}
+                {m === 'replay' && <Play className="w-3 h-3 text-emerald-400" />}
+                {MODE_LABELS[m]}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-slate-500 mb-1">카세트 이름</label>
+            <input
+              list="cassette-names"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onBlur={() => setCassetteMode(mode, name)}
+              className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white focus:outline-none focus:border-blue-500"
+            />
+            <datalist id="cassette-names">
+              {cassettes.map(c => <option key={c} value={c} />)}
+            </datalist>
+          </div>
+
+          <div className="flex gap-1">
+            <button onClick={handleExport} className="flex-1 flex items-center justify-center gap-1 py-1 rounded border border-slate-700 hover:text-white">
+              <Download className="w-3 h-3" /> 내보내기
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className="flex-1 flex items-center justify-center gap-1 py-1 rounded border border-slate-700 hover:text-white">
+              <Upload className="w-3 h-3" /> 불러오기
+            </button>
+            <button onClick={handleDelete} className="px-2 py-1 rounded border border-slate-700 text-red-400 hover:text-red-300" title="녹화 기록 삭제">
+              <Trash2 className="w-3 h-3" />
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json" className="hidden" onChange={handleImport} />
+          </div>
+
+          <p className="text-slate-500 leading-relaxed">
+            녹화 중에는 모든 Gemini 요청과 응답이 저장되고, 재생 모드에서는 같은 요청에 저장된 응답을 돌려줍니다 (할당량 소모 없음).
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CassetteControl;
@@ -1,15 +1,32 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { ScriptData, Scene, LayoutType } from '../types';
-import { loadProject, executeAssetGeneration, saveToIndexedDB } from '../services/pipeline';
-import { generateImage, generateSpeech, inspectImage } from '../services/geminiService';
+import { ScriptData, Scene, LayoutType, PipelineRunRecord, GenerationLogStage } from '../types';
+import { executeAssetGeneration, listSceneFailures, withoutFailure, invalidateSceneAssets, PipelineRunSummary } from '../services/pipeline';
+import { PipelineProgress } from '../services/workerProtocol';
+import { loadProject, saveToIndexedDB } from '../services/projectLibrary';
+import { ingestAsset } from '../services/assetStore';
+import { exportProjectZip } from '../services/projectArchive';
+import { generateImage, generateSpeech, rewriteScenes } from '../services/geminiService';
 import { 
   Play, Pause, Download, ArrowLeft, Save, 
   Image as ImageIcon, Mic, Eye, CheckCircle2, 
   AlertTriangle, RefreshCw, LayoutTemplate, Check,
-  Edit3, X, RotateCw, Wand2, Film, ChevronDown, ChevronUp
+  Edit3, X, RotateCw, Wand2, Film, ChevronDown, ChevronUp, FolderOpen, History, ScrollText, PenLine
 } from 'lucide-react';
-// @ts-ignore
-import JSZip from 'jszip';
+import ProjectBrowser from './ProjectBrowser';
+import HistoryPanel from './HistoryPanel';
+import { createSnapshot } from '../services/snapshots';
+import { jobScheduler, JOB_PRIORITY, estimateTokens } from '../services/scheduler';
+import JobQueuePanel from './JobQueuePanel';
+import { AIError, toUserMessage } from '../services/aiErrors';
+import FailedAssetsPanel from './FailedAssetsPanel';
+import RunSummary from './RunSummary';
+import GenerationLogDrawer, { LOG_STAGE_LABELS } from './GenerationLogDrawer';
+import { logGeneration } from '../services/generationLog';
+import PreflightDialog from './PreflightDialog';
+import ProjectCostPanel from './ProjectCostPanel';
+import BudgetBanner from './BudgetBanner';
+import { estimatePipelineRun, PipelineEstimate } from '../services/preflight';
+import { findInterruptedRun, reconcileInterruptedRun, closeInterruptedRun, inFlightScenes, ReconciledRun } from '../services/pipelineRuns';
 
 // Helper for file download
 const saveAs = (blob: Blob, name: string) => {
@@ -23,57 +40,124 @@ const saveAs = (blob: Blob, name: string) => {
   URL.revokeObjectURL(url);
 };
 
+// Quick instructions for the scene rewrite bar
+const REWRITE_PRESETS = ['더 극적으로', '통계 하나 추가', '10대도 이해하기 쉽게', '더 짧고 간결하게'];
+
 interface DashboardProps {
   initialData: ScriptData;
   onBack: () => void;
+  onOpenProject: (data: ScriptData) => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ initialData, onBack }) => {
+const Dashboard: React.FC<DashboardProps> = ({ initialData, onBack, onOpenProject }) => {
   const [project, setProject] = useState<ScriptData>(initialData);
   const [resumeCandidate, setResumeCandidate] = useState<ScriptData | null>(null);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [isRunning, setIsRunning] = useState(false);
   const [downloadStatus, setDownloadStatus] = useState<string>('');
   const stopSignalRef = useRef({ stopped: false });
+  const [runSummary, setRunSummary] = useState<PipelineRunSummary | null>(null);
+  const [interruptedRun, setInterruptedRun] = useState<({ run: PipelineRunRecord } & ReconciledRun) | null>(null);
 
   // [NEW] State for individual regeneration and editing
   const [regeneratingScenes, setRegeneratingScenes] = useState<Set<number>>(new Set());
   const [editingScene, setEditingScene] = useState<number | null>(null);
   const [editedPrompt, setEditedPrompt] = useState<string>('');
   const [expandedNarration, setExpandedNarration] = useState<Set<number>>(new Set());
+  const [logScene, setLogScene] = useState<number | null>(null);
+  const [pipelineProgress, setPipelineProgress] = useState<PipelineProgress | null>(null);
+  const [activeTab, setActiveTab] = useState<'timeline' | 'cost'>('timeline');
+  const [rewriteRange, setRewriteRange] = useState<{ from: number; to: number } | null>(null); // [NEW] Scenes selected for a rewrite
+  const [rewriteInstruction, setRewriteInstruction] = useState('');
+  const [isRewritingScenes, setIsRewritingScenes] = useState(false);
+  const [preflight, setPreflight] = useState<{ estimate: PipelineEstimate; from: ScriptData; resumedFrom?: string } | null>(null);
 
-  // 1. Resume Capability: Check DB on mount
+  // 1. Resume Capability: an interrupted pipeline run (reload / tab crash) takes precedence;
+  // otherwise offer the library copy of this project if it is newer than what we were given.
+  // A fresh project with neither starts the pipeline automatically.
   useEffect(() => {
+    let cancelled = false;
+    let autoStartTimer: ReturnType<typeof setTimeout> | undefined;
+
     const checkSavedProject = async () => {
-      const saved = await loadProject();
-      if (saved) {
-        // Simple check: if saved timestamp is newer than initial (if exists) or just exists
-        if (saved.meta.title !== initialData.meta.title || saved.meta.timestamp !== initialData.meta.timestamp) {
-           setResumeCandidate(saved);
+      let saved: ScriptData | null = null;
+      if (initialData.project_id) {
+        try {
+          saved = await loadProject(initialData.project_id);
+          const run = await findInterruptedRun(initialData.project_id);
+          if (run && !cancelled) {
+            const reconciled = await reconcileInterruptedRun(run, saved || initialData);
+            if (!cancelled) setInterruptedRun({ run, ...reconciled });
+            return;
+          }
+        } catch (e) {
+          console.warn("Saved copy could not be loaded", e);
         }
       }
+      if (cancelled) return;
+
+      if (saved && (saved.meta.timestamp || 0) > (initialData.meta.timestamp || 0)) {
+        setResumeCandidate(saved);
+        return;
+      }
+
+      // Auto-start pipeline if it's a fresh project (no images generated yet)
+      const hasGeneratedAssets = initialData.scenes.some(s => s.progress_status.is_image_generated);
+      if (!hasGeneratedAssets) {
+        autoStartTimer = setTimeout(() => requestPipeline(), 500);
+      }
     };
     checkSavedProject();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(autoStartTimer);
+    };
   }, [initialData]);
 
   // Handle Pipeline Execution
-  const startPipeline = async () => {
+  // `onlyScenes` = retry just those scenes (Failed assets panel) or the rest of an interrupted run
+  const startPipeline = async (onlyScenes?: number[], from: ScriptData = project, resumedFrom?: string) => {
       stopSignalRef.current.stopped = false;
       setIsRunning(true);
+      setRunSummary(null);
       
       try {
-        await executeAssetGeneration(
-          project,
+        const summary = await executeAssetGeneration(
+          from,
           (updated) => setProject(updated), // Live updates
-          stopSignalRef.current
+          stopSignalRef.current,
+          { onlyScenes, resumedFrom, onProgress: setPipelineProgress }
         );
+        setRunSummary(summary);
+        if (summary.error) alert(`${summary.error.userMessage}\n작업이 중지되었습니다.`);
       } catch (e) {
         console.error("Pipeline Error", e);
-        alert("오류로 인해 작업이 중지되었습니다.");
+        alert(e instanceof AIError ? `${e.userMessage}\n작업이 중지되었습니다.` : "오류로 인해 작업이 중지되었습니다.");
       } finally {
         setIsRunning(false);
+        setPipelineProgress(null);
       }
   };
 
+  // [NEW] Pre-flight: show the call/quota estimate first; the dialog may narrow the run to what fits today
+  const requestPipeline = async (onlyScenes?: number[], from: ScriptData = project, resumedFrom?: string) => {
+    const estimate = await estimatePipelineRun(from, onlyScenes);
+    if (estimate.scenes.length === 0) {
+      await startPipeline(onlyScenes, from, resumedFrom);
+      return;
+    }
+    setPreflight({ estimate, from, resumedFrom });
+  };
+
+  const handlePreflightRun = async (sceneIndices: number[]) => {
+    if (!preflight) return;
+    const { from, resumedFrom } = preflight;
+    setPreflight(null);
+    await startPipeline(sceneIndices, from, resumedFrom);
+  };
+
   const togglePipeline = async () => {
     if (isRunning) {
       // STOP
@@ -81,20 +165,27 @@ const Dashboard: React.FC<DashboardProps> = ({ initialData, onBack }) => {
       setIsRunning(false);
     } else {
       // START
-      await startPipeline();
+      await requestPipeline();
     }
   };
 
-  // Auto-start pipeline if it's a fresh project (no images generated yet)
-  useEffect(() => {
-      const hasGeneratedAssets = initialData.scenes.some(s => s.progress_status.is_image_generated);
-      if (!hasGeneratedAssets && !resumeCandidate) {
-          const timer = setTimeout(() => {
-              if (!isRunning) startPipeline();
-          }, 500);
-          return () => clearTimeout(timer);
-      }
-  }, []);
+  // [NEW] Interrupted run: continue with the scenes it had left, in the same order
+  const handleResumeRun = async () => {
+    if (!interruptedRun) return;
+    const { run, project: reconciled, remaining } = interruptedRun;
+    setInterruptedRun(null);
+    setProject(reconciled);
+    await closeInterruptedRun(run);
+    if (remaining.length > 0) await requestPipeline(remaining, reconciled, run.run_id);
+  };
+
+  const handleDismissRun = async () => {
+    if (!interruptedRun) return;
+    const { run, project: reconciled } = interruptedRun;
+    setInterruptedRun(null);
+    setProject(reconciled);
+    await closeInterruptedRun(run);
+  };
 
   const handleResumeConfirm = () => {
     if (resumeCandidate) {
@@ -103,6 +194,25 @@ const Dashboard: React.FC<DashboardProps> = ({ initialData, onBack }) => {
     }
   };
 
+  const handleOpenFromLibrary = (data: ScriptData) => {
+    if (isRunning) {
+      stopSignalRef.current.stopped = true;
+      setIsRunning(false);
+    }
+    setIsLibraryOpen(false);
+    onOpenProject(data);
+  };
+
+  // The library writes the stored copy; the open project takes the title too, or the next save would revert it
+  const handleProjectRenamed = (projectId: string, title: string) => {
+    setProject(prev => prev.project_id === projectId ? { ...prev, meta: { ...prev.meta, title } } : prev);
+  };
+
+  const handleRestoreVersion = async (restored: ScriptData) => {
+    const saved = await saveToIndexedDB(restored);
+    setProject(saved);
+  };
+
   const handleEmergencyExport = () => {
     const jsonString = JSON.stringify(project, null, 2);
     const blob = new Blob([jsonString], { type: "application/json" });
@@ -129,20 +239,37 @@ const Dashboard: React.FC<DashboardProps> = ({ initialData, onBack }) => {
         const scene = project.scenes.find(s => s.scene_index === index);
         if (!scene) return;
 
+        // Keep the previous image (and prompt, when editing) recoverable
+        await createSnapshot(project, `씬 #${index} 이미지 재생성 전`);
+
         // Use custom prompt if provided (from edit mode), otherwise use existing
         const promptToUse = customPrompt || scene.prompts.visual_prompt;
-        const url = await generateImage(promptToUse, scene.planned_layout);
+        const stored = await jobScheduler.submit({
+            label: `씬 #${index} 이미지 재생성`,
+            capability: 'image',
+            priority: JOB_PRIORITY.HIGH,
+            estimatedTokens: estimateTokens('image', promptToUse)
+        }, () => logGeneration({
+            project_id: project.project_id,
+            scene_index: index,
+            stage: 'image',
+            source: 'manual',
+            capability: 'image',
+            inputs: { prompt: promptToUse, layout: scene.planned_layout, layout_guide: scene.planned_layout !== 'SINGLE' },
+            replaced_asset_id: scene.assets.visual_asset_id
+        }, async () => ingestAsset(await generateImage(promptToUse, scene.planned_layout)), asset => asset.id));
 
-        if (url) {
+        if (stored) {
             setProject(prev => {
                 const newScenes = prev.scenes.map(s => s.scene_index === index ? {
                     ...s,
-                    assets: { ...s.assets, visual_url: url },
+                    assets: { ...s.assets, visual_asset_id: stored.id, visual_url: stored.url },
                     progress_status: { 
                         ...s.progress_status, 
                         is_image_generated: true, 
                         is_image_inspected: false // Mark for re-inspection
-                    }
+                    },
+                    failures: withoutFailure(withoutFailure(s, 'image'), 'inspection').failures
                 } : s);
                 
                 const newData = { ...prev, scenes: newScenes };
@@ -152,12 +279,7 @@ const Dashboard: React.FC<DashboardProps> = ({ initialData, onBack }) => {
         }
     } catch (e: any) {
         console.error(e);
-        const msg = e.message || e.toString();
-        if (msg.includes("quota") || msg.includes("할당량")) {
-            alert("⚠️ API 할당량을 초과했습니다. 잠시 후 다시 시도해주세요.");
-        } else {
-            alert("이미지 재생성 실패: " + msg);
-        }
+        alert(e instanceof AIError && e.blocksService ? e.userMessage : "이미지 재생성 실패: " + toUserMessage(e));
     } finally {
         setRegeneratingScenes(prev => {
             const next = new Set(prev);
@@ -179,15 +301,31 @@ const Dashboard: React.FC<DashboardProps> = ({ initialData, onBack }) => {
           const scene = project.scenes.find(s => s.scene_index === index);
           if (!scene) return;
 
+          await createSnapshot(project, `씬 #${index} 오디오 재생성 전`);
+
           const textToRead = scene.scripts.tts_text || scene.narration_full || scene.scripts.narration;
-          const url = await generateSpeech(textToRead, scene.scripts.voice_tone);
+          const stored = await jobScheduler.submit({
+              label: `씬 #${index} 오디오 재생성`,
+              capability: 'speech',
+              priority: JOB_PRIORITY.HIGH,
+              estimatedTokens: estimateTokens('speech', textToRead)
+          }, () => logGeneration({
+              project_id: project.project_id,
+              scene_index: index,
+              stage: 'audio',
+              source: 'manual',
+              capability: 'speech',
+              inputs: { text: textToRead, voice_tone: scene.scripts.voice_tone },
+              replaced_asset_id: scene.assets.audio_asset_id
+          }, async () => ingestAsset(await generateSpeech(textToRead, scene.scripts.voice_tone)), asset => asset.id));
 
-          if (url) {
+          if (stored) {
               setProject(prev => {
                   const newScenes = prev.scenes.map(s => s.scene_index === index ? {
                       ...s,
-                      assets: { ...s.assets, audio_url: url },
-                      progress_status: { ...s.progress_status, is_audio_generated: true }
+                      assets: { ...s.assets, audio_asset_id: stored.id, audio_url: stored.url },
+                      progress_status: { ...s.progress_status, is_audio_generated: true },
+                      failures: withoutFailure(s, 'audio').failures
                   } : s);
                   
                   const newData = { ...prev, scenes: newScenes };
@@ -197,7 +335,7 @@ const Dashboard: React.FC<DashboardProps> = ({ initialData, onBack }) => {
           }
       } catch (e: any) {
           console.error(e);
-          alert("오디오 재생성 실패: " + (e.message || "알 수 없는 오류"));
+          alert(e instanceof AIError && e.blocksService ? e.userMessage : "오디오 재생성 실패: " + toUserMessage(e));
       } finally {
           setRegeneratingScenes(prev => {
               const next = new Set(prev);
@@ -248,52 +386,77 @@ const Dashboard: React.FC<DashboardProps> = ({ initialData, onBack }) => {
       });
   };
 
-  // --- ZIP DOWNLOAD LOGIC ---
-  const handleDownloadZip = async () => {
-    setDownloadStatus('압축 중...');
-    const zip = new JSZip();
-    const assetsFolder = zip.folder("assets");
+  // --- SCENE REWRITE LOGIC ---
 
-    if (project.meta.thumbnail_url && project.meta.thumbnail_url.startsWith('data:image')) {
-        const thumbData = project.meta.thumbnail_url.split(',')[1];
-        zip.file("thumbnail.png", thumbData, {base64: true});
-    }
+  // First click selects a scene, a click outside the range extends it, a click inside starts over there
+  const toggleRewriteScene = (index: number) => {
+      if (isRunning || isRewritingScenes) return;
+      setRewriteRange(prev => {
+          if (!prev) return { from: index, to: index };
+          if (prev.from === index && prev.to === index) return null;
+          if (index < prev.from) return { ...prev, from: index };
+          if (index > prev.to) return { ...prev, to: index };
+          return { from: index, to: index };
+      });
+  };
 
-    const manifestScenes = project.scenes.map(s => {
-      if (s.assets.visual_url && s.assets.visual_url.startsWith('data:image')) {
-        const imgData = s.assets.visual_url.split(',')[1];
-        const filename = s.assets.visual_filename || `${s.assets.base_id}.png`;
-        const finalFilename = filename.endsWith('.mp4') && s.type === 'image' ? filename.replace('.mp4', '.png') : filename;
-        assetsFolder.file(finalFilename, imgData, {base64: true});
-      }
-      if (s.assets.audio_url && s.assets.audio_url.startsWith('data:audio')) {
-        const audioData = s.assets.audio_url.split(',')[1];
-        const filename = s.assets.audio_filename || `${s.assets.base_id}.mp3`;
-        assetsFolder.file(filename, audioData, {base64: true});
+  const isInRewriteRange = (index: number) => !!rewriteRange && index >= rewriteRange.from && index <= rewriteRange.to;
+
+  const handleRewriteScenes = async () => {
+      const instruction = rewriteInstruction.trim();
+      if (!rewriteRange || !instruction) return;
+      if (isRunning) {
+          alert("전체 파이프라인이 실행 중일 때는 개별 작업을 할 수 없습니다. 일시정지 후 시도해주세요.");
+          return;
       }
-      const { visual_url, audio_url, ...cleanAssets } = s.assets;
-      return {
-        ...s,
-        assets: cleanAssets,
-        // Include Cuts Info for video editor
-        cuts: s.cuts,
-        narration_full: s.narration_full
-      };
-    });
-
-    const manifest = {
-      ...project,
-      meta: {
-          ...project.meta,
-          thumbnail_url: project.meta.thumbnail_url ? 'thumbnail.png' : undefined
-      },
-      scenes: manifestScenes
-    };
 
-    zip.file("project.json", JSON.stringify(manifest, null, 2));
+      const { from, to } = rewriteRange;
+      const selected = project.scenes.filter(s => isInRewriteRange(s.scene_index));
+      const rangeLabel = from === to ? `씬 #${from}` : `씬 #${from}~#${to}`;
+      setIsRewritingScenes(true);
+
+      try {
+          await createSnapshot(project, `${rangeLabel} 다시 쓰기 전`);
+          const rewrites = await jobScheduler.submit({
+              label: `${rangeLabel} 다시 쓰기`,
+              capability: 'json',
+              priority: JOB_PRIORITY.HIGH,
+              estimatedTokens: estimateTokens('json', JSON.stringify(selected.map(s => s.scripts)))
+          }, () => rewriteScenes(project, selected.map(s => s.scene_index), instruction));
+
+          // Only the rewritten scenes change; audio always follows the new narration, the image only when the visual changed
+          setProject(prev => {
+              const newScenes = prev.scenes.map(s => {
+                  const rewrite = rewrites.find(r => r.scene_index === s.scene_index);
+                  if (!rewrite) return s;
+                  const visualChanged = rewrite.visual_prompt !== s.prompts.visual_prompt || !!s.cuts?.length;
+                  return invalidateSceneAssets({
+                      ...s,
+                      scripts: rewrite.scripts,
+                      narration_full: rewrite.scripts.narration,
+                      prompts: { ...s.prompts, visual_prompt: rewrite.visual_prompt }
+                  }, visualChanged);
+              });
 
+              const newData = { ...prev, scenes: newScenes };
+              saveToIndexedDB(newData);
+              return newData;
+          });
+          setRewriteRange(null);
+          setRewriteInstruction('');
+      } catch (e: any) {
+          console.error(e);
+          alert(e instanceof AIError && e.blocksService ? e.userMessage : "씬 다시 쓰기 실패: " + toUserMessage(e));
+      } finally {
+          setIsRewritingScenes(false);
+      }
+  };
+
+  // --- ZIP DOWNLOAD LOGIC ---
+  const handleDownloadZip = async () => {
+    setDownloadStatus('압축 중...');
     try {
-      const content = await zip.generateAsync({type: "blob"});
+      const content = await exportProjectZip(project);
       const safeTitle = project.meta.title.replace(/[^a-z0-9가-힣]/gi, '_').substring(0, 30);
       saveAs(content, `${safeTitle}_completed.zip`);
       setDownloadStatus('');
@@ -320,6 +483,7 @@ const Dashboard: React.FC<DashboardProps> = ({ initialData, onBack }) => {
   
   const progressPercent = Math.round(((imagesDone + audioDone + videoAttempts) / totalWork) * 100) || 0;
   const isComplete = progressPercent >= 100;
+  const sceneFailures = listSceneFailures(project.scenes);
 
   return (
     <div className="w-full max-w-7xl mx-auto p-4 pb-20">
@@ -333,7 +497,7 @@ const Dashboard: React.FC<DashboardProps> = ({ initialData, onBack }) => {
               작업 복구
             </h3>
             <p className="text-slate-300 mb-6">
-              이전에 저장된 프로젝트 <strong>"{resumeCandidate.meta.title}"</strong>를 찾았습니다.
+              프로젝트 <strong>"{resumeCandidate.meta.title}"</strong>의 더 최근 저장본을 찾았습니다.
               <br/>불러오시겠습니까?
             </p>
             <div className="flex gap-3 justify-end">
@@ -354,6 +518,94 @@ const Dashboard: React.FC<DashboardProps> = ({ initialData, onBack }) => {
         </div>
       )}
 
+      {/* [NEW] INTERRUPTED RUN MODAL */}
+      {interruptedRun && (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+          <div className="bg-slate-800 p-8 rounded-2xl border border-slate-600 max-w-md w-full shadow-2xl">
+            <h3 className="text-xl font-bold text-white mb-2 flex items-center gap-2">
+              <AlertTriangle className="w-6 h-6 text-amber-400" />
+              중단된 작업 감지
+            </h3>
+            <p className="text-slate-300 mb-4">
+              {new Date(interruptedRun.run.started_at).toLocaleString()}에 시작한 자동 생성이 완료되지 않은 채 종료되었습니다.
+              <br/>남은 씬 <strong>{interruptedRun.remaining.length}개</strong>를 중단된 지점부터 이어서 생성할 수 있습니다.
+            </p>
+            <ul className="text-xs text-slate-400 space-y-1 mb-6 bg-slate-900/60 border border-slate-700 rounded-lg p-3">
+              <li>마지막 기록: {new Date(interruptedRun.run.updated_at).toLocaleTimeString()}</li>
+              {inFlightScenes(interruptedRun.run).length > 0 && (
+                <li>
+                  진행 중이던 씬: {inFlightScenes(interruptedRun.run)
+                    .map(({ scene_index, state }) => `#${scene_index} (${[state.visual, state.audio].filter(st => st !== 'pending' && st !== 'done').map(st => LOG_STAGE_LABELS[st as GenerationLogStage]).join(', ')})`)
+                    .join(' · ')}
+                </li>
+              )}
+              {interruptedRun.repaired.length > 0 && (
+                <li className="text-amber-300">저장되지 않은 에셋이 있어 다시 생성할 씬: {interruptedRun.repaired.map(i => `#${i}`).join(', ')}</li>
+              )}
+            </ul>
+            <div className="flex gap-3 justify-end">
+              <button onClick={handleDismissRun} className="px-4 py-2 text-slate-400 hover:text-white">
+                나중에
+              </button>
+              <button
+                onClick={handleResumeRun}
+                className="px-6 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-bold flex items-center gap-2"
+              >
+                <Play className="w-4 h-4" /> 이어서 생성
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* [NEW] PRE-FLIGHT ESTIMATE MODAL */}
+      {preflight && (
+        <PreflightDialog estimate={preflight.estimate} onRun={handlePreflightRun} onCancel={() => setPreflight(null)} />
+      )}
+
+      {/* PROJECT LIBRARY MODAL */}
+      {isLibraryOpen && (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 backdrop-blur-sm" onClick={() => setIsLibraryOpen(false)}>
+          <div className="max-w-2xl w-full relative" onClick={e => e.stopPropagation()}>
+            <button
+              onClick={() => setIsLibraryOpen(false)}
+              className="absolute -top-10 right-0 p-2 text-slate-400 hover:text-white"
+            >
+              <X className="w-5 h-5" />
+            </button>
+            <ProjectBrowser
+              onOpen={handleOpenFromLibrary}
+              currentProjectId={project.project_id}
+              onRenamed={handleProjectRenamed}
+              lockCurrent={isRunning}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* VERSION HISTORY MODAL */}
+      {isHistoryOpen && (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 backdrop-blur-sm p-4" onClick={() => setIsHistoryOpen(false)}>
+          <div className="w-full max-w-2xl" onClick={e => e.stopPropagation()}>
+            <HistoryPanel
+              project={project}
+              disabled={isRunning}
+              onRestore={handleRestoreVersion}
+              onClose={() => setIsHistoryOpen(false)}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* [NEW] GENERATION LOG DRAWER */}
+      {logScene !== null && project.project_id && (
+        <GenerationLogDrawer
+          projectId={project.project_id}
+          sceneIndex={logScene}
+          onClose={() => setLogScene(null)}
+        />
+      )}
+
       {/* TOP CONTROLS */}
       <div className="sticky top-4 z-40 bg-slate-900/90 backdrop-blur border border-slate-700 p-4 rounded-xl shadow-lg mb-6 flex flex-col md:flex-row items-center justify-between gap-4">
         <div className="flex items-center gap-4 w-full md:w-auto">
@@ -379,6 +631,11 @@ const Dashboard: React.FC<DashboardProps> = ({ initialData, onBack }) => {
             <div className="flex items-center gap-2 text-xs text-slate-400 font-mono">
               <span className={`w-2 h-2 rounded-full ${isRunning ? 'bg-green-500 animate-pulse' : 'bg-slate-600'}`}></span>
               {isRunning ? '자동 생성 중' : '대기'}
+              {isRunning && pipelineProgress && pipelineProgress.stage !== 'pending' && pipelineProgress.stage !== 'done' && (
+                <span className="text-slate-500">
+                  · #{pipelineProgress.scene_index} {LOG_STAGE_LABELS[pipelineProgress.stage as GenerationLogStage]}
+                </span>
+              )}
             </div>
           </div>
         </div>
@@ -427,6 +684,22 @@ const Dashboard: React.FC<DashboardProps> = ({ initialData, onBack }) => {
               </button>
           )}
           
+          <button
+            onClick={() => setIsHistoryOpen(true)}
+            className="p-2.5 bg-slate-800 border border-slate-700 hover:border-slate-500 rounded-lg text-slate-300"
+            title="버전 기록"
+          >
+            <History className="w-5 h-5" />
+          </button>
+
+          <button
+            onClick={() => setIsLibraryOpen(true)}
+            className="p-2.5 bg-slate-800 border border-slate-700 hover:border-slate-500 rounded-lg text-slate-300"
+            title="프로젝트 라이브러리"
+          >
+            <FolderOpen className="w-5 h-5" />
+          </button>
+
           <button
             onClick={handleEmergencyExport}
             className="p-2.5 bg-slate-800 border border-slate-700 hover:border-slate-500 rounded-lg text-slate-300"
@@ -437,7 +710,35 @@ const Dashboard: React.FC<DashboardProps> = ({ initialData, onBack }) => {
         </div>
       </div>
 
+      {/* [NEW] JOB QUEUE */}
+      <JobQueuePanel />
+
+      {/* [NEW] BUDGET GUARD */}
+      <BudgetBanner />
+
+      {/* [NEW] RUN SUMMARY & FAILED ASSETS */}
+      {runSummary && !isRunning && <RunSummary summary={runSummary} onDismiss={() => setRunSummary(null)} />}
+      <FailedAssetsPanel failures={sceneFailures} disabled={isRunning} onRetry={startPipeline} />
+
+      {/* [NEW] TABS */}
+      <div className="flex gap-1 mb-4 border-b border-slate-800">
+        {([['timeline', '타임라인'], ['cost', '비용']] as const).map(([tab, label]) => (
+          <button
+            key={tab}
+            onClick={() => setActiveTab(tab)}
+            className={`px-4 py-2 text-sm font-bold border-b-2 -mb-px transition-colors ${activeTab === tab
+              ? 'border-blue-500 text-white'
+              : 'border-transparent text-slate-500 hover:text-slate-300'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === 'cost' && <ProjectCostPanel projectId={project.project_id} />}
+
       {/* TIMELINE GRID */}
+      {activeTab === 'timeline' && (
       <div className="grid grid-cols-1 gap-4">
         {project.scenes.map((scene) => {
           const isRegenerating = regeneratingScenes.has(scene.scene_index);
@@ -455,6 +756,7 @@ const Dashboard: React.FC<DashboardProps> = ({ initialData, onBack }) => {
                   : 'bg-slate-800 border-slate-700'
                 }
                 ${scene.progress_status.is_image_generated ? '' : 'opacity-90'}
+                ${isInRewriteRange(scene.scene_index) ? 'ring-2 ring-amber-500/60' : ''}
               `}
             >
               {/* Left: Thumbnail & Visual Status */}
@@ -535,9 +837,30 @@ const Dashboard: React.FC<DashboardProps> = ({ initialData, onBack }) => {
                     <span className="text-xs font-bold text-blue-400 uppercase tracking-wide">
                       {scene.step_phase}
                     </span>
+                    {scene.failures && scene.failures.length > 0 && (
+                      <span className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-red-900/40 text-red-300 text-[10px] font-bold border border-red-800/50" title={scene.failures.map(f => f.message).join('\n')}>
+                        <AlertTriangle className="w-3 h-3" /> 실패 {scene.failures.length}
+                      </span>
+                    )}
                     <span className="text-xs text-slate-500 ml-auto font-mono">
                       {scene.planned_layout}
                     </span>
+                    <button
+                      onClick={() => toggleRewriteScene(scene.scene_index)}
+                      disabled={isRunning || isRewritingScenes}
+                      className={`p-1 disabled:opacity-30 ${isInRewriteRange(scene.scene_index) ? 'text-amber-400' : 'text-slate-500 hover:text-slate-200'}`}
+                      title="다시 쓸 씬 선택 (다른 씬을 누르면 범위로 확장)"
+                    >
+                      <PenLine className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={() => setLogScene(scene.scene_index)}
+                      disabled={!project.project_id}
+                      className="p-1 text-slate-500 hover:text-slate-200 disabled:opacity-30"
+                      title="생성 기록"
+                    >
+                      <ScrollText className="w-3.5 h-3.5" />
+                    </button>
                   </div>
                   
                   {/* [NEW] Cuts Display for Video/Grid Fallback */}
@@ -666,6 +989,60 @@ const Dashboard: React.FC<DashboardProps> = ({ initialData, onBack }) => {
           );
         })}
       </div>
+      )}
+
+      {/* [NEW] SCENE REWRITE BAR */}
+      {rewriteRange && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 w-[min(720px,calc(100%-2rem))] bg-slate-800/95 backdrop-blur border border-amber-600/50 rounded-2xl p-4 shadow-2xl animate-in slide-in-from-bottom duration-200">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="text-sm font-bold text-white flex items-center gap-2">
+              <PenLine className="w-4 h-4 text-amber-400" />
+              {rewriteRange.from === rewriteRange.to ? `씬 #${rewriteRange.from}` : `씬 #${rewriteRange.from}~#${rewriteRange.to}`} 다시 쓰기
+              <span className="text-xs font-normal text-slate-400">
+                ({project.scenes.filter(s => isInRewriteRange(s.scene_index)).length}개)
+              </span>
+            </h4>
+            <button onClick={() => setRewriteRange(null)} disabled={isRewritingScenes} className="p-1 text-slate-400 hover:text-white disabled:opacity-50">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-1.5 mb-2">
+            {REWRITE_PRESETS.map(preset => (
+              <button
+                key={preset}
+                onClick={() => setRewriteInstruction(preset)}
+                disabled={isRewritingScenes}
+                className="px-2.5 py-1 rounded-full bg-slate-900 border border-slate-700 hover:border-amber-500/60 text-xs text-slate-300 disabled:opacity-50"
+              >
+                {preset}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              value={rewriteInstruction}
+              onChange={(e) => setRewriteInstruction(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleRewriteScenes(); }}
+              disabled={isRewritingScenes}
+              placeholder="어떻게 고칠까요? 예: 더 극적으로, 통계 하나 추가"
+              className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-amber-500"
+            />
+            <button
+              onClick={handleRewriteScenes}
+              disabled={isRewritingScenes || isRunning || !rewriteInstruction.trim()}
+              className="flex items-center gap-2 px-4 py-2 bg-amber-600 hover:bg-amber-500 disabled:opacity-50 text-white rounded-lg font-bold text-sm"
+            >
+              {isRewritingScenes ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />}
+              {isRewritingScenes ? '다시 쓰는 중...' : '다시 쓰기'}
+            </button>
+          </div>
+          <p className="text-[11px] text-slate-500 mt-2">
+            선택하지 않은 씬과 에셋은 그대로 둡니다. 다시 쓴 씬은 오디오를 새로 만들고, 장면 묘사가 바뀐 씬은 이미지도 새로 만듭니다.
+          </p>
+        </div>
+      )}
     </div>
   );
 };
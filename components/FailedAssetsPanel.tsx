@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { AlertOctagon, RotateCw, ChevronDown, ChevronUp, Image as ImageIcon, Mic, Eye, LayoutTemplate } from 'lucide-react';
+import { AssetStage } from '../types';
+import { AIErrorKind } from '../services/aiErrors';
+import { SceneFailure } from '../services/pipeline';
+
+export const STAGE_LABELS: Record<AssetStage, string> = {
+  image: '이미지',
+  inspection: '검수',
+  grid: '2x2 그리드',
+  audio: '오디오'
+};
+
+const STAGE_ICONS: Record<AssetStage, React.ElementType> = {
+  image: ImageIcon,
+  inspection: Eye,
+  grid: LayoutTemplate,
+  audio: Mic
+};
+
+export const ERROR_KIND_LABELS: Record<AIErrorKind, string> = {
+  quota: '할당량 초과',
+  budget: '예산 초과',
+  rate_limit: '속도 제한',
+  overloaded: '서버 혼잡',
+  safety: '안전 필터',
+  invalid_response: '응답 오류',
+  network: '네트워크',
+  auth: '인증 오류',
+  unknown: '알 수 없음'
+};
+
+interface FailedAssetsPanelProps {
+  failures: SceneFailure[];
+  disabled: boolean;
+  onRetry: (sceneIndices: number[]) => void;
+}
+
+// Pipeline stages that ran out of retries, with per-scene and bulk retry
+const FailedAssetsPanel: React.FC<FailedAssetsPanelProps> = ({ failures, disabled, onRetry }) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  if (failures.length === 0) return null;
+
+  const sceneIndices = Array.from(new Set(failures.map(f => f.scene_index)));
+
+  return (
+    <div className="mb-6 bg-red-950/30 border border-red-900/60 rounded-xl text-sm">
+      <div className="flex items-center justify-between px-4 py-2.5">
+        <button onClick={() => setIsExpanded(!isExpanded)} className="flex items-center gap-2 text-red-200 hover:text-white">
+          <AlertOctagon className="w-4 h-4 text-red-400" />
+          <span className="font-bold">실패한 에셋</span>
+          <span className="text-xs text-red-300/70 font-mono">씬 {sceneIndices.length}개 · 단계 {failures.length}개</span>
+          {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </button>
+        <button
+          onClick={() => onRetry(sceneIndices)}
+          disabled={disabled}
+          className="flex items-center gap-1.5 px-3 py-1 rounded-lg text-xs font-bold border border-red-800 text-red-200 hover:bg-red-900/40 disabled:opacity-50 disabled:cursor-not-allowed"
+          title={disabled ? '파이프라인 실행 중에는 재시도할 수 없습니다' : '실패한 씬을 모두 다시 생성'}
+        >
+          <RotateCw className="w-3 h-3" /> 모두 재시도
+        </button>
+      </div>
+
+      {isExpanded && (
+        <ul className="border-t border-red-900/40 divide-y divide-red-900/30">
+          {failures.map(failure => {
+            const Icon = STAGE_ICONS[failure.stage];
+            return (
+              <li key={`${failure.scene_index}_${failure.stage}`} className="flex items-center gap-3 px-4 py-2">
+                <Icon className="w-4 h-4 text-red-400 shrink-0" />
+                <span className="px-2 py-0.5 rounded bg-slate-800 text-xs font-bold text-slate-300">#{failure.scene_index}</span>
+                <span className="text-slate-200">{STAGE_LABELS[failure.stage]}</span>
+                <span className="text-[10px] px-1.5 py-0.5 rounded bg-red-900/50 text-red-300 border border-red-800/50">
+                  {ERROR_KIND_LABELS[failure.error_kind] || failure.error_kind}
+                </span>
+                <span className="flex-1 truncate text-xs text-slate-500" title={failure.message}>{failure.message}</span>
+                <span className="text-[10px] font-mono text-slate-500 whitespace-nowrap">
+                  {failure.attempts}회 시도 · {new Date(failure.failed_at).toLocaleTimeString()}
+                </span>
+                <button
+                  onClick={() => onRetry([failure.scene_index])}
+                  disabled={disabled}
+                  className="p-1 text-slate-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="이 씬 재시도"
+                >
+                  <RotateCw className="w-3.5 h-3.5" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default FailedAssetsPanel;
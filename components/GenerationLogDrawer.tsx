@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { ScrollText, X, CheckCircle2, XCircle, CircleDashed, ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
+import { GenerationLogEntry, GenerationLogStage, QuotaCounters } from '../types';
+import { getSceneLog } from '../services/generationLog';
+import { STAGE_LABELS, ERROR_KIND_LABELS } from './FailedAssetsPanel';
+
+interface GenerationLogDrawerProps {
+  projectId: string;
+  sceneIndex: number;
+  onClose: () => void;
+}
+
+export const LOG_STAGE_LABELS: Record<GenerationLogStage, string> = {
+  ...STAGE_LABELS,
+  video: '비디오',
+  split: '컷 분할'
+};
+
+const OUTCOME_STYLES: Record<GenerationLogEntry['outcome'], { icon: React.ElementType; className: string; label: string }> = {
+  success: { icon: CheckCircle2, className: 'text-emerald-400', label: '성공' },
+  empty: { icon: CircleDashed, className: 'text-amber-400', label: '결과 없음' },
+  failed: { icon: XCircle, className: 'text-red-400', label: '실패' }
+};
+
+const quotaDelta = (before: QuotaCounters, after: QuotaCounters) =>
+  `${before.total} → ${after.total}`;
+
+const LogEntryRow: React.FC<{ entry: GenerationLogEntry }> = ({ entry }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const outcome = OUTCOME_STYLES[entry.outcome];
+  const Icon = outcome.icon;
+  const { inputs } = entry;
+
+  return (
+    <li className="px-4 py-3">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center gap-2 text-left">
+        <Icon className={`w-4 h-4 shrink-0 ${outcome.className}`} />
+        <span className="text-sm text-white font-bold">{LOG_STAGE_LABELS[entry.stage]}</span>
+        <span className="text-[10px] px-1.5 py-0.5 rounded bg-slate-800 text-slate-400 border border-slate-700">
+          {entry.source === 'manual' ? '수동' : `${entry.attempt}차 시도`}
+        </span>
+        <span className="ml-auto text-[10px] font-mono text-slate-500">{new Date(entry.started_at).toLocaleString()}</span>
+        {isOpen ? <ChevronUp className="w-3 h-3 text-slate-500" /> : <ChevronDown className="w-3 h-3 text-slate-500" />}
+      </button>
+
+      <div className="mt-1 ml-6 text-xs text-slate-400 font-mono">
+        {entry.model} · {(entry.duration_ms / 1000).toFixed(1)}s · 할당량 {quotaDelta(entry.quota_before, entry.quota_after)}
+      </div>
+      {entry.outcome === 'failed' && (
+        <div className="mt-1 ml-6 text-xs text-red-300">
+          {entry.error_kind ? ERROR_KIND_LABELS[entry.error_kind] : outcome.label}: {entry.error_message}
+        </div>
+      )}
+
+      {isOpen && (
+        <dl className="mt-2 ml-6 grid grid-cols-[6rem_1fr] gap-x-2 gap-y-1 text-xs bg-slate-950/60 border border-slate-800 rounded p-2">
+          <dt className="text-slate-500">제공자</dt><dd className="text-slate-300">{entry.provider}</dd>
+          {entry.waited_ms > 0 && (<><dt className="text-slate-500">재시도 대기</dt><dd className="text-slate-300">{(entry.waited_ms / 1000).toFixed(1)}s</dd></>)}
+          {inputs.layout && (<><dt className="text-slate-500">레이아웃</dt><dd className="text-slate-300">{inputs.layout}{inputs.layout_guide ? ' (가이드 이미지 포함)' : ''}</dd></>)}
+          {inputs.voice_tone && (<><dt className="text-slate-500">톤</dt><dd className="text-slate-300">{inputs.voice_tone}</dd></>)}
+          {inputs.motion_strength !== undefined && (<><dt className="text-slate-500">모션 / 길이</dt><dd className="text-slate-300">{inputs.motion_strength} / {inputs.duration_seconds}s</dd></>)}
+          {inputs.source_asset_id && (<><dt className="text-slate-500">원본 에셋</dt><dd className="text-slate-300 font-mono truncate">{inputs.source_asset_id}</dd></>)}
+          {entry.asset_id && (<><dt className="text-slate-500">생성 에셋</dt><dd className="text-slate-300 font-mono truncate">{entry.asset_id}</dd></>)}
+          {entry.replaced_asset_id && (<><dt className="text-slate-500">대체된 에셋</dt><dd className="text-slate-300 font-mono truncate">{entry.replaced_asset_id}</dd></>)}
+          {(inputs.prompt || inputs.text) && (
+            <>
+              <dt className="text-slate-500">{inputs.prompt ? '프롬프트' : '텍스트'}</dt>
+              <dd className="text-slate-300 whitespace-pre-wrap break-words max-h-40 overflow-y-auto">{inputs.prompt || inputs.text}</dd>
+            </>
+          )}
+        </dl>
+      )}
+    </li>
+  );
+};
+
+// Side drawer listing every generation attempt recorded for one scene (newest first)
+const GenerationLogDrawer: React.FC<GenerationLogDrawerProps> = ({ projectId, sceneIndex, onClose }) => {
+  const [entries, setEntries] = useState<GenerationLogEntry[] | null>(null);
+
+  useEffect(() => {
+    const refresh = () => getSceneLog(projectId, sceneIndex).then(list => setEntries([...list].reverse()));
+    refresh();
+    const onUpdate = (e: Event) => {
+      const detail = (e as CustomEvent).detail;
+      if (detail?.projectId === projectId && detail?.sceneIndex === sceneIndex) refresh();
+    };
+    window.addEventListener('generation-log-update', onUpdate);
+    return () => window.removeEventListener('generation-log-update', onUpdate);
+  }, [projectId, sceneIndex]);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 backdrop-blur-sm flex justify-end" onClick={onClose}>
+      <div
+        className="h-full w-full max-w-md bg-slate-900 border-l border-slate-700 shadow-2xl flex flex-col animate-in slide-in-from-right duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-700">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <ScrollText className="w-5 h-5 text-blue-400" />
+            씬 #{sceneIndex} 생성 기록
+          </h3>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-white rounded-full hover:bg-slate-800">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {entries === null ? (
+            <div className="flex justify-center py-10 text-slate-500"><Loader2 className="w-5 h-5 animate-spin" /></div>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-sm text-slate-500 py-10">아직 기록된 생성 작업이 없습니다.</p>
+          ) : (
+            <ul className="divide-y divide-slate-800">
+              {entries.map(entry => <LogEntryRow key={entry.id} entry={entry} />)}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GenerationLogDrawer;
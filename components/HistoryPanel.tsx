@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import { History, RotateCcw, Trash2, Plus, ChevronDown, ChevronUp, Bookmark, Clock, X } from 'lucide-react';
+import { ScriptData, ProjectSnapshot, SceneChange, SceneChangeField } from '../types';
+import {
+  listSnapshots,
+  createSnapshot,
+  deleteSnapshot,
+  diffProjects,
+  restoreSnapshot,
+  restoreSceneFromSnapshot
+} from '../services/snapshots';
+import { ProjectSchemaError } from '../services/projectSchema';
+
+interface HistoryPanelProps {
+  project: ScriptData;
+  disabled?: boolean; // e.g. while the pipeline is writing to the project
+  onRestore: (data: ScriptData) => void;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<SceneChangeField, string> = {
+  narration: '내레이션',
+  prompt: '프롬프트',
+  image: '이미지',
+  audio: '오디오',
+  layout: '레이아웃',
+  type: '타입'
+};
+
+const formatDate = (ts: number) => new Date(ts).toLocaleString('ko-KR', {
+  month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit'
+});
+
+const summarize = (changes: SceneChange[]) => {
+  const added = changes.filter(c => c.change === 'added').length;
+  const removed = changes.filter(c => c.change === 'removed').length;
+  const modified = changes.filter(c => c.change === 'modified').length;
+  if (changes.length === 0) return '현재와 동일';
+  return [
+    modified ? `${modified}개 변경` : '',
+    added ? `${added}개 추가` : '',
+    removed ? `${removed}개 삭제` : ''
+  ].filter(Boolean).join(' · ');
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ project, disabled, onRestore, onClose }) => {
+  const [snapshots, setSnapshots] = useState<ProjectSnapshot[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [manualLabel, setManualLabel] = useState('');
+
+  const projectId = project.project_id;
+
+  useEffect(() => {
+    if (!projectId) return;
+    const refresh = () => { listSnapshots(projectId).then(setSnapshots); };
+    refresh();
+    window.addEventListener('snapshot-update', refresh);
+    return () => window.removeEventListener('snapshot-update', refresh);
+  }, [projectId]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const label = manualLabel.trim() || `수동 저장 ${new Date().toLocaleTimeString('ko-KR')}`;
+    await createSnapshot(project, label, 'manual');
+    setManualLabel('');
+  };
+
+  // Snapshots are upgraded to the current schema on restore; one that cannot be is reported, not applied
+  const applyRestore = async (restore: () => Promise<ScriptData>) => {
+    try {
+      onRestore(await restore());
+    } catch (error: any) {
+      alert(error instanceof ProjectSchemaError ? error.toReport() : "스냅샷을 복원하지 못했습니다. " + (error.message || ""));
+    }
+  };
+
+  const handleRestoreAll = async (snapshot: ProjectSnapshot) => {
+    if (!window.confirm(`"${snapshot.label}" 시점으로 전체 프로젝트를 되돌리시겠습니까?\n현재 상태는 자동으로 스냅샷에 저장됩니다.`)) return;
+    await applyRestore(() => restoreSnapshot(project, snapshot));
+  };
+
+  const handleRestoreScene = async (snapshot: ProjectSnapshot, sceneIndex: number) => {
+    await applyRestore(() => restoreSceneFromSnapshot(project, snapshot, sceneIndex));
+  };
+
+  const handleDelete = async (snapshot: ProjectSnapshot) => {
+    if (!projectId) return;
+    if (window.confirm(`"${snapshot.label}" 스냅샷을 삭제하시겠습니까?`)) {
+      await deleteSnapshot(projectId, snapshot.id);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-2xl border border-slate-600 w-full max-w-2xl shadow-2xl flex flex-col max-h-[80vh]">
+      <div className="flex items-center justify-between p-5 border-b border-slate-700">
+        <h3 className="text-lg font-bold text-white flex items-center gap-2">
+          <History className="w-5 h-5 text-blue-400" />
+          버전 기록
+        </h3>
+        <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-white rounded-full hover:bg-slate-700">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <form onSubmit={handleCreate} className="flex gap-2 p-4 border-b border-slate-700/50">
+        <input
+          value={manualLabel}
+          onChange={e => setManualLabel(e.target.value)}
+          placeholder="스냅샷 이름 (예: 1차 검수 완료)"
+          className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-blue-500"
+        />
+        <button type="submit" className="flex items-center gap-1.5 px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm font-bold rounded-lg">
+          <Plus className="w-4 h-4" /> 저장
+        </button>
+      </form>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {snapshots.length === 0 && (
+          <p className="text-center text-sm text-slate-500 py-8">아직 저장된 스냅샷이 없습니다.</p>
+        )}
+
+        {snapshots.map(snapshot => {
+          const changes = diffProjects(snapshot.data, project);
+          const isExpanded = expandedId === snapshot.id;
+
+          return (
+            <div key={snapshot.id} className="bg-slate-900/60 border border-slate-700/50 rounded-xl">
+              <div className="flex items-center gap-3 p-3">
+                <div className={`p-1.5 rounded-lg ${snapshot.kind === 'manual' ? 'bg-amber-500/10 text-amber-400' : 'bg-slate-700/50 text-slate-400'}`}>
+                  {snapshot.kind === 'manual' ? <Bookmark className="w-4 h-4" /> : <Clock className="w-4 h-4" />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-bold text-slate-200 truncate">{snapshot.label}</p>
+                  <p className="text-[10px] text-slate-500 font-mono">
+                    {formatDate(snapshot.created_at)} · {snapshot.data.scenes.length} Scenes · {summarize(changes)}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : snapshot.id)}
+                  disabled={changes.length === 0}
+                  className="p-1.5 text-slate-400 hover:text-white disabled:opacity-30"
+                  title="변경된 씬 보기"
+                >
+                  {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => handleRestoreAll(snapshot)}
+                  disabled={disabled || changes.length === 0}
+                  className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-bold text-blue-300 bg-blue-500/10 hover:bg-blue-500/20 border border-blue-500/30 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <RotateCcw className="w-3 h-3" /> 전체 복원
+                </button>
+                <button onClick={() => handleDelete(snapshot)} className="p-1.5 text-slate-500 hover:text-red-400" title="삭제">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              {isExpanded && (
+                <div className="border-t border-slate-800 p-3 space-y-1.5">
+                  {changes.map(change => (
+                    <div key={change.scene_index} className="flex items-center gap-2 text-xs">
+                      <span className="px-1.5 py-0.5 rounded bg-slate-700 font-bold text-slate-300">#{change.scene_index}</span>
+                      <span className={`font-bold ${change.change === 'added' ? 'text-emerald-400' : change.change === 'removed' ? 'text-red-400' : 'text-amber-400'}`}>
+                        {change.change === 'added' ? '이후 추가됨' : change.change === 'removed' ? '이후 삭제됨' : '변경됨'}
+                      </span>
+                      <span className="text-slate-500 flex-1 truncate">
+                        {change.fields.map(f => FIELD_LABELS[f]).join(', ')}
+                      </span>
+                      {change.change !== 'added' && (
+                        <button
+                          onClick={() => handleRestoreScene(snapshot, change.scene_index)}
+                          disabled={disabled}
+                          className="flex items-center gap-1 px-2 py-1 text-[11px] text-slate-300 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                          <RotateCcw className="w-3 h-3" /> 이 씬만 복원
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {disabled && (
+        <p className="p-3 text-center text-xs text-amber-400 border-t border-slate-700">
+          자동 생성이 진행 중일 때는 복원할 수 없습니다. 일시정지 후 시도해주세요.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
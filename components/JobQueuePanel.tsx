@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { ListOrdered, Pause, Play, X, ArrowUpToLine, Loader2, Image as ImageIcon, Mic, Eye, Film, FileText, ChevronDown, ChevronUp } from 'lucide-react';
+import { jobScheduler, JobInfo } from '../services/scheduler';
+import { Capability } from '../services/providers';
+
+const CAPABILITY_ICONS: Record<Capability, React.ElementType> = {
+  text: FileText,
+  json: FileText,
+  image: ImageIcon,
+  speech: Mic,
+  vision: Eye,
+  video: Film
+};
+
+const MAX_VISIBLE_JOBS = 12;
+
+// Live view of the shared job scheduler: running/queued jobs with pause, cancel and priority controls
+const JobQueuePanel: React.FC = () => {
+  const [jobs, setJobs] = useState<JobInfo[]>(jobScheduler.getJobs());
+  const [paused, setPaused] = useState(jobScheduler.isPaused());
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  useEffect(() => {
+    const refresh = () => {
+      setJobs(jobScheduler.getJobs());
+      setPaused(jobScheduler.isPaused());
+    };
+    window.addEventListener('scheduler-update', refresh);
+    return () => window.removeEventListener('scheduler-update', refresh);
+  }, []);
+
+  if (jobs.length === 0 && !paused) return null;
+
+  const runningJobs = jobs.filter(j => j.status === 'running');
+  const queuedJobs = jobs.filter(j => j.status === 'queued');
+
+  return (
+    <div className="mb-6 bg-slate-900/70 border border-slate-700 rounded-xl text-sm">
+      <div className="flex items-center justify-between px-4 py-2.5">
+        <button onClick={() => setIsExpanded(!isExpanded)} className="flex items-center gap-2 text-slate-300 hover:text-white">
+          <ListOrdered className="w-4 h-4 text-blue-400" />
+          <span className="font-bold">작업 대기열</span>
+          <span className="text-xs text-slate-500 font-mono">실행 {runningJobs.length} · 대기 {queuedJobs.length}</span>
+          {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </button>
+        <button
+          onClick={() => paused ? jobScheduler.resume() : jobScheduler.pause()}
+          className={`flex items-center gap-1.5 px-3 py-1 rounded-lg text-xs font-bold border ${paused ? 'bg-amber-500/20 text-amber-300 border-amber-500/30' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+          title={paused ? '대기 중인 작업 재개' : '새 작업 시작을 멈춤 (실행 중인 작업은 끝까지 진행)'}
+        >
+          {paused ? <><Play className="w-3 h-3" /> 재개</> : <><Pause className="w-3 h-3" /> 대기열 일시정지</>}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <ul className="border-t border-slate-800 divide-y divide-slate-800/60">
+          {jobs.slice(0, MAX_VISIBLE_JOBS).map(job => {
+            const Icon = CAPABILITY_ICONS[job.capability];
+            const isRunning = job.status === 'running';
+            return (
+              <li key={job.id} className="flex items-center gap-3 px-4 py-2">
+                {isRunning
+                  ? <Loader2 className="w-4 h-4 text-green-400 animate-spin" />
+                  : <Icon className="w-4 h-4 text-slate-500" />}
+                <span className={`flex-1 truncate ${isRunning ? 'text-white' : 'text-slate-400'}`}>{job.label}</span>
+                <span className="text-[10px] font-mono text-slate-600">{job.model}</span>
+                {!isRunning && (
+                  <>
+                    <button onClick={() => jobScheduler.prioritize(job.id)} className="p-1 text-slate-500 hover:text-blue-400" title="가장 먼저 실행">
+                      <ArrowUpToLine className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => jobScheduler.cancel(job.id)} className="p-1 text-slate-500 hover:text-red-400" title="작업 취소">
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </>
+                )}
+              </li>
+            );
+          })}
+          {jobs.length > MAX_VISIBLE_JOBS && (
+            <li className="px-4 py-2 text-xs text-slate-500">외 {jobs.length - MAX_VISIBLE_JOBS}개 작업</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default JobQueuePanel;
@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { ListTree, ArrowLeft, ArrowUp, ArrowDown, Trash2, Plus, PenLine, RotateCw, Loader2, CheckCircle2, AlertTriangle, Clapperboard } from 'lucide-react';
+import { ScriptWriterDraft, OutlineChapter } from '../types';
+import { writeChapter, isChapterStale } from '../services/geminiService';
+import { AIError, toUserMessage } from '../services/aiErrors';
+
+interface OutlineEditorProps {
+  draft: ScriptWriterDraft;
+  onChange: (draft: ScriptWriterDraft) => void;
+  onBuild: () => void; // Writes whatever is still missing, then turns the chapters into scenes
+  onBack: () => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500";
+
+// Review step of the staged writer: edit the outline, write chapters one by one (or all), re-run any of them
+const OutlineEditor: React.FC<OutlineEditorProps> = ({ draft, onChange, onBuild, onBack }) => {
+  const [writing, setWriting] = useState<string | null>(null);
+  const [progress, setProgress] = useState('');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const { outline, chapters } = draft;
+
+  const totalTarget = outline.chapters.reduce((sum, c) => sum + c.target_chars, 0);
+  const totalWritten = outline.chapters.reduce((sum, c) => sum + (chapters[c.id]?.narration.length || 0), 0);
+
+  const updateChapter = (id: string, patch: Partial<OutlineChapter>) => {
+    onChange({ ...draft, outline: { ...outline, chapters: outline.chapters.map(c => c.id === id ? { ...c, ...patch } : c) } });
+  };
+
+  const moveChapter = (index: number, delta: number) => {
+    const next = [...outline.chapters];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + delta, 0, moved);
+    onChange({ ...draft, outline: { ...outline, chapters: next } });
+  };
+
+  const removeChapter = (id: string) => {
+    const { [id]: _removed, ...rest } = chapters;
+    onChange({ outline: { ...outline, chapters: outline.chapters.filter(c => c.id !== id) }, chapters: rest });
+  };
+
+  const addChapter = () => {
+    // Ids stay unique even after removals so drafts never attach to the wrong chapter
+    const nextId = Math.max(0, ...outline.chapters.map(c => Number(c.id.replace('ch_', '')) || 0)) + 1;
+    const chapter: OutlineChapter = { id: `ch_${nextId}`, phase: 'Chapter', title: '새 챕터', summary: '', key_points: [], target_chars: 800 };
+    onChange({ ...draft, outline: { ...outline, chapters: [...outline.chapters, chapter] } });
+  };
+
+  // Each chapter sees the one before it, so chapters are written in order
+  const runChapters = async (ids: string[]) => {
+    let current = draft;
+    try {
+      for (const id of ids) {
+        const index = current.outline.chapters.findIndex(c => c.id === id);
+        const chapter = current.outline.chapters[index];
+        setWriting(id);
+        setProgress(`챕터 작성 중 (${ids.indexOf(id) + 1}/${ids.length}): ${chapter.title}`);
+        const previousId = index > 0 ? current.outline.chapters[index - 1].id : undefined;
+        const written = await writeChapter(current.outline, id, previousId ? current.chapters[previousId] : undefined);
+        current = { ...current, chapters: { ...current.chapters, [id]: written } };
+        onChange(current);
+      }
+    } catch (e) {
+      console.error("Chapter writing failed", e);
+      alert(e instanceof AIError && e.blocksService ? e.userMessage : "챕터 작성 실패: " + toUserMessage(e));
+    } finally {
+      setWriting(null);
+      setProgress('');
+    }
+  };
+
+  const pendingIds = outline.chapters.filter(c => !chapters[c.id] || isChapterStale(c, chapters[c.id])).map(c => c.id);
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-6 pb-20 animate-in fade-in duration-500">
+      <button onClick={onBack} disabled={!!writing} className="flex items-center gap-2 text-slate-400 hover:text-white text-sm mb-6 disabled:opacity-50">
+        <ArrowLeft className="w-4 h-4" /> 주제 목록으로
+      </button>
+
+      <div className="mb-8">
+        <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-slate-800 border border-slate-700 text-slate-400 text-xs font-bold uppercase tracking-wider mb-4">
+          <ListTree className="w-3 h-3" /> 목차 검토
+        </div>
+        <input
+          value={outline.meta.title}
+          onChange={(e) => onChange({ ...draft, outline: { ...outline, meta: { ...outline.meta, title: e.target.value } } })}
+          className="w-full bg-transparent text-3xl font-black text-white border-b border-transparent hover:border-slate-700 focus:border-blue-500 focus:outline-none pb-1"
+        />
+        <p className="text-slate-500 text-sm mt-3">
+          목차를 고친 뒤 챕터를 작성하세요. 챕터는 한 번에 하나씩 전체 목차를 참고해 쓰이며, 마음에 들지 않는 챕터만 다시 쓸 수 있습니다.
+        </p>
+        <div className="flex gap-4 mt-3 text-xs font-mono text-slate-400">
+          <span>챕터 {outline.chapters.length}개</span>
+          <span>목표 {totalTarget.toLocaleString()}자</span>
+          <span>작성 {totalWritten.toLocaleString()}자</span>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {outline.chapters.map((chapter, index) => {
+          const written = chapters[chapter.id];
+          const stale = isChapterStale(chapter, written);
+          const isWriting = writing === chapter.id;
+          return (
+            <div key={chapter.id} className="bg-slate-800 border border-slate-700 rounded-xl p-4">
+              <div className="flex items-center gap-2 mb-3">
+                <span className="text-xs font-mono text-slate-500 w-6">{index + 1}</span>
+                <input
+                  value={chapter.phase}
+                  onChange={(e) => updateChapter(chapter.id, { phase: e.target.value })}
+                  disabled={!!writing}
+                  className="w-40 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-blue-300 focus:outline-none focus:border-blue-500"
+                  title="단계 (씬의 step_phase)"
+                />
+                <input
+                  value={chapter.title}
+                  onChange={(e) => updateChapter(chapter.id, { title: e.target.value })}
+                  disabled={!!writing}
+                  className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm font-bold text-white focus:outline-none focus:border-blue-500"
+                />
+                <button onClick={() => moveChapter(index, -1)} disabled={!!writing || index === 0} className="p-1 text-slate-500 hover:text-white disabled:opacity-30"><ArrowUp className="w-4 h-4" /></button>
+                <button onClick={() => moveChapter(index, 1)} disabled={!!writing || index === outline.chapters.length - 1} className="p-1 text-slate-500 hover:text-white disabled:opacity-30"><ArrowDown className="w-4 h-4" /></button>
+                <button onClick={() => removeChapter(chapter.id)} disabled={!!writing || outline.chapters.length <= 1} className="p-1 text-slate-500 hover:text-red-400 disabled:opacity-30"><Trash2 className="w-4 h-4" /></button>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr] gap-3">
+                <textarea
+                  value={chapter.summary}
+                  onChange={(e) => updateChapter(chapter.id, { summary: e.target.value })}
+                  disabled={!!writing}
+                  rows={3}
+                  placeholder="요약"
+                  className={inputClass}
+                />
+                <textarea
+                  value={chapter.key_points.join('\n')}
+                  onChange={(e) => updateChapter(chapter.id, { key_points: e.target.value.split('\n') })}
+                  disabled={!!writing}
+                  rows={3}
+                  placeholder="핵심 포인트 (한 줄에 하나)"
+                  className={inputClass}
+                />
+              </div>
+
+              <div className="flex items-center justify-between mt-3">
+                <label className="flex items-center gap-2 text-xs text-slate-400">
+                  목표 분량
+                  <input
+                    type="number" min={100} step={100}
+                    value={chapter.target_chars}
+                    onChange={(e) => updateChapter(chapter.id, { target_chars: Math.max(100, Number(e.target.value) || 100) })}
+                    disabled={!!writing}
+                    className="w-24 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white text-xs focus:outline-none focus:border-blue-500"
+                  />
+                  자
+                </label>
+                <div className="flex items-center gap-3">
+                  {written && !stale && <span className="flex items-center gap-1 text-xs text-emerald-400"><CheckCircle2 className="w-3.5 h-3.5" /> {written.narration.length.toLocaleString()}자</span>}
+                  {stale && <span className="flex items-center gap-1 text-xs text-amber-400"><AlertTriangle className="w-3.5 h-3.5" /> 목차가 바뀜</span>}
+                  <button
+                    onClick={() => runChapters([chapter.id])}
+                    disabled={!!writing}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white text-xs font-bold"
+                  >
+                    {isWriting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : written ? <RotateCw className="w-3.5 h-3.5" /> : <PenLine className="w-3.5 h-3.5" />}
+                    {written ? '다시 쓰기' : '작성'}
+                  </button>
+                </div>
+              </div>
+
+              {written && (
+                <div className="mt-3 border-t border-slate-700 pt-3">
+                  <p className={`text-sm text-slate-300 leading-relaxed whitespace-pre-wrap ${expanded.has(chapter.id) ? '' : 'line-clamp-3'}`}>
+                    {written.narration}
+                  </p>
+                  <button onClick={() => toggleExpanded(chapter.id)} className="text-xs text-slate-500 hover:text-white mt-1">
+                    {expanded.has(chapter.id) ? '접기' : '전체 보기'}
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <button onClick={addChapter} disabled={!!writing} className="mt-4 w-full flex items-center justify-center gap-2 py-3 border border-dashed border-slate-700 rounded-xl text-slate-400 hover:text-white hover:border-slate-500 text-sm disabled:opacity-50">
+        <Plus className="w-4 h-4" /> 챕터 추가
+      </button>
+
+      <div className="sticky bottom-4 mt-8 flex items-center justify-between gap-4 bg-slate-800/90 backdrop-blur border border-slate-600 rounded-2xl p-4 shadow-xl">
+        <span className="text-sm text-emerald-400 font-mono">
+          {progress || (pendingIds.length > 0 ? `작성할 챕터 ${pendingIds.length}개` : '모든 챕터 작성 완료')}
+        </span>
+        <div className="flex gap-3">
+          <button
+            onClick={() => runChapters(pendingIds)}
+            disabled={!!writing || pendingIds.length === 0}
+            className="flex items-center gap-2 px-5 py-2.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded-xl font-bold text-sm"
+          >
+            <PenLine className="w-4 h-4" /> 남은 챕터 작성
+          </button>
+          <button
+            onClick={onBuild}
+            disabled={!!writing}
+            className="flex items-center gap-2 px-5 py-2.5 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white rounded-xl font-bold text-sm"
+            title="남은 챕터를 작성한 뒤 씬으로 나눕니다"
+          >
+            <Clapperboard className="w-4 h-4" /> 씬 만들기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OutlineEditor;
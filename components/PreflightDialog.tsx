@@ -0,0 +1,127 @@
+import React from 'react';
+import { Gauge, Play, AlertTriangle, Clock, FileText, Image as ImageIcon, Mic, Film } from 'lucide-react';
+import { GenerationLogStage } from '../types';
+import { PipelineEstimate } from '../services/preflight';
+import { QuotaType } from '../utils/quotaManager';
+import { LOG_STAGE_LABELS } from './GenerationLogDrawer';
+import { formatDuration } from './RunSummary';
+
+interface PreflightDialogProps {
+  estimate: PipelineEstimate;
+  onRun: (sceneIndices: number[]) => void;
+  onCancel: () => void;
+}
+
+const QUOTA_TYPE_ROWS: { type: QuotaType; label: string; icon: React.ElementType; color: string }[] = [
+  { type: 'text', label: 'Text', icon: FileText, color: 'text-blue-400' },
+  { type: 'image', label: 'Image', icon: ImageIcon, color: 'text-purple-400' },
+  { type: 'audio', label: 'Audio', icon: Mic, color: 'text-amber-400' },
+  { type: 'video', label: 'Video', icon: Film, color: 'text-indigo-400' }
+];
+
+const STAGE_ORDER: GenerationLogStage[] = ['image', 'inspection', 'video', 'split', 'grid', 'audio'];
+
+// Shown before a pipeline run: calls still needed vs. today's remaining quota, and the expected duration
+const PreflightDialog: React.FC<PreflightDialogProps> = ({ estimate, onRun, onCancel }) => {
+  const allScenes = estimate.scenes.map(plan => plan.scene_index);
+  const partial = estimate.fitting_scenes;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <div className="bg-slate-800 p-8 rounded-2xl border border-slate-600 max-w-lg w-full shadow-2xl">
+        <h3 className="text-xl font-bold text-white mb-2 flex items-center gap-2">
+          <Gauge className="w-6 h-6 text-blue-400" />
+          실행 전 예상 사용량
+        </h3>
+        <p className="text-slate-300 text-sm mb-4">
+          남은 씬 <strong>{allScenes.length}개</strong>를 생성하는 데 필요한 API 호출입니다. (재시도 제외)
+        </p>
+
+        {/* Calls per stage */}
+        <div className="grid grid-cols-3 gap-2 mb-4 text-xs">
+          {STAGE_ORDER.filter(stage => estimate.calls[stage] + estimate.fallback[stage] > 0).map(stage => (
+            <div key={stage} className="bg-slate-900/60 border border-slate-700 rounded-lg px-3 py-2 flex justify-between">
+              <span className="text-slate-400">{LOG_STAGE_LABELS[stage]}</span>
+              <span className="font-mono text-white">
+                {estimate.calls[stage]}
+                {estimate.fallback[stage] > 0 && <span className="text-slate-500"> (+{estimate.fallback[stage]})</span>}
+              </span>
+            </div>
+          ))}
+        </div>
+        {estimate.veo_available && estimate.calls.video > 0 && (
+          <p className="text-[11px] text-slate-500 mb-4">(+n)은 비디오 생성이 실패해 2x2 그리드로 대체될 때 추가되는 호출입니다.</p>
+        )}
+
+        {/* Needed vs remaining per model type */}
+        <table className="w-full text-xs mb-4">
+          <thead>
+            <tr className="text-slate-500 border-b border-slate-700">
+              <th className="text-left font-normal py-1">모델</th>
+              <th className="text-right font-normal py-1">필요</th>
+              <th className="text-right font-normal py-1">오늘 남은 호출</th>
+            </tr>
+          </thead>
+          <tbody>
+            {QUOTA_TYPE_ROWS.filter(({ type }) => estimate.needed[type].max > 0).map(({ type, label, icon: Icon, color }) => {
+              const { min, max } = estimate.needed[type];
+              const over = max > estimate.remaining[type];
+              return (
+                <tr key={type} className="border-b border-slate-800">
+                  <td className="py-1.5 flex items-center gap-1.5 text-slate-300">
+                    <Icon className={`w-3 h-3 ${color}`} /> {label}
+                  </td>
+                  <td className={`py-1.5 text-right font-mono ${over ? 'text-red-400 font-bold' : 'text-white'}`}>
+                    {min === max ? max : `${min}~${max}`}
+                  </td>
+                  <td className="py-1.5 text-right font-mono text-slate-400">{estimate.remaining[type]}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <div className="flex items-center gap-2 text-sm text-slate-300 mb-4">
+          <Clock className="w-4 h-4 text-slate-400" />
+          예상 소요 시간: <strong className="font-mono">약 {formatDuration(estimate.estimated_ms)}</strong>
+        </div>
+
+        {!estimate.fits && (
+          <div className="flex items-start gap-2 text-xs bg-amber-950/30 border border-amber-800/60 text-amber-100 rounded-lg px-3 py-2 mb-6">
+            <AlertTriangle className="w-4 h-4 text-amber-400 shrink-0" />
+            <span>
+              오늘 남은 할당량으로는 전체를 끝내지 못할 수 있습니다.
+              {partial.length > 0
+                ? ` 앞에서부터 ${partial.length}개 씬(#${partial[0]}~#${partial[partial.length - 1]})까지는 최악의 경우에도 할당량 안에서 생성할 수 있습니다.`
+                : ' 할당량 안에서 생성할 수 있는 씬이 없습니다.'}
+            </span>
+          </div>
+        )}
+
+        <div className="flex gap-3 justify-end">
+          <button onClick={onCancel} className="px-4 py-2 text-slate-400 hover:text-white">
+            취소
+          </button>
+          {!estimate.fits && partial.length > 0 && (
+            <button
+              onClick={() => onRun(partial)}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-bold flex items-center gap-2"
+            >
+              <Play className="w-4 h-4" /> {partial.length}개 씬만 실행
+            </button>
+          )}
+          <button
+            onClick={() => onRun(allScenes)}
+            className={`px-4 py-2 rounded-lg font-bold flex items-center gap-2 ${estimate.fits
+              ? 'bg-blue-600 hover:bg-blue-500 text-white'
+              : 'bg-slate-700 hover:bg-slate-600 text-slate-200'}`}
+          >
+            <Play className="w-4 h-4" /> {estimate.fits ? '실행' : '그래도 전체 실행'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PreflightDialog;
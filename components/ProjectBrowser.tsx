@@ -0,0 +1,209 @@
+import React, { useState, useEffect } from 'react';
+import { FolderOpen, Play, Trash2, Copy, Archive, ArchiveRestore, Edit3, Check, X, Clock } from 'lucide-react';
+import { ProjectSummary, ScriptData } from '../types';
+import {
+  listProjects,
+  loadProject,
+  renameProject,
+  duplicateProject,
+  setProjectArchived,
+  deleteProject
+} from '../services/projectLibrary';
+import { ProjectSchemaError } from '../services/projectSchema';
+
+interface ProjectBrowserProps {
+  onOpen: (data: ScriptData) => void;
+  currentProjectId?: string;
+  onRenamed?: (projectId: string, title: string) => void; // Lets the holder of the open project keep its copy in sync
+  lockCurrent?: boolean; // The open project is being written (e.g. pipeline run): no rename until it ends
+}
+
+const formatDate = (ts: number) => new Date(ts).toLocaleString('ko-KR', {
+  month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
+});
+
+const ProjectBrowser: React.FC<ProjectBrowserProps> = ({ onOpen, currentProjectId, onRenamed, lockCurrent }) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const refresh = async () => {
+    const all = await listProjects({ includeArchived: true });
+    setProjects(all);
+  };
+
+  useEffect(() => {
+    refresh();
+    const handleUpdate = () => { refresh(); };
+    window.addEventListener('project-library-update', handleUpdate);
+    return () => window.removeEventListener('project-library-update', handleUpdate);
+  }, []);
+
+  const handleOpen = async (id: string) => {
+    try {
+      const data = await loadProject(id);
+      if (data) {
+        onOpen(data);
+      } else {
+        alert("프로젝트를 불러오지 못했습니다.");
+      }
+    } catch (e) {
+      console.error(e);
+      alert(e instanceof ProjectSchemaError ? e.toReport() : "프로젝트를 불러오지 못했습니다.");
+    }
+  };
+
+  const startRename = (e: React.MouseEvent, project: ProjectSummary) => {
+    e.stopPropagation();
+    setRenamingId(project.id);
+    setRenameValue(project.title);
+  };
+
+  const confirmRename = async (e: React.MouseEvent | React.FormEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    if (renamingId && renameValue.trim()) {
+      await renameProject(renamingId, renameValue.trim());
+      onRenamed?.(renamingId, renameValue.trim());
+    }
+    setRenamingId(null);
+  };
+
+  const handleDuplicate = async (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    await duplicateProject(id);
+  };
+
+  const handleArchive = async (e: React.MouseEvent, project: ProjectSummary) => {
+    e.stopPropagation();
+    await setProjectArchived(project.id, !project.archived);
+  };
+
+  const handleDelete = async (e: React.MouseEvent, project: ProjectSummary) => {
+    e.stopPropagation();
+    if (window.confirm(`"${project.title}" 프로젝트를 삭제하시겠습니까? 되돌릴 수 없습니다.`)) {
+      await deleteProject(project.id);
+    }
+  };
+
+  const visible = projects.filter(p => p.archived === showArchived);
+  const archivedCount = projects.filter(p => p.archived).length;
+
+  if (projects.length === 0) return null;
+
+  return (
+    <div className="w-full bg-slate-900/50 backdrop-blur-md border border-emerald-500/30 rounded-2xl p-5 shadow-[0_0_30px_rgba(16,185,129,0.1)]">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2 text-emerald-400 text-xs font-bold uppercase tracking-wider">
+          <FolderOpen className="w-4 h-4" />
+          프로젝트 라이브러리
+        </div>
+        <div className="flex bg-slate-950 rounded-lg p-0.5 text-[11px] font-bold">
+          <button
+            onClick={() => setShowArchived(false)}
+            className={`px-3 py-1 rounded-md transition-colors ${!showArchived ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+          >
+            진행 중 ({projects.length - archivedCount})
+          </button>
+          <button
+            onClick={() => setShowArchived(true)}
+            className={`px-3 py-1 rounded-md transition-colors ${showArchived ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+          >
+            보관함 ({archivedCount})
+          </button>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-center text-xs text-slate-500 py-6">
+          {showArchived ? '보관된 프로젝트가 없습니다.' : '진행 중인 프로젝트가 없습니다.'}
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-80 overflow-y-auto pr-1">
+          {visible.map(project => {
+            const isCurrent = project.id === currentProjectId;
+            const isRenaming = renamingId === project.id;
+
+            return (
+              <div
+                key={project.id}
+                onClick={() => !isRenaming && !isCurrent && handleOpen(project.id)}
+                className={`group relative p-3 rounded-xl border transition-all
+                  ${isCurrent
+                    ? 'bg-emerald-900/20 border-emerald-600/50 cursor-default'
+                    : 'bg-slate-800/40 border-slate-700/50 hover:bg-slate-800/80 hover:border-emerald-500/40 cursor-pointer'}`}
+              >
+                <div className="flex items-center justify-between gap-3 mb-2">
+                  <div className="min-w-0 flex-1">
+                    {isRenaming ? (
+                      <form onSubmit={confirmRename} className="flex items-center gap-1" onClick={e => e.stopPropagation()}>
+                        <input
+                          autoFocus
+                          value={renameValue}
+                          onChange={e => setRenameValue(e.target.value)}
+                          className="flex-1 bg-slate-950 border border-slate-600 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-emerald-500"
+                        />
+                        <button type="submit" className="p-1 text-emerald-400 hover:text-white"><Check className="w-4 h-4" /></button>
+                        <button type="button" onClick={(e) => { e.stopPropagation(); setRenamingId(null); }} className="p-1 text-slate-500 hover:text-white"><X className="w-4 h-4" /></button>
+                      </form>
+                    ) : (
+                      <h4 className="text-sm font-bold text-white truncate group-hover:text-emerald-300 transition-colors">
+                        {project.title}
+                        {isCurrent && <span className="ml-2 text-[10px] text-emerald-400 font-normal">(현재 작업)</span>}
+                      </h4>
+                    )}
+                    <div className="flex items-center gap-2 text-[10px] text-slate-500 font-mono mt-0.5">
+                      <Clock className="w-3 h-3" />
+                      <span>수정 {formatDate(project.updated_at)}</span>
+                      <span className="text-slate-700">|</span>
+                      <span>생성 {formatDate(project.created_at)}</span>
+                    </div>
+                  </div>
+
+                  {!isRenaming && (
+                    <div className="flex items-center gap-1 opacity-60 group-hover:opacity-100 transition-opacity">
+                      {!(isCurrent && lockCurrent) && (
+                        <button onClick={(e) => startRename(e, project)} className="p-1.5 text-slate-400 hover:text-blue-400 hover:bg-blue-400/10 rounded-full" title="이름 변경">
+                          <Edit3 className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                      <button onClick={(e) => handleDuplicate(e, project.id)} className="p-1.5 text-slate-400 hover:text-purple-400 hover:bg-purple-400/10 rounded-full" title="복제">
+                        <Copy className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={(e) => handleArchive(e, project)} className="p-1.5 text-slate-400 hover:text-amber-400 hover:bg-amber-400/10 rounded-full" title={project.archived ? "보관 해제" : "보관"}>
+                        {project.archived ? <ArchiveRestore className="w-3.5 h-3.5" /> : <Archive className="w-3.5 h-3.5" />}
+                      </button>
+                      {!isCurrent && (
+                        <button onClick={(e) => handleDelete(e, project)} className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-red-400/10 rounded-full" title="삭제">
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                      {!isCurrent && (
+                        <div className="ml-1 bg-emerald-600 group-hover:bg-emerald-500 text-white p-1.5 rounded-full shadow-lg">
+                          <Play className="w-3.5 h-3.5 fill-current pl-0.5" />
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-1">
+                  <div className="flex justify-between text-[10px] text-slate-400 font-mono">
+                    <span>IMG {project.progress.images_done}/{project.progress.total_scenes} · TTS {project.progress.audio_done}/{project.progress.total_scenes}</span>
+                    <span>{project.progress.percent}% ({project.progress.total_scenes} Scenes)</span>
+                  </div>
+                  <div className="h-1 bg-slate-950 rounded-full overflow-hidden">
+                    <div className="h-full bg-gradient-to-r from-emerald-500 to-teal-400 transition-all" style={{ width: `${project.progress.percent}%` }}></div>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectBrowser;
@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { Coins, FileText, Image as ImageIcon, Mic, Film } from 'lucide-react';
+import { ProjectUsage, UsageByModel } from '../types';
+import { getProjectUsage, totalsOf, costOf, addUsage, emptyUsage, formatCost } from '../services/usageLedger';
+
+interface ProjectCostPanelProps {
+  projectId?: string;
+}
+
+const formatTokens = (n: number) => n >= 1e6 ? `${(n / 1e6).toFixed(2)}M` : n >= 1e3 ? `${(n / 1e3).toFixed(1)}K` : String(n);
+
+// Per-project token and cost totals (by model and by quota day); prices are edited in Settings
+const ProjectCostPanel: React.FC<ProjectCostPanelProps> = ({ projectId }) => {
+  const [record, setRecord] = useState<ProjectUsage | null>(null);
+
+  useEffect(() => {
+    if (!projectId) return;
+    const load = () => getProjectUsage(projectId).then(setRecord);
+    load();
+
+    const handleUpdate = (e: CustomEvent<{ projectId?: string }>) => {
+      if (e.detail?.projectId === projectId) load();
+    };
+    // Price edits re-price everything
+    const handleSettings = () => load();
+    window.addEventListener('usage-update' as any, handleUpdate);
+    window.addEventListener('settings-update', handleSettings);
+    return () => {
+      window.removeEventListener('usage-update' as any, handleUpdate);
+      window.removeEventListener('settings-update', handleSettings);
+    };
+  }, [projectId]);
+
+  const byDay: Record<string, UsageByModel> = record?.by_day || {};
+  const days = Object.keys(byDay).sort().reverse();
+  const byModel: UsageByModel = {};
+  days.forEach(day => {
+    Object.entries(byDay[day]).forEach(([model, usage]) => {
+      byModel[model] = addUsage(byModel[model] || emptyUsage(), usage);
+    });
+  });
+  const { usage: total, cost } = totalsOf(byModel);
+
+  if (!projectId || days.length === 0) {
+    return (
+      <div className="p-8 text-center text-slate-500 text-sm bg-slate-800/50 border border-slate-700 rounded-xl">
+        아직 기록된 사용량이 없습니다.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Totals */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <div className="bg-slate-800 border border-slate-700 rounded-xl p-4">
+          <div className="text-xs text-slate-400 flex items-center gap-1"><Coins className="w-3 h-3 text-amber-400" /> 예상 비용</div>
+          <div className="text-xl font-bold text-white font-mono mt-1">{formatCost(cost)}</div>
+        </div>
+        <div className="bg-slate-800 border border-slate-700 rounded-xl p-4">
+          <div className="text-xs text-slate-400 flex items-center gap-1"><FileText className="w-3 h-3 text-blue-400" /> 호출</div>
+          <div className="text-xl font-bold text-white font-mono mt-1">{total.calls}</div>
+        </div>
+        <div className="bg-slate-800 border border-slate-700 rounded-xl p-4">
+          <div className="text-xs text-slate-400">입력 / 출력 토큰</div>
+          <div className="text-xl font-bold text-white font-mono mt-1">
+            {formatTokens(total.prompt_tokens)} / {formatTokens(total.output_tokens)}
+          </div>
+        </div>
+        <div className="bg-slate-800 border border-slate-700 rounded-xl p-4">
+          <div className="text-xs text-slate-400 flex items-center gap-1"><ImageIcon className="w-3 h-3 text-purple-400" /> 이미지</div>
+          <div className="text-xl font-bold text-white font-mono mt-1">{total.images}</div>
+        </div>
+        <div className="bg-slate-800 border border-slate-700 rounded-xl p-4">
+          <div className="text-xs text-slate-400 flex items-center gap-1"><Mic className="w-3 h-3 text-amber-400" /> 오디오 <Film className="w-3 h-3 text-indigo-400 ml-1" /> 비디오</div>
+          <div className="text-xl font-bold text-white font-mono mt-1">{total.audio} / {total.videos}</div>
+        </div>
+      </div>
+
+      {/* By model */}
+      <div className="bg-slate-800 border border-slate-700 rounded-xl p-4">
+        <h4 className="text-sm font-bold text-white mb-3">모델별</h4>
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr className="text-slate-500 border-b border-slate-700">
+              <th className="text-left font-normal py-1">모델</th>
+              <th className="text-right font-normal py-1">호출</th>
+              <th className="text-right font-normal py-1">입력</th>
+              <th className="text-right font-normal py-1">출력</th>
+              <th className="text-right font-normal py-1">미디어</th>
+              <th className="text-right font-normal py-1">비용</th>
+            </tr>
+          </thead>
+          <tbody>
+            {Object.entries(byModel).map(([model, usage]) => (
+              <tr key={model} className="border-b border-slate-800 text-slate-300">
+                <td className="py-1.5">{model}</td>
+                <td className="py-1.5 text-right">{usage.calls}</td>
+                <td className="py-1.5 text-right">{formatTokens(usage.prompt_tokens)}</td>
+                <td className="py-1.5 text-right">{formatTokens(usage.output_tokens)}</td>
+                <td className="py-1.5 text-right">{usage.images + usage.audio + usage.videos}</td>
+                <td className="py-1.5 text-right text-amber-300">{formatCost(costOf(model, usage))}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* By day */}
+      <div className="bg-slate-800 border border-slate-700 rounded-xl p-4">
+        <h4 className="text-sm font-bold text-white mb-3">일자별 <span className="text-xs font-normal text-slate-500">(태평양 시간 기준)</span></h4>
+        <table className="w-full text-xs font-mono">
+          <tbody>
+            {days.map(day => {
+              const totals = totalsOf(byDay[day]);
+              return (
+                <tr key={day} className="border-b border-slate-800 text-slate-300">
+                  <td className="py-1.5">{day}</td>
+                  <td className="py-1.5 text-right">{totals.usage.calls}회</td>
+                  <td className="py-1.5 text-right">{formatTokens(totals.usage.prompt_tokens + totals.usage.output_tokens)} 토큰</td>
+                  <td className="py-1.5 text-right text-amber-300">{formatCost(totals.cost)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-slate-500">
+        비용은 유료 요금 기준 추정치이며, 단가는 설정의 가격표에서 수정할 수 있습니다. 무료 티어 사용분은 실제로 청구되지 않습니다.
+      </p>
+    </div>
+  );
+};
+
+export default ProjectCostPanel;
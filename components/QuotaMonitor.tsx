@@ -1,24 +1,65 @@
 
 import React, { useEffect, useState } from 'react';
-import { quotaManager, QuotaStats } from '../utils/quotaManager';
-import { Activity, Server, Zap, ExternalLink, FileText, Image as ImageIcon, Mic, Film } from 'lucide-react';
+import { quotaManager, QuotaStats, QuotaType, ModelQuotaStatus, getNextResetAt } from '../utils/quotaManager';
+import { isOfflineMode } from '../services/providers';
+import CassetteControl from './CassetteControl';
+import SettingsPanel from './SettingsPanel';
+import UsageHistoryPanel from './UsageHistoryPanel';
+import { getDayUsage, totalsOf, formatCost } from '../services/usageLedger';
+import { Activity, Server, Zap, ExternalLink, FileText, Image as ImageIcon, Mic, Film, Settings, Coins, BarChart3 } from 'lucide-react';
+
+const TYPE_BADGE_CLASSES: Record<QuotaType, string> = {
+  text: 'bg-blue-500/20 text-blue-300 border-blue-500/30',
+  image: 'bg-purple-500/20 text-purple-300 border-purple-500/30',
+  audio: 'bg-amber-500/20 text-amber-300 border-amber-500/30',
+  video: 'bg-indigo-500/20 text-indigo-300 border-indigo-500/30'
+};
+
+const formatWait = (ms: number) => {
+  const minutes = Math.ceil(ms / 60000);
+  if (ms < 60000) return `${Math.ceil(ms / 1000)}초 후`;
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}시간 ${minutes % 60}분 후` : `${minutes}분 후`;
+};
+
+const nextSlotLabel = (status: ModelQuotaStatus, now: number) =>
+  status.exhausted ? '리셋 후' : status.next_available_at > now ? formatWait(status.next_available_at - now) : '지금';
 
 const QuotaMonitor: React.FC = () => {
   const [stats, setStats] = useState<QuotaStats>(quotaManager.getStats());
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [offline, setOffline] = useState(isOfflineMode());
+  const [now, setNow] = useState(Date.now());
   const limit = quotaManager.getLimit();
+  const modelStatuses = quotaManager.getModelStatuses();
+  const today = totalsOf(getDayUsage(stats.day));
 
   useEffect(() => {
     const handleUpdate = (e: CustomEvent<QuotaStats>) => {
       setStats(e.detail);
     };
 
+    // Provider selection may flip offline mode when settings or the cassette change
+    const handleProviderChange = () => setOffline(isOfflineMode());
+
+    // Minute windows slide and the day rolls over without any call being made
+    const ticker = setInterval(() => {
+      setNow(Date.now());
+      setStats(quotaManager.getStats());
+    }, 1000);
+
     window.addEventListener('quota-update' as any, handleUpdate);
+    window.addEventListener('settings-update', handleProviderChange);
+    window.addEventListener('cassette-update', handleProviderChange);
     return () => {
+      clearInterval(ticker);
       window.removeEventListener('quota-update' as any, handleUpdate);
+      window.removeEventListener('settings-update', handleProviderChange);
+      window.removeEventListener('cassette-update', handleProviderChange);
     };
   }, []);
 
-  const percentage = Math.min((stats.count / limit) * 100, 100);
+  const percentage = limit > 0 ? Math.min((stats.count / limit) * 100, 100) : 0;
   
   // Color logic based on usage
   let statusColor = 'bg-emerald-500';
@@ -28,11 +69,9 @@ const QuotaMonitor: React.FC = () => {
 
   // Model badge color
   const isIdle = stats.activeModel === 'Idle';
-  const modelColorClass = stats.activeModel.includes('image') ? 'bg-purple-500/20 text-purple-300 border-purple-500/30' : 
-                          stats.activeModel.includes('tts') ? 'bg-amber-500/20 text-amber-300 border-amber-500/30' :
-                          stats.activeModel.includes('veo') ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/30' :
-                          isIdle ? 'bg-slate-700/50 text-slate-500 border-slate-600' :
-                          'bg-blue-500/20 text-blue-300 border-blue-500/30';
+  const activeType = stats.models[stats.activeModel]?.type;
+  const modelColorClass = isIdle ? 'bg-slate-700/50 text-slate-500 border-slate-600' : TYPE_BADGE_CLASSES[activeType || 'text'];
+  const waiting = modelStatuses.filter(status => status.next_available_at > now);
 
   return (
     <div className="w-full bg-slate-950 border-b border-slate-800 py-1.5 px-4 flex flex-col sm:flex-row items-center justify-between text-xs font-mono select-none sticky top-0 z-[100] gap-2 sm:gap-0">
@@ -43,6 +82,16 @@ const QuotaMonitor: React.FC = () => {
           <Server className="w-3 h-3" />
           <span className="font-bold truncate max-w-[150px]">{stats.activeModel}</span>
         </div>
+        {offline && (
+            <span className="px-2 py-0.5 rounded border bg-amber-500/20 text-amber-300 border-amber-500/30 font-bold" title="API 키 없이 Mock 결과로 동작 중">
+                OFFLINE
+            </span>
+        )}
+        {waiting.length > 0 && (
+            <span className="hidden sm:inline text-amber-400" title={waiting.map(status => `${status.model}: ${nextSlotLabel(status, now)}`).join('\n')}>
+                ⏳ {waiting[0].model} {nextSlotLabel(waiting[0], now)}
+            </span>
+        )}
         {!isIdle && (
             <div className="flex items-center gap-1 text-slate-400 animate-pulse">
                 <Activity className="w-3 h-3" />
@@ -81,7 +130,7 @@ const QuotaMonitor: React.FC = () => {
           <span className="text-slate-600">/ {limit}</span>
           
           {/* Tooltip */}
-          <div className="absolute top-full right-0 mt-2 w-72 p-3 bg-slate-800 border border-slate-700 rounded-lg shadow-xl text-[11px] text-slate-300 hidden group-hover:block z-50 leading-relaxed tracking-tight">
+          <div className="absolute top-full right-0 mt-2 w-96 p-3 bg-slate-800 border border-slate-700 rounded-lg shadow-xl text-[11px] text-slate-300 hidden group-hover:block z-50 leading-relaxed tracking-tight">
             <p className="mb-2 text-white font-bold border-b border-slate-600 pb-1 flex justify-between">
                 <span>API Usage Breakdown</span>
                 <span className="text-slate-500 font-normal">Est. Free Tier</span>
@@ -92,9 +141,43 @@ const QuotaMonitor: React.FC = () => {
                 <div className="flex justify-between"><span className="text-amber-300">Audio:</span> {stats.modelCounts?.audio || 0}</div>
                 <div className="flex justify-between"><span className="text-indigo-300">Video:</span> {stats.modelCounts?.video || 0}</div>
             </div>
+            {/* [NEW] Tokens & estimated cost today */}
+            <div className="flex justify-between mb-2 pt-2 border-t border-slate-700">
+                <span className="text-slate-400">토큰 (입력/출력)</span>
+                <span>{today.usage.prompt_tokens.toLocaleString()} / {today.usage.output_tokens.toLocaleString()}</span>
+            </div>
+            <div className="flex justify-between mb-2">
+                <span className="text-slate-400">예상 비용 (유료 요금 기준)</span>
+                <span className="text-amber-300 font-bold">{formatCost(today.cost)}</span>
+            </div>
+
+            {/* [NEW] Per-model windows */}
+            <table className="w-full mb-2 border-t border-slate-700">
+                <thead>
+                    <tr className="text-slate-500">
+                        <th className="text-left font-normal pt-2">Model</th>
+                        <th className="text-right font-normal pt-2">분당</th>
+                        <th className="text-right font-normal pt-2">일일</th>
+                        <th className="text-right font-normal pt-2">다음 호출</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {modelStatuses.map(status => (
+                        <tr key={status.model} className={status.exhausted ? 'text-red-400' : ''}>
+                            <td className="truncate max-w-[140px] pr-2" title={status.model}>{status.model}</td>
+                            <td className="text-right">{status.minute}/{status.limits.rpm}</td>
+                            <td className="text-right">{status.day}/{status.limits.rpd}</td>
+                            <td className="text-right">{nextSlotLabel(status, now)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
             <ul className="list-disc pl-3 space-y-1 text-slate-400 pt-2 border-t border-slate-700">
                 <li>
-                    <strong>하루 1,500회</strong> 통합 요청 가능
+                    일일 한도는 <strong>태평양 시간 자정</strong>에 초기화 ({formatWait(getNextResetAt(now) - now)})
+                </li>
+                <li>
+                    한도는 설정에서 모델별로 조정할 수 있습니다
                 </li>
                 <li>
                     <span className="text-red-400">비디오(Veo)</span>는 무료 티어 미지원
@@ -103,6 +186,12 @@ const QuotaMonitor: React.FC = () => {
           </div>
         </div>
 
+        {/* [NEW] Estimated Cost Today */}
+        <div className="hidden sm:flex items-center gap-1 text-slate-400" title="오늘 예상 비용 (유료 요금 기준)">
+          <Coins className="w-3 h-3 text-amber-400" />
+          <span>{formatCost(today.cost)}</span>
+        </div>
+
         {/* Mini Progress Bar */}
         <div className="w-16 sm:w-24 h-1.5 bg-slate-800 rounded-full overflow-hidden">
           <div 
@@ -111,6 +200,27 @@ const QuotaMonitor: React.FC = () => {
           />
         </div>
 
+        {/* [NEW] Record / Replay */}
+        <CassetteControl />
+
+        {/* [NEW] Usage History */}
+        <button
+            onClick={() => setIsHistoryOpen(true)}
+            className="flex items-center text-slate-500 hover:text-white transition-colors"
+            title="사용 기록 (일별/주별, 프로젝트별)"
+        >
+            <BarChart3 className="w-3.5 h-3.5" />
+        </button>
+
+        {/* [NEW] Runtime Settings */}
+        <button
+            onClick={() => setIsSettingsOpen(true)}
+            className="flex items-center text-slate-500 hover:text-white transition-colors"
+            title="설정 (API 키, 모델, 대기 시간)"
+        >
+            <Settings className="w-3.5 h-3.5" />
+        </button>
+
         {/* External Link */}
         <div className="w-px h-4 bg-slate-800 mx-1"></div>
         <a 
@@ -123,6 +233,22 @@ const QuotaMonitor: React.FC = () => {
             <ExternalLink className="w-3 h-3" />
         </a>
       </div>
+
+      {isSettingsOpen && (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-[110] backdrop-blur-sm p-4" onClick={() => setIsSettingsOpen(false)}>
+          <div className="w-full max-w-2xl" onClick={e => e.stopPropagation()}>
+            <SettingsPanel onClose={() => setIsSettingsOpen(false)} />
+          </div>
+        </div>
+      )}
+
+      {isHistoryOpen && (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-[110] backdrop-blur-sm p-4" onClick={() => setIsHistoryOpen(false)}>
+          <div className="w-full max-w-4xl" onClick={e => e.stopPropagation()}>
+            <UsageHistoryPanel onClose={() => setIsHistoryOpen(false)} />
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,54 @@
+import React from 'react';
+import { CheckCircle2, AlertTriangle, PauseCircle, X } from 'lucide-react';
+import { AssetStage } from '../types';
+import { PipelineRunSummary } from '../services/pipeline';
+import { STAGE_LABELS } from './FailedAssetsPanel';
+
+interface RunSummaryProps {
+  summary: PipelineRunSummary;
+  onDismiss: () => void;
+}
+
+const OUTCOME_LABELS: Record<PipelineRunSummary['outcome'], string> = {
+  completed: '실행 완료',
+  stopped: '일시정지됨',
+  aborted: '오류로 중단됨'
+};
+
+export const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}분 ${seconds % 60}초` : `${seconds}초`;
+};
+
+// Shown after each pipeline run: what was generated, what failed and why it ended
+const RunSummary: React.FC<RunSummaryProps> = ({ summary, onDismiss }) => {
+  const hasProblems = summary.outcome === 'aborted' || summary.failures.length > 0;
+  const Icon = summary.outcome === 'stopped' ? PauseCircle : hasProblems ? AlertTriangle : CheckCircle2;
+  const stages = (Object.keys(summary.generated) as AssetStage[]).filter(stage => summary.generated[stage] > 0);
+
+  return (
+    <div className={`mb-6 flex items-start gap-3 px-4 py-3 rounded-xl border text-sm
+      ${hasProblems ? 'bg-amber-950/30 border-amber-800/60 text-amber-100' : 'bg-emerald-950/30 border-emerald-800/60 text-emerald-100'}`}>
+      <Icon className={`w-5 h-5 mt-0.5 shrink-0 ${hasProblems ? 'text-amber-400' : 'text-emerald-400'}`} />
+      <div className="flex-1">
+        <div className="font-bold">
+          {OUTCOME_LABELS[summary.outcome]}
+          <span className="ml-2 text-xs font-mono opacity-70">{formatDuration(summary.finished_at - summary.started_at)}</span>
+        </div>
+        <div className="text-xs opacity-80 mt-1">
+          {stages.length > 0
+            ? stages.map(stage => `${STAGE_LABELS[stage]} ${summary.generated[stage]}개`).join(' · ')
+            : '새로 생성된 에셋이 없습니다'}
+          {summary.failures.length > 0 && ` · 실패 ${summary.failures.length}건`}
+          {summary.remaining_failures > 0 && ` (남은 실패 ${summary.remaining_failures}건)`}
+        </div>
+        {summary.error && <div className="text-xs text-red-300 mt-1">{summary.error.userMessage}</div>}
+      </div>
+      <button onClick={onDismiss} className="p-1 opacity-60 hover:opacity-100">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default RunSummary;
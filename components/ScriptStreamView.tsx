@@ -0,0 +1,78 @@
+import React, { useEffect, useRef } from 'react';
+import { Loader2, Square, Video, Image as ImageIcon } from 'lucide-react';
+import { ScriptStreamUpdate } from '../services/geminiService';
+
+interface ScriptStreamViewProps {
+  step: string;
+  preview: ScriptStreamUpdate | null;
+  onStop?: () => void; // Only while the generation can be stopped
+  stopNote: string; // What stopping keeps
+  isStopping: boolean;
+}
+
+// Loading screen of script generation/rewrite: scenes appear as soon as the model has finished each one
+const ScriptStreamView: React.FC<ScriptStreamViewProps> = ({ step, preview, onStop, stopNote, isStopping }) => {
+  const listEndRef = useRef<HTMLDivElement>(null);
+  const scenes = preview?.scenes || [];
+  const narrationChars = scenes.reduce((sum, scene) => sum + scene.narration_full.length, 0);
+
+  // Follow the newest scene
+  useEffect(() => {
+    listEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+  }, [scenes.length]);
+
+  return (
+    <div className="w-full max-w-3xl mt-8 flex flex-col items-center">
+      <div className="relative">
+        <div className="absolute inset-0 bg-emerald-500 blur-xl opacity-20 animate-pulse rounded-full"></div>
+        <Loader2 className="w-16 h-16 text-emerald-500 animate-spin relative z-10" />
+      </div>
+      <h2 className="mt-8 text-2xl font-bold text-white tracking-tight">AI 총괄 프로듀서</h2>
+      <p className="mt-4 text-emerald-400 font-mono text-lg animate-pulse text-center">
+        {isStopping ? "중단하는 중... 지금까지 받은 씬을 정리하고 있습니다." : step || "AI 감독관들이 회의 중입니다..."}
+      </p>
+
+      <div className="mt-6 flex gap-4 text-xs font-mono text-slate-400">
+        <span>씬 <span className="text-white font-bold">{scenes.length}</span>개</span>
+        <span>내레이션 <span className="text-white font-bold">{narrationChars.toLocaleString()}</span>자</span>
+        <span>수신 {(preview?.receivedChars || 0).toLocaleString()}자</span>
+      </div>
+
+      <div className="mt-4 w-full max-h-[50vh] overflow-y-auto bg-slate-800/50 border border-slate-700 rounded-xl p-3 space-y-2">
+        {scenes.length === 0 ? (
+          <p className="text-center text-slate-500 text-sm py-8">첫 번째 씬이 완성되면 여기에 바로 표시됩니다.</p>
+        ) : scenes.map(scene => (
+          <div key={scene.scene_index} className="flex gap-3 p-3 bg-slate-900/60 rounded-lg animate-in fade-in slide-in-from-bottom-2 duration-300">
+            <span className="text-xs font-mono text-slate-500 w-8 shrink-0 pt-0.5">#{scene.scene_index}</span>
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 mb-1 text-[10px] font-bold uppercase tracking-wider">
+                <span className="text-blue-300">{scene.step_phase}</span>
+                <span className="flex items-center gap-1 text-slate-500">
+                  {scene.type === 'video' ? <Video className="w-3 h-3" /> : <ImageIcon className="w-3 h-3" />}
+                  {scene.planned_layout}
+                </span>
+              </div>
+              <p className="text-sm text-slate-200 leading-relaxed">{scene.narration_full}</p>
+            </div>
+          </div>
+        ))}
+        <div ref={listEndRef} />
+      </div>
+
+      {onStop && (
+        <div className="mt-6 flex flex-col items-center gap-2">
+          <button
+            onClick={onStop}
+            disabled={isStopping}
+            className="flex items-center gap-2 px-5 py-2.5 bg-slate-700 hover:bg-red-600 disabled:opacity-50 text-white rounded-xl font-bold text-sm transition-colors"
+          >
+            <Square className="w-4 h-4" /> 여기서 중단하고 받은 씬 사용
+          </button>
+          <p className="text-slate-500 text-xs">{stopNote}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScriptStreamView;
@@ -2,10 +2,12 @@ import React, { useState, useEffect } from 'react';
 import { ScriptData, Scene } from '../types';
 import SceneCard from './SceneCard';
 import { generateVisualPlan, generateImage, generateSpeech, generateThumbnail } from '../services/geminiService';
-import { saveToIndexedDB } from '../services/pipeline';
+import { saveToIndexedDB } from '../services/projectLibrary';
+import { ingestAsset } from '../services/assetStore';
+import { exportProjectZip } from '../services/projectArchive';
+import { jobScheduler, JobCancelledError, JOB_PRIORITY, estimateTokens } from '../services/scheduler';
+import { AIError } from '../services/aiErrors';
 import { ArrowLeft, Download, Music, Palette, User, Save, Clapperboard, PenTool, Mic, Image as ImageIcon, Play, AlertTriangle, Copy, X, RefreshCw, LayoutTemplate } from 'lucide-react';
-// @ts-ignore
-import JSZip from 'jszip';
 
 // Local implementation of saveAs to avoid module resolution issues
 const saveAs = (blob: Blob, name: string) => {
@@ -43,6 +45,7 @@ const ScriptView: React.FC<ScriptViewProps> = ({ data, onBack }) => {
 
   // Local state for thumbnail to allow regeneration
   const [thumbnailUrl, setThumbnailUrl] = useState<string | undefined>(data.meta.thumbnail_url);
+  const [thumbnailAssetId, setThumbnailAssetId] = useState<string | undefined>(data.meta.thumbnail_asset_id);
   const [isRegeneratingThumb, setIsRegeneratingThumb] = useState(false);
 
   const [activeAgent, setActiveAgent] = useState<string | null>(null);
@@ -57,13 +60,13 @@ const ScriptView: React.FC<ScriptViewProps> = ({ data, onBack }) => {
         // Include thumbnail update in the save
         const currentData: ScriptData = { 
             ...data, 
-            meta: { ...data.meta, thumbnail_url: thumbnailUrl },
+            meta: { ...data.meta, thumbnail_asset_id: thumbnailAssetId, thumbnail_url: thumbnailUrl },
             scenes 
         };
         saveToIndexedDB(currentData);
     }, 500); 
     return () => clearTimeout(timer);
-  }, [scenes, data, thumbnailUrl]);
+  }, [scenes, data, thumbnailUrl, thumbnailAssetId]);
 
 
   // --- Handlers ---
@@ -78,9 +81,14 @@ const ScriptView: React.FC<ScriptViewProps> = ({ data, onBack }) => {
     if (!data.meta.thumbnail_prompt || isRegeneratingThumb) return;
     setIsRegeneratingThumb(true);
     try {
-        const url = await generateThumbnail(data.meta.thumbnail_prompt);
+        const url = await jobScheduler.submit(
+            { label: '썸네일 재생성', capability: 'image', priority: JOB_PRIORITY.HIGH },
+            () => generateThumbnail(data.meta.thumbnail_prompt)
+        );
         if (url) {
-            setThumbnailUrl(url);
+            const stored = await ingestAsset(url);
+            setThumbnailAssetId(stored.id);
+            setThumbnailUrl(stored.url);
         } else {
             alert("썸네일 생성에 실패했습니다.");
         }
@@ -115,53 +123,78 @@ const ScriptView: React.FC<ScriptViewProps> = ({ data, onBack }) => {
     }
   };
 
+  // Shared by the Artist/Voice agents: submit every target to the scheduler,
+  // stop the remaining ones on the first error (usually quota)
+  const runAgentJobs = async (
+    targets: Scene[],
+    makeJob: (target: Scene) => { label: string; capability: 'image' | 'speech'; input: string; run: () => Promise<string> },
+    applyResult: (scene: Scene, stored: { id: string; url: string }) => Scene,
+    onError: (e: any) => void
+  ) => {
+    const group = `agent_${Date.now()}`;
+    const signal = { stopped: false };
+
+    await Promise.all(targets.map(async (target) => {
+      const job = makeJob(target);
+      try {
+        const url = await jobScheduler.submit({
+          label: job.label,
+          capability: job.capability,
+          group,
+          signal,
+          priority: JOB_PRIORITY.NORMAL + targets.indexOf(target),
+          estimatedTokens: estimateTokens(job.capability, job.input)
+        }, async () => {
+          setScenes(prev => prev.map(s => s.scene_index === target.scene_index ? { ...s, isProcessing: true } : s));
+          return job.run();
+        });
+
+        if (url) {
+          const stored = await ingestAsset(url);
+          setScenes(prev => prev.map(s => s.scene_index === target.scene_index ? { ...applyResult(s, stored), isProcessing: false } : s));
+        } else {
+          setScenes(prev => prev.map(s => s.scene_index === target.scene_index ? { ...s, isProcessing: false } : s));
+        }
+      } catch (e: any) {
+        setScenes(prev => prev.map(s => s.scene_index === target.scene_index ? { ...s, isProcessing: false } : s));
+        if (e instanceof JobCancelledError) return;
+        console.error(e);
+        if (!signal.stopped) {
+          signal.stopped = true;
+          jobScheduler.cancelGroup(group);
+          onError(e);
+        }
+      }
+    }));
+  };
+
   const runArtistAgent = async () => {
     setActiveAgent('Artist');
     setErrorBanner(null);
     
-    // NOTE: Limit concurrency to avoid Quota issues, do strictly one by one
     const targets = scenes.filter(s => s.isSelected && s.progress_status.is_prompt_done && !s.progress_status.is_image_generated);
     
-    let hasError = false;
-
-    for (const target of targets) {
-      if (hasError) break; 
-      
-      // Safety Delay for Rate Limiting
-      if (targets.indexOf(target) > 0) {
-          await new Promise(resolve => setTimeout(resolve, 2000));
-      }
-
-      setScenes(prev => prev.map(s => s.scene_index === target.scene_index ? { ...s, isProcessing: true } : s));
-      
-      try {
-        const imageUrl = await generateImage(target.prompts.visual_prompt, target.planned_layout);
-        
-        if (imageUrl) {
-          setScenes(prev => prev.map(s => s.scene_index === target.scene_index ? { 
-            ...s, 
-            isProcessing: false,
-            assets: { ...s.assets, visual_url: imageUrl },
-            progress_status: { ...s.progress_status, is_image_generated: true }
-          } : s));
-        } else {
-           setScenes(prev => prev.map(s => s.scene_index === target.scene_index ? { ...s, isProcessing: false } : s));
-        }
-      } catch (e: any) {
-        hasError = true;
-        console.error(e);
-        
-        const msg = e.message || e.toString();
-        // Check for Korean translated errors or raw errors
-        if (msg.includes("할당량") || msg.includes("Quota") || msg.includes("429")) {
-            setErrorBanner(msg);
+    await runAgentJobs(
+      targets,
+      (target) => ({
+        label: `씬 #${target.scene_index} 이미지`,
+        capability: 'image',
+        input: target.prompts.visual_prompt,
+        run: () => generateImage(target.prompts.visual_prompt, target.planned_layout)
+      }),
+      (s, stored) => ({
+        ...s,
+        assets: { ...s.assets, visual_asset_id: stored.id, visual_url: stored.url },
+        progress_status: { ...s.progress_status, is_image_generated: true }
+      }),
+      (e) => {
+        if (e instanceof AIError && e.blocksService) {
+            setErrorBanner(e.userMessage);
         } else {
             alert("이미지 생성 중 오류가 발생했습니다. (할당량 초과 등)");
         }
-        
-        setScenes(prev => prev.map(s => s.scene_index === target.scene_index ? { ...s, isProcessing: false } : s));
       }
-    }
+    );
     setActiveAgent(null);
   };
 
@@ -170,44 +203,28 @@ const ScriptView: React.FC<ScriptViewProps> = ({ data, onBack }) => {
     setErrorBanner(null);
     
     const targets = scenes.filter(s => s.isSelected && !s.progress_status.is_audio_generated);
-    let hasError = false;
-
-    for (const target of targets) {
-      if (hasError) break;
 
-      // Safety Delay for Rate Limiting
-      if (targets.indexOf(target) > 0) {
-          await new Promise(resolve => setTimeout(resolve, 2000));
-      }
-
-      setScenes(prev => prev.map(s => s.scene_index === target.scene_index ? { ...s, isProcessing: true } : s));
-      
-      try {
-        const audioUrl = await generateSpeech(target.scripts.narration, target.scripts.voice_tone);
-        if (audioUrl) {
-            setScenes(prev => prev.map(s => s.scene_index === target.scene_index ? { 
-            ...s, 
-            isProcessing: false,
-            assets: { ...s.assets, audio_url: audioUrl },
-            progress_status: { ...s.progress_status, is_audio_generated: true }
-            } : s));
+    await runAgentJobs(
+      targets,
+      (target) => ({
+        label: `씬 #${target.scene_index} 오디오`,
+        capability: 'speech',
+        input: target.scripts.narration,
+        run: () => generateSpeech(target.scripts.narration, target.scripts.voice_tone)
+      }),
+      (s, stored) => ({
+        ...s,
+        assets: { ...s.assets, audio_asset_id: stored.id, audio_url: stored.url },
+        progress_status: { ...s.progress_status, is_audio_generated: true }
+      }),
+      (e) => {
+        if (e instanceof AIError && e.blocksService) {
+           setErrorBanner(e.userMessage);
         } else {
-            setScenes(prev => prev.map(s => s.scene_index === target.scene_index ? { ...s, isProcessing: false } : s));
+           alert("오디오 생성 중 오류가 발생했습니다.");
         }
-      } catch (e: any) {
-         hasError = true;
-         console.error(e);
-
-         const msg = e.message || e.toString();
-         if (msg.includes("할당량") || msg.includes("Quota") || msg.includes("429")) {
-            setErrorBanner(msg);
-         } else {
-            alert("오디오 생성 중 오류가 발생했습니다.");
-         }
-
-         setScenes(prev => prev.map(s => s.scene_index === target.scene_index ? { ...s, isProcessing: false } : s));
       }
-    }
+    );
     setActiveAgent(null);
   };
 
@@ -223,52 +240,12 @@ const ScriptView: React.FC<ScriptViewProps> = ({ data, onBack }) => {
   // --- ZIP DOWNLOAD LOGIC ---
   const handleDownloadZip = async () => {
     setDownloadStatus('압축 중...');
-    const zip = new JSZip();
-    const assetsFolder = zip.folder("assets");
-
-    // [NEW] Add Thumbnail to Zip
-    if (thumbnailUrl && thumbnailUrl.startsWith('data:image')) {
-        const thumbData = thumbnailUrl.split(',')[1];
-        zip.file("thumbnail.png", thumbData, {base64: true});
-    }
-
-    const manifestScenes = scenes.map(s => {
-      if (s.assets.visual_url && s.assets.visual_url.startsWith('data:image')) {
-        const imgData = s.assets.visual_url.split(',')[1];
-        const filename = s.assets.visual_filename || `${s.assets.base_id}.png`;
-        const finalFilename = filename.endsWith('.mp4') && s.type === 'image' ? filename.replace('.mp4', '.png') : filename;
-        assetsFolder.file(finalFilename, imgData, {base64: true});
-      }
-      if (s.assets.audio_url && s.assets.audio_url.startsWith('data:audio')) {
-        const audioData = s.assets.audio_url.split(',')[1];
-        const filename = s.assets.audio_filename || `${s.assets.base_id}.mp3`;
-        assetsFolder.file(filename, audioData, {base64: true});
-      }
-      const { visual_url, audio_url, ...cleanAssets } = s.assets;
-      return {
-        ...s,
-        isSelected: undefined,
-        isProcessing: undefined,
-        assets: cleanAssets,
-        // Include Cuts Info for video editor
-        cuts: s.cuts,
-        narration_full: s.narration_full
-      };
-    });
-
-    const manifest = {
-      ...data,
-      meta: {
-          ...data.meta,
-          thumbnail_url: thumbnailUrl ? 'thumbnail.png' : undefined 
-      },
-      scenes: manifestScenes
-    };
-
-    zip.file("project.json", JSON.stringify(manifest, null, 2));
-
     try {
-      const content = await zip.generateAsync({type: "blob"});
+      const content = await exportProjectZip({
+        ...data,
+        meta: { ...data.meta, thumbnail_asset_id: thumbnailAssetId, thumbnail_url: thumbnailUrl },
+        scenes
+      });
       const safeTitle = data.meta.title.replace(/[^a-z0-9가-힣]/gi, '_').substring(0, 30);
       saveAs(content, `${safeTitle}_project_assets.zip`);
       setDownloadStatus('');
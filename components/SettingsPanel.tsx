@@ -0,0 +1,394 @@
+import React, { useState } from 'react';
+import { Settings, X, KeyRound, Cpu, ShieldCheck, Timer, PlugZap, Loader2, CheckCircle2, AlertTriangle, RotateCcw, Gauge, Coins, Wallet } from 'lucide-react';
+import { AppSettings, BudgetLimits, SafetyThreshold, getSettings, saveSettings, resetSettings } from '../services/settings';
+import { Capability, CAPABILITIES, listProviders, isOfflineMode, testGeminiConnection } from '../services/providers';
+import { DEFAULT_PRICES } from '../services/usageLedger';
+import { ModelPrice } from '../types';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+}
+
+const CAPABILITY_LABELS: Record<Capability, string> = {
+  text: '텍스트 (검색)',
+  json: '대본 / JSON',
+  image: '이미지',
+  speech: '음성 (TTS)',
+  vision: '이미지 검수',
+  video: '비디오'
+};
+
+const SAFETY_LABELS: Record<SafetyThreshold, string> = {
+  BLOCK_NONE: '차단 안 함',
+  BLOCK_ONLY_HIGH: '높음만 차단 (기본)',
+  BLOCK_MEDIUM_AND_ABOVE: '중간 이상 차단',
+  BLOCK_LOW_AND_ABOVE: '낮음 이상 차단'
+};
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string }[] = [
+  { key: 'input_per_million', label: '입력 $/1M' },
+  { key: 'output_per_million', label: '출력 $/1M' },
+  { key: 'per_output', label: '미디어 $/개' }
+];
+
+const BUDGET_SCOPES: { scope: keyof AppSettings['budgets']; label: string }[] = [
+  { scope: 'day', label: '하루 (전체)' },
+  { scope: 'project', label: '프로젝트당' }
+];
+
+const BUDGET_FIELDS: { key: keyof BudgetLimits; label: string; step: string }[] = [
+  { key: 'calls', label: '호출 수', step: '1' },
+  { key: 'tokens', label: '토큰', step: '1000' },
+  { key: 'cost', label: '비용 ($)', step: 'any' }
+];
+
+type TestState = { status: 'idle' | 'testing' | 'ok' | 'error'; message?: string };
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
+  const [draft, setDraft] = useState<AppSettings>(getSettings());
+  const [showKey, setShowKey] = useState(false);
+  const [test, setTest] = useState<TestState>({ status: 'idle' });
+
+  const providerFor = (cap: Capability) => draft.providers[cap] || listProviders(cap)[0]?.id;
+  const defaultModelFor = (cap: Capability) => listProviders(cap).find(p => p.id === providerFor(cap))?.defaultModels[cap] || '';
+
+  const setProvider = (cap: Capability, providerId: string) => {
+    // Model IDs are provider-specific, so switching provider resets the override
+    setDraft(d => ({
+      ...d,
+      providers: { ...d.providers, [cap]: providerId },
+      models: { ...d.models, [cap]: '' }
+    }));
+  };
+
+  const setModel = (cap: Capability, model: string) => {
+    setDraft(d => ({ ...d, models: { ...d.models, [cap]: model } }));
+  };
+
+  // [NEW] Models the current selection would call, with the provider's published limits as placeholders
+  const limitRows = Array.from(new Map(CAPABILITIES.map(cap => {
+    const model = draft.models[cap]?.trim() || defaultModelFor(cap);
+    const published = listProviders(cap).find(p => p.id === providerFor(cap))?.rateLimits?.[model];
+    return [model, published] as const;
+  })).entries()).filter(([model]) => !!model);
+
+  const setPrice = (model: string, key: keyof ModelPrice, value: string) => {
+    setDraft(d => {
+      const next = { ...d.prices[model], [key]: value === '' || Number(value) < 0 ? undefined : Number(value) };
+      return { ...d, prices: { ...d.prices, [model]: next } };
+    });
+  };
+
+  const setLimit = (model: string, key: 'rpm' | 'rpd', value: string) => {
+    setDraft(d => {
+      const next = { ...d.quotaLimits[model], [key]: Number(value) > 0 ? Math.round(Number(value)) : undefined };
+      return { ...d, quotaLimits: { ...d.quotaLimits, [model]: next } };
+    });
+  };
+
+  const setBudget = (scope: keyof AppSettings['budgets'], key: keyof BudgetLimits, value: string) => {
+    setDraft(d => {
+      const next = { ...d.budgets[scope], [key]: Number(value) > 0 ? Number(value) : undefined };
+      return { ...d, budgets: { ...d.budgets, [scope]: next } };
+    });
+  };
+
+  const handleTest = async () => {
+    const apiKey = draft.apiKey.trim() || process.env.API_KEY || '';
+    if (!apiKey) {
+      setTest({ status: 'error', message: 'API 키가 없습니다.' });
+      return;
+    }
+    const models = CAPABILITIES
+      .filter(cap => providerFor(cap) === 'gemini')
+      .map(cap => draft.models[cap]?.trim() || defaultModelFor(cap));
+    setTest({ status: 'testing' });
+    const startedAt = Date.now();
+    try {
+      await testGeminiConnection(apiKey, Array.from(new Set(models)));
+      setTest({ status: 'ok', message: `연결 성공 (${Date.now() - startedAt}ms, 모델 ${new Set(models).size}개 확인)` });
+    } catch (e: any) {
+      setTest({ status: 'error', message: e.message || String(e) });
+    }
+  };
+
+  const handleSave = () => {
+    saveSettings({
+      ...draft,
+      apiKey: draft.apiKey.trim(),
+      sceneDelayMs: Math.max(0, Math.round(draft.sceneDelayMs)),
+      maxConcurrentJobs: Math.min(8, Math.max(1, Math.round(draft.maxConcurrentJobs)))
+    });
+    onClose();
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('모든 설정을 기본값으로 되돌리시겠습니까?')) return;
+    setDraft(resetSettings());
+    setTest({ status: 'idle' });
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-2xl border border-slate-600 w-full max-w-2xl shadow-2xl flex flex-col max-h-[85vh] font-sans text-sm">
+      <div className="flex items-center justify-between p-5 border-b border-slate-700">
+        <h3 className="text-lg font-bold text-white flex items-center gap-2">
+          <Settings className="w-5 h-5 text-blue-400" />
+          설정
+        </h3>
+        <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-white rounded-full hover:bg-slate-700">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto p-5 space-y-6 text-slate-300">
+        {/* API Key */}
+        <section>
+          <h4 className="flex items-center gap-2 font-bold text-white mb-2">
+            <KeyRound className="w-4 h-4 text-amber-400" /> Gemini API 키
+          </h4>
+          <div className="flex gap-2">
+            <input
+              type={showKey ? 'text' : 'password'}
+              value={draft.apiKey}
+              onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+              placeholder={process.env.API_KEY ? '빌드 시 설정된 키 사용 중' : 'AIza...'}
+              className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white font-mono focus:outline-none focus:border-blue-500"
+            />
+            <button onClick={() => setShowKey(!showKey)} className="px-3 py-2 rounded-lg border border-slate-700 text-slate-400 hover:text-white">
+              {showKey ? '숨기기' : '보기'}
+            </button>
+          </div>
+          <p className="text-xs text-slate-500 mt-1">
+            키는 이 브라우저에만 저장됩니다. 비워두면 빌드 시 설정된 키를 사용하고, 둘 다 없으면 오프라인(Mock) 모드로 동작합니다.
+          </p>
+          <div className="flex items-center gap-3 mt-3">
+            <button
+              onClick={handleTest}
+              disabled={test.status === 'testing'}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-700 hover:bg-slate-600 text-white disabled:opacity-50"
+            >
+              {test.status === 'testing' ? <Loader2 className="w-4 h-4 animate-spin" /> : <PlugZap className="w-4 h-4" />}
+              연결 테스트
+            </button>
+            {test.status === 'ok' && (
+              <span className="flex items-center gap-1 text-emerald-400 text-xs"><CheckCircle2 className="w-4 h-4" /> {test.message}</span>
+            )}
+            {test.status === 'error' && (
+              <span className="flex items-center gap-1 text-red-400 text-xs break-all"><AlertTriangle className="w-4 h-4 shrink-0" /> {test.message}</span>
+            )}
+          </div>
+        </section>
+
+        {/* Models */}
+        <section>
+          <h4 className="flex items-center gap-2 font-bold text-white mb-2">
+            <Cpu className="w-4 h-4 text-purple-400" /> 기능별 모델
+          </h4>
+          <div className="space-y-2">
+            {CAPABILITIES.map(cap => (
+              <div key={cap} className="grid grid-cols-[7rem_8rem_1fr] gap-2 items-center">
+                <span className="text-xs text-slate-400">{CAPABILITY_LABELS[cap]}</span>
+                <select
+                  value={providerFor(cap)}
+                  onChange={(e) => setProvider(cap, e.target.value)}
+                  className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-white text-xs focus:outline-none focus:border-blue-500"
+                >
+                  {listProviders(cap).map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                </select>
+                <input
+                  value={draft.models[cap] || ''}
+                  onChange={(e) => setModel(cap, e.target.value)}
+                  placeholder={defaultModelFor(cap)}
+                  className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-white text-xs font-mono focus:outline-none focus:border-blue-500"
+                />
+              </div>
+            ))}
+          </div>
+          {isOfflineMode() && (
+            <p className="text-xs text-amber-400 mt-2">현재 오프라인 모드입니다. API 키를 저장하면 위 선택이 적용됩니다.</p>
+          )}
+        </section>
+
+        {/* Generation Defaults */}
+        <section>
+          <h4 className="flex items-center gap-2 font-bold text-white mb-2">
+            <ShieldCheck className="w-4 h-4 text-emerald-400" /> 생성 기본값
+          </h4>
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-xs text-slate-400">
+                Temperature {draft.temperature === null ? '(모델 기본값)' : draft.temperature.toFixed(1)}
+              </span>
+              <div className="flex items-center gap-2 mt-1">
+                <input
+                  type="range" min={0} max={2} step={0.1}
+                  value={draft.temperature ?? 1}
+                  onChange={(e) => setDraft({ ...draft, temperature: parseFloat(e.target.value) })}
+                  className="flex-1 accent-blue-500"
+                />
+                <button
+                  onClick={() => setDraft({ ...draft, temperature: null })}
+                  className="text-xs text-slate-500 hover:text-white"
+                  title="모델 기본값 사용"
+                >
+                  기본
+                </button>
+              </div>
+            </label>
+            <label className="block">
+              <span className="text-xs text-slate-400">안전 필터</span>
+              <select
+                value={draft.safetyThreshold}
+                onChange={(e) => setDraft({ ...draft, safetyThreshold: e.target.value as SafetyThreshold })}
+                className="w-full mt-1 bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-white text-xs focus:outline-none focus:border-blue-500"
+              >
+                {(Object.keys(SAFETY_LABELS) as SafetyThreshold[]).map(t => (
+                  <option key={t} value={t}>{SAFETY_LABELS[t]}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </section>
+
+        {/* Pipeline */}
+        <section>
+          <h4 className="flex items-center gap-2 font-bold text-white mb-2">
+            <Timer className="w-4 h-4 text-blue-400" /> 파이프라인
+          </h4>
+          <label className="flex items-center gap-3">
+            <span className="text-xs text-slate-400">씬 사이 대기 시간</span>
+            <input
+              type="number" min={0} step={500}
+              value={draft.sceneDelayMs}
+              onChange={(e) => setDraft({ ...draft, sceneDelayMs: Number(e.target.value) || 0 })}
+              className="w-28 bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-white text-xs focus:outline-none focus:border-blue-500"
+            />
+            <span className="text-xs text-slate-500">ms (속도 제한 방지)</span>
+          </label>
+          <label className="flex items-center gap-3 mt-2">
+            <span className="text-xs text-slate-400">동시 작업 수</span>
+            <input
+              type="number" min={1} max={8}
+              value={draft.maxConcurrentJobs}
+              onChange={(e) => setDraft({ ...draft, maxConcurrentJobs: Number(e.target.value) || 1 })}
+              className="w-28 bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-white text-xs focus:outline-none focus:border-blue-500"
+            />
+            <span className="text-xs text-slate-500">모델별 RPM/TPM 제한은 별도로 적용됩니다</span>
+          </label>
+        </section>
+
+        {/* [NEW] Quota Limits */}
+        <section>
+          <h4 className="flex items-center gap-2 font-bold text-white mb-2">
+            <Gauge className="w-4 h-4 text-amber-400" /> 모델별 호출 한도
+          </h4>
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_6rem_6rem] gap-2 text-xs text-slate-500">
+              <span>모델</span><span>분당 (RPM)</span><span>일일 (RPD)</span>
+            </div>
+            {limitRows.map(([model, published]) => (
+              <div key={model} className="grid grid-cols-[1fr_6rem_6rem] gap-2 items-center">
+                <span className="text-xs text-slate-300 font-mono truncate" title={model}>{model}</span>
+                {(['rpm', 'rpd'] as const).map(key => (
+                  <input
+                    key={key}
+                    type="number" min={1}
+                    value={draft.quotaLimits[model]?.[key] ?? ''}
+                    onChange={(e) => setLimit(model, key, e.target.value)}
+                    placeholder={String(published?.[key] ?? '')}
+                    className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-white text-xs focus:outline-none focus:border-blue-500"
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 mt-2">
+            비워두면 기본값을 사용합니다. 일일 한도는 태평양 시간 자정에 초기화되며, 한도에 도달한 모델의 작업은 바로 실패 처리됩니다.
+          </p>
+        </section>
+
+        {/* [NEW] Price Table */}
+        <section>
+          <h4 className="flex items-center gap-2 font-bold text-white mb-2">
+            <Coins className="w-4 h-4 text-amber-400" /> 가격표 (USD)
+          </h4>
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_6rem_6rem_6rem] gap-2 text-xs text-slate-500">
+              <span>모델</span>{PRICE_FIELDS.map(field => <span key={field.key}>{field.label}</span>)}
+            </div>
+            {limitRows.map(([model]) => (
+              <div key={model} className="grid grid-cols-[1fr_6rem_6rem_6rem] gap-2 items-center">
+                <span className="text-xs text-slate-300 font-mono truncate" title={model}>{model}</span>
+                {PRICE_FIELDS.map(({ key }) => (
+                  <input
+                    key={key}
+                    type="number" min={0} step="any"
+                    value={draft.prices[model]?.[key] ?? ''}
+                    onChange={(e) => setPrice(model, key, e.target.value)}
+                    placeholder={String(DEFAULT_PRICES[model]?.[key] ?? 0)}
+                    className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-white text-xs focus:outline-none focus:border-blue-500"
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 mt-2">
+            응답의 토큰 사용량과 생성된 이미지·오디오 수에 곱해 예상 비용을 계산합니다. 단가를 바꾸면 지난 기록도 새 단가로 다시 계산됩니다.
+          </p>
+        </section>
+
+        {/* [NEW] Budgets */}
+        <section>
+          <h4 className="flex items-center gap-2 font-bold text-white mb-2">
+            <Wallet className="w-4 h-4 text-emerald-400" /> 예산 한도
+          </h4>
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_6rem_6rem_6rem] gap-2 text-xs text-slate-500">
+              <span>범위</span>{BUDGET_FIELDS.map(field => <span key={field.key}>{field.label}</span>)}
+            </div>
+            {BUDGET_SCOPES.map(({ scope, label }) => (
+              <div key={scope} className="grid grid-cols-[1fr_6rem_6rem_6rem] gap-2 items-center">
+                <span className="text-xs text-slate-300">{label}</span>
+                {BUDGET_FIELDS.map(({ key, step }) => (
+                  <input
+                    key={key}
+                    type="number" min={0} step={step}
+                    value={draft.budgets[scope]?.[key] ?? ''}
+                    onChange={(e) => setBudget(scope, key, e.target.value)}
+                    placeholder="제한 없음"
+                    className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-white text-xs focus:outline-none focus:border-blue-500"
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+          <label className="flex items-center gap-3 mt-3">
+            <span className="text-xs text-slate-400">경고 기준</span>
+            <input
+              type="number" min={1} max={100}
+              value={draft.budgetWarnPercent}
+              onChange={(e) => setDraft({ ...draft, budgetWarnPercent: Math.min(100, Math.max(1, Number(e.target.value) || 80)) })}
+              className="w-20 bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-white text-xs focus:outline-none focus:border-blue-500"
+            />
+            <span className="text-xs text-slate-500">% 사용 시 대시보드에 경고 표시</span>
+          </label>
+          <p className="text-xs text-slate-500 mt-2">
+            모든 AI 호출 전에 확인합니다. 한도에 도달하면 새 호출이 차단되고 실행 중인 파이프라인은 일시정지됩니다. 하루 예산은 태평양 시간 자정에 초기화됩니다.
+          </p>
+        </section>
+      </div>
+
+      <div className="flex items-center justify-between p-4 border-t border-slate-700">
+        <button onClick={handleReset} className="flex items-center gap-1 text-xs text-slate-500 hover:text-white">
+          <RotateCcw className="w-3 h-3" /> 기본값으로
+        </button>
+        <div className="flex gap-2">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-slate-300 hover:bg-slate-700">취소</button>
+          <button onClick={handleSave} className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white font-bold">저장</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { FileText, Clock, Scissors, PlusCircle, Loader2 } from 'lucide-react';
 import { ScriptData } from '../types';
+import { ScriptTruncatedError } from '../services/geminiService';
 
 interface StyleSelectorProps {
   scriptData: ScriptData;
@@ -79,7 +80,7 @@ const StyleSelector: React.FC<StyleSelectorProps> = ({ scriptData, onSelectStyle
       try {
           await onRewriteScript(mode);
       } catch (e) {
-          alert("재작성 중 오류가 발생했습니다.");
+          alert(e instanceof ScriptTruncatedError ? e.userMessage : "재작성 중 오류가 발생했습니다.");
       } finally {
           setIsRewriting(null);
       }
@@ -1,8 +1,7 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Search, Hash, Globe, BookOpen, Brain, DollarSign, Heart, Rocket, Upload, Sigma, TrendingUp, Play, Clock, Trash2, ArrowRight, Landmark, PenTool, Sparkles, FileText, FolderOpen } from 'lucide-react';
-import { loadProject } from '../services/pipeline';
+import React, { useState, useRef } from 'react';
+import { Search, Hash, Globe, BookOpen, Brain, DollarSign, Heart, Rocket, Upload, Sigma, TrendingUp, Play, ArrowRight, Landmark, PenTool, Sparkles, FileText, FolderOpen } from 'lucide-react';
 import { ScriptData } from '../types';
-import { del } from 'idb-keyval';
+import ProjectBrowser from './ProjectBrowser';
 
 interface TopicSelectorProps {
   onSelectCategory: (category: string) => void;
@@ -27,36 +26,10 @@ const CATEGORIES = [
 
 const TopicSelector: React.FC<TopicSelectorProps> = ({ onSelectCategory, onManualScriptSubmit, onLoadProject, onResumeProject }) => {
   const [customTopic, setCustomTopic] = useState('');
-  const [savedProject, setSavedProject] = useState<ScriptData | null>(null);
   const [inputMode, setInputMode] = useState<'auto' | 'manual'>('auto');
   const [manualScript, setManualScript] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  useEffect(() => {
-    const checkSaved = async () => {
-        try {
-            const data = await loadProject();
-            if (data && typeof data === 'object') {
-                if (!data.scenes) data.scenes = [];
-                if (!data.meta) {
-                    data.meta = {
-                        title: "작업 중인 프로젝트 (제목 없음)",
-                        description: "자동 저장된 데이터",
-                        genre: "알 수 없음",
-                        tags: [],
-                        thumbnail_prompt: "",
-                        bgm_mood: ""
-                    } as any;
-                }
-                setSavedProject(data);
-            }
-        } catch (e) {
-            console.error("Failed to load saved project", e);
-        }
-    };
-    checkSaved();
-  }, []);
-
   const handleCustomSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (customTopic.trim()) {
@@ -75,33 +48,10 @@ const TopicSelector: React.FC<TopicSelectorProps> = ({ onSelectCategory, onManua
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       onLoadProject(e.target.files[0]);
+      e.target.value = '';
     }
   };
 
-  const handleResumeClick = () => {
-    if (savedProject && onResumeProject) {
-        onResumeProject(savedProject);
-    }
-  };
-
-  const clearSavedProject = async (e: React.MouseEvent) => {
-    e.stopPropagation();
-    if (window.confirm("저장된 작업을 삭제하시겠습니까?")) {
-        await del('current_project');
-        setSavedProject(null);
-    }
-  };
-
-  const title = savedProject?.meta?.title || "작업 중인 프로젝트";
-  const desc = savedProject?.meta?.description || "진행 중인 작업 내용입니다.";
-  const sceneCount = savedProject?.scenes?.length || 0;
-
-  const progressPercent = (savedProject && savedProject.scenes && savedProject.scenes.length > 0) ? Math.round(
-    (savedProject.scenes.filter(s => s.progress_status?.is_image_generated).length + 
-     savedProject.scenes.filter(s => s.progress_status?.is_audio_generated).length) 
-    / ((savedProject.scenes.length * 2) || 1) * 100
-  ) : 0;
-
   return (
     <div className="w-full max-w-7xl mx-auto p-6 flex flex-col items-center min-h-full">
       
@@ -115,48 +65,10 @@ const TopicSelector: React.FC<TopicSelectorProps> = ({ onSelectCategory, onManua
         </p>
       </div>
 
-      {/* Resume Card (Conditional) */}
-      {savedProject && (
+      {/* Project Library (hidden when empty) */}
+      {onResumeProject && (
         <div className="w-full max-w-2xl mb-12 animate-in fade-in slide-in-from-top-4 duration-500">
-            <div 
-                onClick={handleResumeClick}
-                className="bg-slate-900/50 backdrop-blur-md border border-emerald-500/30 rounded-2xl p-5 relative overflow-hidden group hover:bg-slate-800/80 cursor-pointer shadow-[0_0_30px_rgba(16,185,129,0.1)] transition-all"
-            >
-                <div className="absolute top-0 left-0 w-1 h-full bg-emerald-500"></div>
-                <div className="flex justify-between items-center mb-3">
-                    <div>
-                        <div className="flex items-center gap-2 text-emerald-400 text-[10px] font-bold uppercase tracking-wider animate-pulse mb-1">
-                            <Clock className="w-3 h-3" />
-                            작업 복구 가능
-                        </div>
-                        <h3 className="text-xl font-bold text-white group-hover:text-emerald-300 transition-colors">
-                            {title}
-                        </h3>
-                    </div>
-                    
-                    <div className="flex items-center gap-2">
-                        <button 
-                            onClick={clearSavedProject}
-                            className="p-2 text-slate-500 hover:text-red-400 hover:bg-red-400/10 rounded-full transition-colors z-10"
-                            title="삭제"
-                        >
-                            <Trash2 className="w-4 h-4" />
-                        </button>
-                        <div className="bg-emerald-600 group-hover:bg-emerald-500 text-white p-2.5 rounded-full shadow-lg group-hover:scale-105 transition-transform">
-                            <Play className="w-5 h-5 fill-current pl-0.5" />
-                        </div>
-                    </div>
-                </div>
-                <div className="space-y-1.5">
-                    <div className="flex justify-between text-[10px] text-slate-400 font-mono">
-                        <span>진행률</span>
-                        <span>{progressPercent}% ({sceneCount} Scenes)</span>
-                    </div>
-                    <div className="h-1.5 bg-slate-950 rounded-full overflow-hidden">
-                        <div className="h-full bg-gradient-to-r from-emerald-500 to-teal-400 transition-all" style={{ width: `${progressPercent}%` }}></div>
-                    </div>
-                </div>
-            </div>
+            <ProjectBrowser onOpen={onResumeProject} />
         </div>
       )}
 
@@ -274,7 +186,7 @@ const TopicSelector: React.FC<TopicSelectorProps> = ({ onSelectCategory, onManua
       <div className="mt-16 w-full max-w-2xl">
           <input 
             type="file" 
-            accept=".json" 
+            accept=".json,.zip" 
             ref={fileInputRef} 
             onChange={handleFileChange} 
             className="hidden" 
@@ -288,7 +200,7 @@ const TopicSelector: React.FC<TopicSelectorProps> = ({ onSelectCategory, onManua
             </div>
             <div className="text-center">
                 <p className="text-slate-300 font-bold text-lg group-hover:text-white transition-colors">프로젝트 파일 불러오기</p>
-                <p className="text-slate-500 text-sm mt-1">기존에 작업하던 .json 파일을 업로드하여 복구합니다.</p>
+                <p className="text-slate-500 text-sm mt-1">기존에 작업하던 .json 파일 또는 내보낸 .zip 파일(이미지·오디오 포함)을 업로드하여 복구합니다.</p>
             </div>
           </button>
       </div>
@@ -0,0 +1,208 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BarChart3, X, Download, Clock, Coins, Trash2 } from 'lucide-react';
+import { QuotaType } from '../utils/quotaManager';
+import { getSettings, saveSettings } from '../services/settings';
+import { formatCost } from '../services/usageLedger';
+import {
+  getUsageDays, groupByWeek, findPeakHour, getProjectUsageRows, buildUsageCsv, pruneUsageHistory, ProjectUsageRow
+} from '../services/usageHistory';
+
+interface UsageHistoryPanelProps {
+  onClose: () => void;
+}
+
+const TYPE_STYLES: { type: QuotaType; label: string; color: string }[] = [
+  { type: 'text', label: 'Text', color: 'bg-blue-500' },
+  { type: 'image', label: 'Image', color: 'bg-purple-500' },
+  { type: 'audio', label: 'Audio', color: 'bg-amber-500' },
+  { type: 'video', label: 'Video', color: 'bg-indigo-500' }
+];
+
+const RANGE_OPTIONS = [14, 30, 90];
+const RETENTION_OPTIONS = [30, 90, 180, 365, 0];
+
+interface BarPoint {
+  label: string;
+  title: string;
+  calls: Record<QuotaType, number>;
+  total: number;
+}
+
+// Stacked columns by model type, scaled to the busiest point
+const StackedBars: React.FC<{ points: BarPoint[] }> = ({ points }) => {
+  const max = Math.max(1, ...points.map(p => p.total));
+  return (
+    <div className="flex items-end gap-0.5 h-32">
+      {points.map(point => (
+        <div key={point.title} className="flex-1 flex flex-col items-center gap-1 min-w-0" title={point.title}>
+          <div className="w-full flex flex-col-reverse rounded-t overflow-hidden bg-slate-900" style={{ height: `${(point.total / max) * 100}%` }}>
+            {TYPE_STYLES.map(({ type, color }) => point.calls[type] > 0 && (
+              <div key={type} className={color} style={{ height: `${(point.calls[type] / point.total) * 100}%` }} />
+            ))}
+          </div>
+          <span className="text-[9px] text-slate-500 truncate w-full text-center">{point.label}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const downloadCsv = (csv: string, name: string) => {
+  // BOM so spreadsheet apps read the UTF-8 text correctly
+  const url = URL.createObjectURL(new Blob(['﻿' + csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Usage across days: daily/weekly calls by model type, peak hour, per-project totals, CSV and retention
+const UsageHistoryPanel: React.FC<UsageHistoryPanelProps> = ({ onClose }) => {
+  const [range, setRange] = useState(30);
+  const [retention, setRetention] = useState(getSettings().usageRetentionDays);
+  const [projects, setProjects] = useState<ProjectUsageRow[]>([]);
+  const [version, setVersion] = useState(0);
+
+  const days = useMemo(() => getUsageDays(range), [range, version]);
+  const weeks = useMemo(() => groupByWeek(days), [days]);
+  const peak = findPeakHour(days);
+  const totalCalls = days.reduce((sum, d) => sum + d.total, 0);
+  const totalCost = days.reduce((sum, d) => sum + d.cost, 0);
+
+  useEffect(() => {
+    getProjectUsageRows(days[0].day, days[days.length - 1].day).then(setProjects);
+  }, [days]);
+
+  const handleRetentionChange = (value: number) => {
+    setRetention(value);
+    saveSettings({ usageRetentionDays: value });
+    pruneUsageHistory(value);
+    setVersion(v => v + 1);
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-2xl border border-slate-600 w-full max-w-4xl shadow-2xl flex flex-col max-h-[85vh] font-sans text-sm">
+      <div className="flex items-center justify-between p-5 border-b border-slate-700">
+        <h3 className="text-lg font-bold text-white flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-blue-400" />
+          사용 기록
+        </h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={range}
+            onChange={(e) => setRange(Number(e.target.value))}
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-white text-xs focus:outline-none focus:border-blue-500"
+          >
+            {RANGE_OPTIONS.map(n => <option key={n} value={n}>최근 {n}일</option>)}
+          </select>
+          <button
+            onClick={() => downloadCsv(buildUsageCsv(days), `usage_${days[0].day}_${days[days.length - 1].day}.csv`)}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-slate-700 hover:bg-slate-600 text-white text-xs"
+          >
+            <Download className="w-3.5 h-3.5" /> CSV
+          </button>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-white rounded-full hover:bg-slate-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-y-auto p-5 space-y-6 text-slate-300">
+        {/* Summary */}
+        <div className="grid grid-cols-3 gap-3">
+          <div className="bg-slate-900/60 border border-slate-700 rounded-xl p-3">
+            <div className="text-xs text-slate-400">총 호출</div>
+            <div className="text-lg font-bold text-white font-mono">{totalCalls.toLocaleString()}</div>
+          </div>
+          <div className="bg-slate-900/60 border border-slate-700 rounded-xl p-3">
+            <div className="text-xs text-slate-400 flex items-center gap-1"><Coins className="w-3 h-3 text-amber-400" /> 예상 비용</div>
+            <div className="text-lg font-bold text-white font-mono">{formatCost(totalCost)}</div>
+          </div>
+          <div className="bg-slate-900/60 border border-slate-700 rounded-xl p-3">
+            <div className="text-xs text-slate-400 flex items-center gap-1"><Clock className="w-3 h-3 text-blue-400" /> 가장 많이 쓴 시간대</div>
+            <div className="text-lg font-bold text-white font-mono">
+              {peak ? `${peak.hour}시~${peak.hour + 1}시` : '-'}
+              {peak && <span className="text-xs text-slate-500 font-normal ml-2">{peak.calls}회</span>}
+            </div>
+          </div>
+        </div>
+
+        {/* Legend */}
+        <div className="flex gap-4 text-xs">
+          {TYPE_STYLES.map(({ type, label, color }) => (
+            <span key={type} className="flex items-center gap-1.5"><span className={`w-2.5 h-2.5 rounded-sm ${color}`} /> {label}</span>
+          ))}
+        </div>
+
+        <section>
+          <h4 className="font-bold text-white mb-2">일별 호출</h4>
+          <StackedBars points={days.map(d => ({
+            label: d.day.slice(5),
+            title: `${d.day}: ${d.total}회 (${formatCost(d.cost)})`,
+            calls: d.calls,
+            total: d.total
+          }))} />
+        </section>
+
+        <section>
+          <h4 className="font-bold text-white mb-2">주별 호출</h4>
+          <StackedBars points={weeks.map(w => ({
+            label: w.week_start.slice(5),
+            title: `${w.week_start} 주: ${w.total}회 (${formatCost(w.cost)})`,
+            calls: w.calls,
+            total: w.total
+          }))} />
+        </section>
+
+        {/* Per project */}
+        <section>
+          <h4 className="font-bold text-white mb-2">프로젝트별 사용량</h4>
+          {projects.length === 0 ? (
+            <p className="text-xs text-slate-500">이 기간에 프로젝트에 기록된 사용량이 없습니다.</p>
+          ) : (
+            <table className="w-full text-xs font-mono">
+              <thead>
+                <tr className="text-slate-500 border-b border-slate-700">
+                  <th className="text-left font-normal py-1">프로젝트</th>
+                  <th className="text-right font-normal py-1">호출</th>
+                  <th className="text-right font-normal py-1">토큰</th>
+                  <th className="text-right font-normal py-1">비용</th>
+                </tr>
+              </thead>
+              <tbody>
+                {projects.map(row => (
+                  <tr key={row.project_id} className="border-b border-slate-800">
+                    <td className="py-1.5 font-sans truncate max-w-[280px]">{row.title}</td>
+                    <td className="py-1.5 text-right">{row.usage.calls}</td>
+                    <td className="py-1.5 text-right">{(row.usage.prompt_tokens + row.usage.output_tokens).toLocaleString()}</td>
+                    <td className="py-1.5 text-right text-amber-300">{formatCost(row.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p className="text-[11px] text-slate-500 mt-2">주제 검색처럼 프로젝트가 만들어지기 전의 호출은 일별 합계에만 포함됩니다.</p>
+        </section>
+
+        {/* Retention */}
+        <section className="flex items-center gap-3 pt-4 border-t border-slate-700">
+          <Trash2 className="w-4 h-4 text-slate-500" />
+          <span className="text-xs text-slate-400">일별 기록 보관 기간</span>
+          <select
+            value={retention}
+            onChange={(e) => handleRetentionChange(Number(e.target.value))}
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-white text-xs focus:outline-none focus:border-blue-500"
+          >
+            {RETENTION_OPTIONS.map(n => <option key={n} value={n}>{n === 0 ? '계속 보관' : `${n}일`}</option>)}
+          </select>
+          <span className="text-xs text-slate-500">오래된 기록은 앱을 열 때 자동으로 삭제됩니다. (프로젝트별 비용 기록은 유지)</span>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default UsageHistoryPanel;
@@ -0,0 +1,149 @@
+// --- AI ERROR TAXONOMY ---
+// Providers throw these (or get classified into them) so agents and UI decide by kind,
+// never by matching message text.
+
+export type AIErrorKind =
+  | 'quota'            // Daily quota used up: stop everything until reset
+  | 'budget'           // User-defined spending/call budget reached: stop until it is raised
+  | 'rate_limit'       // Per-minute limit: wait and retry
+  | 'overloaded'       // 5xx / model overloaded: wait and retry
+  | 'safety'           // Prompt or output blocked by safety filters: skip this asset
+  | 'invalid_response' // Unparseable / empty answer: skip or retry later
+  | 'network'          // Request never reached the API
+  | 'auth'             // Missing / invalid key or no access to the model
+  | 'unknown';
+
+const USER_MESSAGES: Record<AIErrorKind, string> = {
+  quota: "⚠️ 일일 API 할당량을 초과했습니다 (Daily Quota). 내일 다시 이용해주세요.",
+  budget: "⚠️ 설정한 예산 한도에 도달했습니다. 설정에서 한도를 올리거나 내일 다시 이용해주세요.",
+  rate_limit: "요청 속도가 너무 빠릅니다 (RPM 제한). 잠시 쉬었다가 천천히 시도해주세요.",
+  overloaded: "구글 서버가 혼잡합니다. 잠시 후 다시 시도해주세요.",
+  safety: "안전 필터에 의해 생성이 차단되었습니다. 프롬프트를 수정해 다시 시도해주세요.",
+  invalid_response: "AI 응답 형식이 올바르지 않습니다. 다시 시도해주세요.",
+  network: "네트워크 연결에 실패했습니다. 인터넷 연결을 확인해주세요.",
+  auth: "API 키가 올바르지 않거나 모델 사용 권한이 없습니다. 설정에서 키를 확인해주세요.",
+  unknown: "AI 요청 처리 중 알 수 없는 오류가 발생했습니다."
+};
+
+export class AIError extends Error {
+  readonly kind: AIErrorKind;
+  readonly retryAfterMs?: number; // Hint from the API (or a sensible default) before trying again
+
+  constructor(kind: AIErrorKind, message: string, options: { retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'AIError';
+    this.kind = kind;
+    this.retryAfterMs = options.retryAfterMs;
+    (this as { cause?: unknown }).cause = options.cause;
+  }
+
+  /** Worth another attempt after `retryAfterMs` */
+  get retryable(): boolean {
+    return this.kind === 'rate_limit' || this.kind === 'overloaded' || this.kind === 'network';
+  }
+
+  /** Retrying anything else is pointless until the user acts (quota reset, new key, higher budget) */
+  get fatal(): boolean {
+    return this.kind === 'quota' || this.kind === 'budget' || this.kind === 'auth';
+  }
+
+  /** Problems with the service/account rather than this one request (shown as a banner) */
+  get blocksService(): boolean {
+    return this.fatal || this.retryable;
+  }
+
+  get userMessage(): string {
+    if (this.kind === 'rate_limit' && this.retryAfterMs) {
+      return `요청 속도가 너무 빠릅니다 (RPM 제한). ${Math.ceil(this.retryAfterMs / 1000)}초 후 다시 시도해주세요.`;
+    }
+    return USER_MESSAGES[this.kind];
+  }
+}
+
+export class QuotaExhaustedError extends AIError {
+  constructor(message: string, options?: { retryAfterMs?: number; cause?: unknown }) {
+    super('quota', message, options);
+    this.name = 'QuotaExhaustedError';
+  }
+}
+
+export class BudgetExceededError extends AIError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('budget', message, options);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export class RateLimitedError extends AIError {
+  constructor(message: string, options?: { retryAfterMs?: number; cause?: unknown }) {
+    super('rate_limit', message, { retryAfterMs: 10000, ...options });
+    this.name = 'RateLimitedError';
+  }
+}
+
+export class ServerOverloadedError extends AIError {
+  constructor(message: string, options?: { retryAfterMs?: number; cause?: unknown }) {
+    super('overloaded', message, { retryAfterMs: 5000, ...options });
+    this.name = 'ServerOverloadedError';
+  }
+}
+
+export class SafetyBlockedError extends AIError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('safety', message, options);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class InvalidResponseError extends AIError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('invalid_response', message, options);
+    this.name = 'InvalidResponseError';
+  }
+}
+
+export class NetworkError extends AIError {
+  constructor(message: string, options?: { retryAfterMs?: number; cause?: unknown }) {
+    super('network', message, { retryAfterMs: 3000, ...options });
+    this.name = 'NetworkError';
+  }
+}
+
+export class AuthError extends AIError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('auth', message, options);
+    this.name = 'AuthError';
+  }
+}
+
+// Not a failure: the scheduler dropped a queued job (stop, cancel). Lives here so worker code can
+// recognise it without importing the scheduler.
+export class JobCancelledError extends Error {
+  constructor(label: string) {
+    super(`Job cancelled: ${label}`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+/**
+ * Provider-agnostic fallback classification (HTTP status / fetch failures).
+ * Providers with richer error payloads classify first (see providers/gemini.ts).
+ */
+export function classifyError(error: unknown): AIError {
+  if (error instanceof AIError) return error;
+
+  const status = typeof (error as any)?.status === 'number' ? (error as any).status as number : undefined;
+  const message = String((error as any)?.message ?? error);
+
+  if (status === 429) return new RateLimitedError(message, { cause: error });
+  if (status === 401 || status === 403) return new AuthError(message, { cause: error });
+  if (status !== undefined && status >= 500) return new ServerOverloadedError(message, { cause: error });
+  if (error instanceof TypeError && /fetch|network/i.test(message)) return new NetworkError(message, { cause: error });
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return new NetworkError(message, { cause: error });
+
+  return new AIError('unknown', message, { cause: error });
+}
+
+/** Message for alerts/banners: localized for AI errors, raw text otherwise */
+export const toUserMessage = (error: unknown): string =>
+  error instanceof AIError ? error.userMessage : String((error as any)?.message ?? error ?? '알 수 없는 오류');
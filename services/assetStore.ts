@@ -0,0 +1,122 @@
+import { createStore, get, set, keys, delMany } from 'idb-keyval';
+
+// Separate database so blob traffic never contends with the project index
+const assetDb = createStore('tube-director-assets', 'blobs');
+
+// Object URLs are created once per asset per session and shared by every view
+const objectUrlCache = new Map<string, string>();
+
+export interface StoredAsset {
+  id: string;
+  url: string; // Session object URL for <img>/<audio>
+}
+
+async function hashBlob(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, base64] = dataUrl.split(',');
+  const mimeType = header.match(/data:([^;]+)/)?.[1] || 'application/octet-stream';
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Stores a blob under its SHA-256 hash. Identical content is only written once.
+ */
+export async function putAsset(blob: Blob): Promise<string> {
+  const id = await hashBlob(blob);
+  const existing = await get<Blob>(id, assetDb);
+  if (!existing) {
+    await set(id, blob, assetDb);
+  }
+  return id;
+}
+
+/**
+ * Stores a blob and returns its ID plus a display URL.
+ */
+export async function ingestBlob(blob: Blob): Promise<StoredAsset> {
+  const id = await putAsset(blob);
+  if (!objectUrlCache.has(id)) {
+    objectUrlCache.set(id, URL.createObjectURL(blob));
+  }
+  return { id, url: objectUrlCache.get(id)! };
+}
+
+/**
+ * Converts a generator result (base64 data URL) into a stored asset plus a display URL.
+ */
+export async function ingestAsset(dataUrl: string): Promise<StoredAsset> {
+  return ingestBlob(dataUrlToBlob(dataUrl));
+}
+
+export async function getAssetBlob(id: string): Promise<Blob | undefined> {
+  try {
+    return await get<Blob>(id, assetDb);
+  } catch (err) {
+    console.error('[AssetStore] Read Failed', err);
+    return undefined;
+  }
+}
+
+export async function getAssetUrl(id: string): Promise<string | undefined> {
+  const cached = objectUrlCache.get(id);
+  if (cached) return cached;
+
+  const blob = await getAssetBlob(id);
+  if (!blob) return undefined;
+
+  const url = URL.createObjectURL(blob);
+  objectUrlCache.set(id, url);
+  return url;
+}
+
+/**
+ * Reads an asset as a Blob. Legacy projects may still carry an inline data URL without an ID.
+ */
+export async function readAssetBlob(id?: string, fallbackUrl?: string): Promise<Blob | undefined> {
+  if (id) {
+    const blob = await getAssetBlob(id);
+    if (blob) return blob;
+  }
+  if (fallbackUrl && fallbackUrl.startsWith('data:')) return dataUrlToBlob(fallbackUrl);
+  return undefined;
+}
+
+/**
+ * Vision/Video APIs need inline base64, so this re-encodes a stored asset on demand.
+ */
+export async function readAssetAsDataUrl(id?: string, fallbackUrl?: string): Promise<string> {
+  const blob = await readAssetBlob(id, fallbackUrl);
+  if (!blob) throw new Error(`Asset not found: ${id || 'unknown'}`);
+  return blobToDataUrl(blob);
+}
+
+/**
+ * Deletes every stored asset that is not in `referenced`. Returns the number removed.
+ * Assets touched in this session are kept: they may belong to a scene that has not been saved yet.
+ */
+export async function pruneAssets(referenced: Set<string>): Promise<number> {
+  const allIds = await keys<string>(assetDb);
+  const orphans = allIds.filter(id => !referenced.has(id) && !objectUrlCache.has(id));
+  if (orphans.length > 0) {
+    await delMany(orphans, assetDb);
+  }
+  return orphans.length;
+}
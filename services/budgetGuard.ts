@@ -0,0 +1,86 @@
+import { UsageByModel } from '../types';
+import { BudgetLimits, getSettings } from './settings';
+import { getDayUsage, getActiveProjectUsage, totalsOf, formatCost } from './usageLedger';
+import { BudgetExceededError } from './aiErrors';
+
+// --- BUDGET GUARD ---
+// User-defined limits on calls, tokens and estimated cost, per quota day and per project.
+// invoke() in geminiService.ts checks them before every call: past the warning share the Dashboard
+// shows a banner, at the limit the call is refused with a BudgetExceededError and the pipeline stops.
+
+export type BudgetScope = 'day' | 'project';
+export type BudgetMetric = keyof BudgetLimits;
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetCheck {
+  scope: BudgetScope;
+  metric: BudgetMetric;
+  used: number;
+  limit: number;
+  ratio: number; // used / limit
+}
+
+export interface BudgetStatus {
+  level: BudgetLevel;
+  checks: BudgetCheck[]; // Only the limits that are set
+  worst?: BudgetCheck;
+  project_id?: string;
+}
+
+const SCOPE_LABELS: Record<BudgetScope, string> = { day: '오늘', project: '이 프로젝트' };
+const METRIC_LABELS: Record<BudgetMetric, string> = { calls: '호출', tokens: '토큰', cost: '예상 비용' };
+const METRICS: BudgetMetric[] = ['calls', 'tokens', 'cost'];
+
+const formatMetric = (metric: BudgetMetric, value: number) =>
+  metric === 'cost' ? formatCost(value) : Math.round(value).toLocaleString();
+
+export const describeBudgetCheck = (check: BudgetCheck) =>
+  `${SCOPE_LABELS[check.scope]} ${METRIC_LABELS[check.metric]} ${formatMetric(check.metric, check.used)} / ${formatMetric(check.metric, check.limit)}`;
+
+function measure(scope: BudgetScope, limits: BudgetLimits, byModel: UsageByModel): BudgetCheck[] {
+  const { usage, cost } = totalsOf(byModel);
+  const used: Record<BudgetMetric, number> = {
+    calls: usage.calls,
+    tokens: usage.prompt_tokens + usage.output_tokens,
+    cost
+  };
+  return METRICS
+    .filter(metric => (limits[metric] || 0) > 0)
+    .map(metric => ({ scope, metric, used: used[metric], limit: limits[metric]!, ratio: used[metric] / limits[metric]! }));
+}
+
+export async function getBudgetStatus(): Promise<BudgetStatus> {
+  const { budgets, budgetWarnPercent } = getSettings();
+  const project = await getActiveProjectUsage();
+  const checks = [
+    ...measure('day', budgets.day, getDayUsage()),
+    ...measure('project', budgets.project, project.usage)
+  ];
+  const worst = checks.reduce<BudgetCheck | undefined>((max, check) => (!max || check.ratio > max.ratio ? check : max), undefined);
+
+  let level: BudgetLevel = 'ok';
+  if (worst && worst.ratio >= 1) level = 'exceeded';
+  else if (worst && worst.ratio * 100 >= budgetWarnPercent) level = 'warning';
+  return { level, checks, worst, project_id: project.projectId };
+}
+
+let lastLevel: BudgetLevel = 'ok';
+
+const publish = (status: BudgetStatus) => {
+  window.dispatchEvent(new CustomEvent('budget-update', { detail: status }));
+};
+
+/** Throws BudgetExceededError when a limit is reached; publishes warnings for the banner */
+export async function checkBudget(): Promise<void> {
+  const status = await getBudgetStatus();
+  if (status.level !== lastLevel) {
+    if (status.level === 'warning') console.warn(`[Budget] Warning: ${describeBudgetCheck(status.worst!)}`);
+    if (status.level === 'exceeded') console.error(`[Budget] Limit reached: ${describeBudgetCheck(status.worst!)}`);
+  }
+  if (status.level !== 'ok' || lastLevel !== 'ok') publish(status);
+  lastLevel = status.level;
+
+  if (status.level === 'exceeded') {
+    throw new BudgetExceededError(`Budget reached (${status.worst!.scope} ${status.worst!.metric}: ${status.worst!.used} / ${status.worst!.limit})`);
+  }
+}
@@ -0,0 +1,420 @@
+import { ScriptData, Scene, AssetStage, AssetFailure, GenerationLogStage, GenerationInputs } from '../types';
+import { Capability } from './providers/types';
+import { AIError, JobCancelledError, classifyError } from './aiErrors';
+import { startRunRecord, sceneNeedsWork, visualNeedsWork, audioNeedsWork } from './pipelineRuns';
+import { PipelineJob, PipelineJobRequest, PipelineJobResults, PipelineProgress } from './workerProtocol';
+
+// --- CONSTRUCTION LOOP ---
+// Runs inside services/pipeline.worker.ts (or on the main thread when workers are unavailable).
+// Nothing here may touch window, localStorage or the DOM: provider calls go through `env.runJob`.
+
+// --- HELPER: Wait function ---
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// --- HELPER: Smart Retry Executor (Exponential Backoff) ---
+// `error` is set when the last attempt failed
+interface RetryResult<T> {
+  value: T | null;
+  error?: AIError;
+  attempts: number;
+}
+
+// Passed to each attempt so it can be written to the generation log
+interface AttemptInfo {
+  attempt: number;
+  waited_ms: number;
+}
+
+async function runWithRetry<T>(
+  fn: (info: AttemptInfo) => Promise<T>, 
+  retries = 3, 
+  baseDelay = 4000,
+  info: AttemptInfo = { attempt: 1, waited_ms: 0 }
+): Promise<RetryResult<T>> {
+  const attempt = info.attempt;
+  try {
+    return { value: await fn(info), attempts: attempt };
+  } catch (error: any) {
+    // Cancelled jobs are not failures; let the caller unwind
+    if (error instanceof JobCancelledError) throw error;
+
+    const aiError = classifyError(error);
+
+    // Retry only on transient errors (Rate Limit, Server Overload, Network)
+    if (!aiError.fatal && retries > 0 && aiError.retryable) {
+      const delay = Math.max(baseDelay, aiError.retryAfterMs || 0);
+      console.warn(`⚠️ ${aiError.kind} detected! Cooling down for ${delay/1000}s... (Retries left: ${retries})`);
+      await wait(delay);
+      // Double the delay for the next attempt
+      return runWithRetry(fn, retries - 1, baseDelay * 2, { attempt: attempt + 1, waited_ms: delay });
+    }
+    
+    console.error(`❌ API Request Final Failure after ${attempt} attempt(s):`, aiError);
+    // Quota/auth, safety blocks, invalid answers or exhausted retries: the caller records it
+    return { value: null, error: aiError, attempts: attempt };
+  }
+}
+
+// --- RUN SUMMARY ---
+export interface SceneFailure extends AssetFailure {
+  scene_index: number;
+}
+
+export interface PipelineRunSummary {
+  started_at: number;
+  finished_at: number;
+  outcome: 'completed' | 'stopped' | 'aborted'; // aborted = a fatal error (quota, key) ended the run
+  generated: Record<AssetStage, number>;
+  failures: SceneFailure[]; // Recorded during this run
+  remaining_failures: number; // Failed stages still on the project afterwards
+  error?: AIError;
+}
+
+export const listSceneFailures = (scenes: Scene[]): SceneFailure[] =>
+  scenes.flatMap(s => (s.failures || []).map(f => ({ ...f, scene_index: s.scene_index })));
+
+const withFailure = (scene: Scene, failure: AssetFailure): Scene => ({
+  ...scene,
+  failures: [...(scene.failures || []).filter(f => f.stage !== failure.stage), failure]
+});
+
+export const withoutFailure = (scene: Scene, stage: AssetStage): Scene => {
+  if (!scene.failures?.some(f => f.stage === stage)) return scene;
+  const failures = scene.failures.filter(f => f.stage !== stage);
+  return { ...scene, failures: failures.length > 0 ? failures : undefined };
+};
+
+const VISUAL_STAGES: AssetStage[] = ['image', 'inspection', 'grid'];
+
+/**
+ * Resets the tracks a script edit made stale, so the next run rebuilds just those assets.
+ * Audio always follows the narration; pass `visual` when the image no longer matches either.
+ */
+export const invalidateSceneAssets = (scene: Scene, visual: boolean): Scene => {
+  let next: Scene = {
+    ...withoutFailure(scene, 'audio'),
+    assets: { ...scene.assets, audio_asset_id: undefined, audio_url: '', audio_duration: undefined },
+    progress_status: { ...scene.progress_status, is_audio_generated: false }
+  };
+  if (!visual) return next;
+
+  next = VISUAL_STAGES.reduce(withoutFailure, next);
+  // A 2x2 grid tells the old narration cut by cut: go back to a video scene so the fallback runs again
+  const wasGrid = !!scene.cuts?.length;
+  return {
+    ...next,
+    type: wasGrid ? 'video' : next.type,
+    planned_layout: wasGrid ? 'SINGLE' : next.planned_layout,
+    cuts: undefined,
+    inspection_data: undefined,
+    assets: {
+      ...next.assets,
+      visual_asset_id: undefined,
+      visual_url: '',
+      visual_filename: next.assets.visual_filename.replace(/\.mp4$/, '.png')
+    },
+    progress_status: { ...next.progress_status, is_image_generated: false, is_image_inspected: false, is_video_generated: false }
+  };
+};
+
+export interface ConstructionEnv {
+  runJob: <R extends PipelineJobRequest>(job: PipelineJob<R>) => Promise<PipelineJobResults[R['kind']]>;
+  onUpdate: (updatedData: ScriptData) => void; // Scenes carry asset IDs only; the main thread hydrates and saves
+  onProgress?: (progress: PipelineProgress) => void;
+  onRunStarted?: (runId?: string) => void;
+  stopSignal: { stopped: boolean };
+  sceneDelayMs: number;
+  veoAvailable: boolean;
+}
+
+/**
+ * CONSTRUCTION PHASE
+ * Each scene runs two tracks through the shared job scheduler:
+ *   Visual: Image -> Inspection -> Video (or 2x2 Grid fallback)
+ *   Audio:  TTS
+ * so scene 5's image can render while scene 4's narration is being voiced.
+ * Enhanced with Smart Retry; rate limiting is handled by the scheduler's token buckets.
+ * Stages that still fail are recorded on the scene (`failures`) and listed in the returned summary.
+ * `onlyScenes` limits the run to those scene indices (used by the Dashboard retry and resume buttons).
+ * Progress is checkpointed in a persisted run record so an interrupted run can be resumed after a reload.
+ */
+export async function runConstruction(
+  projectData: ScriptData, 
+  env: ConstructionEnv,
+  options: { onlyScenes?: number[]; resumedFrom?: string } = {}
+): Promise<PipelineRunSummary> {
+  
+  const { stopSignal, onUpdate } = env;
+  const startedAt = Date.now();
+  const scenes = [...projectData.scenes];
+  const generated: Record<AssetStage, number> = { image: 0, inspection: 0, grid: 0, audio: 0 };
+  const runFailures: SceneFailure[] = [];
+
+  const queue = scenes
+    .filter(s => !options.onlyScenes || options.onlyScenes.includes(s.scene_index))
+    .filter(sceneNeedsWork)
+    .map(s => s.scene_index);
+  const runRecord = startRunRecord(projectData.project_id, queue, options.resumedFrom);
+  env.onRunStarted?.(runRecord.run_id);
+
+  // First fatal error (e.g. daily quota) stops the whole run, like the old sequential loop did
+  let fatalError: unknown = null;
+  const runSignal = { get stopped() { return stopSignal.stopped || fatalError !== null; } };
+
+  // Hands one provider call to the main thread; the stage is checkpointed when it is requested
+  const requestJob = <R extends PipelineJobRequest>(
+    i: number,
+    label: string,
+    stage: GenerationLogStage,
+    capability: Capability,
+    inputs: GenerationInputs,
+    attempt: AttemptInfo,
+    request: R
+  ) => {
+    const progress: PipelineProgress = { scene_index: scenes[i].scene_index, track: stage === 'audio' ? 'audio' : 'visual', stage };
+    runRecord.setStage(progress.scene_index, progress.track, stage);
+    env.onProgress?.(progress);
+    return env.runJob({ label, capability, order: i, scene_index: scenes[i].scene_index, stage, inputs, ...attempt, request });
+  };
+
+  const commit = () => onUpdate({ ...projectData, scenes: [...scenes] });
+  
+  // Runs one stage with retries; a final failure is stored on the scene, a success clears the old one
+  const attemptStage = async <T>(i: number, stage: AssetStage, fn: (info: AttemptInfo) => Promise<T>): Promise<T | null> => {
+    const result = await runWithRetry(fn);
+    if (!result.error) {
+      generated[stage]++;
+      scenes[i] = withoutFailure(scenes[i], stage);
+      return result.value;
+    }
+
+    // [NEW] Budget reached: not this asset's fault, so nothing is recorded; the run pauses instead
+    if (result.error.kind === 'budget') throw result.error;
+
+    const failure: AssetFailure = {
+      stage,
+      error_kind: result.error.kind,
+      message: result.error.message,
+      attempts: result.attempts,
+      failed_at: Date.now()
+    };
+    runFailures.push({ ...failure, scene_index: scenes[i].scene_index });
+    scenes[i] = withFailure(scenes[i], failure);
+    commit();
+
+    // [CRITICAL FIX] Quota / invalid key: retrying cannot help, stop the pipeline immediately
+    if (result.error.fatal) {
+      console.error(`❌ ${result.error.name} (${result.error.kind}). Stopping pipeline.`);
+      throw result.error;
+    }
+    return null;
+  };
+
+  const veoAvailable = env.veoAvailable;
+
+  const buildVisual = async (i: number) => {
+    const scene = scenes[i];
+    const label = `씬 #${scene.scene_index}`;
+
+    // 1. Brick Laying (Image) - Wrapped with Retry
+    // We always generate a base image first (even for video, it acts as the start frame)
+    if (!scene.progress_status.is_image_generated) {
+        // Decide layout based on current plan (VIDEO type usually starts as SINGLE then might switch to GRID_2X2 on fallback)
+        const layoutToUse = scene.planned_layout;
+
+        const inputs = { prompt: scene.prompts.visual_prompt, layout: layoutToUse, layout_guide: layoutToUse !== 'SINGLE' };
+        const stored = await attemptStage(i, 'image', attempt => 
+            requestJob(i, `${label} 이미지`, 'image', 'image', inputs, attempt,
+                { kind: 'image', prompt: scene.prompts.visual_prompt, layout: layoutToUse })
+        );
+        
+        if (stored) {
+            scenes[i] = {
+                ...scenes[i],
+                assets: { ...scenes[i].assets, visual_asset_id: stored.asset_id, visual_url: undefined },
+                progress_status: { ...scenes[i].progress_status, is_image_generated: true }
+            };
+            commit();
+        }
+    }
+    
+    if (runSignal.stopped) return;
+
+    // 2. Safety Check (Inspection) - Wrapped with Retry
+    if (scenes[i].progress_status.is_image_generated && !scenes[i].progress_status.is_image_inspected) {
+        const source = scenes[i].assets;
+        const inspection = await attemptStage(i, 'inspection', attempt => 
+            requestJob(i, `${label} 검수`, 'inspection', 'vision', { source_asset_id: source.visual_asset_id }, attempt,
+                { kind: 'inspection', asset_id: source.visual_asset_id, url: source.visual_url })
+        );
+        
+        // A failed inspection stays pending (and listed as failed) rather than faking a result
+        if (inspection) {
+            scenes[i] = {
+                ...scenes[i],
+                inspection_data: inspection,
+                progress_status: { ...scenes[i].progress_status, is_image_inspected: true }
+            };
+            commit();
+        }
+    }
+
+    if (runSignal.stopped) return;
+
+    // 3. [NEW] Video Generation or 2x2 Grid Fallback
+    // Only applies if it's a 'video' type scene and we haven't finalized a video or grid yet
+    if (scenes[i].type === 'video' && scenes[i].progress_status.is_image_generated && !scenes[i].progress_status.is_video_generated) {
+        
+        // Strategy: Try Video -> If Fail/Unavailable -> Split Narration -> Generate 2x2 Grid -> Update Scene
+        
+        let video: PipelineJobResults['video'] = { url: "" };
+        if (veoAvailable) {
+             const source = scenes[i];
+             const inputs = {
+                 source_asset_id: source.assets.visual_asset_id,
+                 motion_strength: source.prompts.motion_strength,
+                 duration_seconds: source.duration_prediction
+             };
+             video = await requestJob(i, `${label} 비디오`, 'video', 'video', inputs, { attempt: 1, waited_ms: 0 }, {
+                 kind: 'video',
+                 asset_id: source.assets.visual_asset_id,
+                 url: source.assets.visual_url,
+                 motion_strength: source.prompts.motion_strength,
+                 duration_seconds: source.duration_prediction
+             });
+        }
+
+        if (video.asset_id || video.url) {
+            // Video Success (inline clips are in the asset store, remote URLs are kept as-is)
+            scenes[i] = {
+                ...scenes[i],
+                assets: { 
+                    ...scenes[i].assets, 
+                    visual_asset_id: video.asset_id,
+                    visual_url: video.asset_id ? undefined : video.url, 
+                    visual_filename: scenes[i].assets.visual_filename.replace('.png', '.mp4') 
+                },
+                progress_status: { ...scenes[i].progress_status, is_video_generated: true }
+            };
+            commit();
+
+        } else {
+            // Fallback: 2x2 Grid + Cut Splitting
+            console.warn(`[Construction] Scene ${i+1}: Video unavailable/failed. Falling back to 2x2 Grid.`);
+
+            // A. Split Narration
+            // splitNarrationInto4Cuts falls back to an even split itself, so only fatal errors reach here
+            const split = await runWithRetry(attempt => 
+                requestJob(i, `${label} 컷 분할`, 'split', 'json', { text: scenes[i].scripts.narration }, attempt,
+                    { kind: 'split', narration: scenes[i].scripts.narration, visual_prompt: scenes[i].prompts.visual_prompt })
+            );
+            if (split.error?.fatal) throw split.error;
+            const cuts = split.value || [];
+
+            if (cuts.length > 0 && !runSignal.stopped) {
+                 // B. Create Grid Prompt
+                 const gridPrompt = `${scenes[i].prompts.visual_prompt}
+                 
+                 [2x2 GRID LAYOUT - Storyboard Mode]
+                 Panel 1 (Top-Left): ${cuts[0]?.visual_detail || 'Opening shot'}
+                 Panel 2 (Top-Right): ${cuts[1]?.visual_detail || 'Development'}
+                 Panel 3 (Bottom-Left): ${cuts[2]?.visual_detail || 'Climax'}
+                 Panel 4 (Bottom-Right): ${cuts[3]?.visual_detail || 'Conclusion'}
+                 
+                 Style: Consistent continuous storytelling in 4 panels.`;
+
+                 // C. Generate 2x2 Image
+                 const stored = await attemptStage(i, 'grid', attempt => 
+                    requestJob(i, `${label} 2x2 그리드`, 'grid', 'image', { prompt: gridPrompt, layout: 'GRID_2X2', layout_guide: true }, attempt,
+                        { kind: 'image', prompt: gridPrompt, layout: 'GRID_2X2' })
+                 );
+
+                 if (stored) {
+                     scenes[i] = {
+                         ...scenes[i],
+                         type: 'image', // Downgrade type to image effectively
+                         planned_layout: 'GRID_2X2',
+                         narration_full: scenes[i].scripts.narration, // Backup full narration
+                         cuts: cuts, // Store the split
+                         assets: { ...scenes[i].assets, visual_asset_id: stored.asset_id, visual_url: undefined },
+                         progress_status: { ...scenes[i].progress_status, is_video_generated: false } // Mark as done via fallback
+                     };
+                     commit();
+                 }
+            }
+        }
+    }
+  };
+
+  // 4. Cement Mixing (Audio) - Wrapped with Retry
+  const buildAudio = async (i: number) => {
+    if (scenes[i].progress_status.is_audio_generated) return;
+
+    // If we split into cuts, we still generate one audio file for the whole narration
+    // because syncing 4 audio files to 1 image is complex.
+    // We use tts_text or narration_full or narration.
+    const textToRead = scenes[i].scripts.tts_text || scenes[i].narration_full || scenes[i].scripts.narration;
+
+    const voiceTone = scenes[i].scripts.voice_tone;
+    const stored = await attemptStage(i, 'audio', attempt => 
+        requestJob(i, `씬 #${scenes[i].scene_index} 오디오`, 'audio', 'speech', { text: textToRead, voice_tone: voiceTone }, attempt,
+            { kind: 'speech', text: textToRead, voice_tone: voiceTone })
+    );
+    
+    if (stored) {
+        scenes[i] = {
+            ...scenes[i],
+            assets: { ...scenes[i].assets, audio_asset_id: stored.asset_id, audio_url: undefined },
+            progress_status: { ...scenes[i].progress_status, is_audio_generated: true }
+        };
+        commit();
+    }
+  };
+
+  const track = (work: Promise<void>) => work.catch(error => {
+    if (error instanceof JobCancelledError) return;
+    // A budget stop pauses the run like the stop button, so it can be resumed once the limit is raised
+    if (error instanceof AIError && error.kind === 'budget') {
+      stopSignal.stopped = true;
+      return;
+    }
+    if (fatalError === null) fatalError = error;
+  });
+
+  // A track is checkpointed as done only once its scene really needs nothing more from it
+  const markDone = (i: number, name: 'visual' | 'audio', needsWork: (scene: Scene) => boolean) => () => {
+    if (!needsWork(scenes[i])) runRecord.setStage(scenes[i].scene_index, name, 'done');
+  };
+
+  const tracks: Promise<void>[] = [];
+  for (let i = 0; i < scenes.length; i++) {
+    if (runSignal.stopped) break;
+    if (!queue.includes(scenes[i].scene_index)) continue;
+
+    // SAFETY DELAY: Stagger scene starts (Configurable in Settings); the scheduler enforces the real limits
+    if (tracks.length > 0) {
+        await wait(env.sceneDelayMs);
+        if (runSignal.stopped) break;
+    }
+
+    tracks.push(
+        track(buildVisual(i).then(markDone(i, 'visual', visualNeedsWork))),
+        track(buildAudio(i).then(markDone(i, 'audio', audioNeedsWork)))
+    );
+  }
+
+  await Promise.all(tracks);
+
+  const outcome: PipelineRunSummary['outcome'] = fatalError !== null ? 'aborted' : stopSignal.stopped ? 'stopped' : 'completed';
+  await runRecord.finish(outcome);
+
+  return {
+    started_at: startedAt,
+    finished_at: Date.now(),
+    outcome,
+    generated,
+    failures: runFailures,
+    remaining_failures: listSceneFailures(scenes).length,
+    error: fatalError !== null ? classifyError(fatalError) : undefined
+  };
+}
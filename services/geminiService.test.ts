@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { JsonRequest, TextResult } from './providers';
+import { InvalidResponseError } from './aiErrors';
+import type { ScriptOutline } from '../types';
+import { generatePerfectScript, generateScriptFromRawText, GenerationCancelledError, ScriptTruncatedError } from './geminiService';
+
+type Answer = TextResult | ((req: JsonRequest) => Promise<TextResult>);
+
+// Scripted provider: every json call takes the next queued answer and is kept for inspection
+const { answers, calls } = vi.hoisted(() => ({ answers: [] as Answer[], calls: [] as JsonRequest[] }));
+
+vi.mock('./providers', () => ({
+  resolveCapability: () => ({
+    model: 'test-model',
+    handler: async (req: JsonRequest) => {
+      calls.push(req);
+      const next = answers.shift() || { text: '', finishReason: 'STOP' };
+      return typeof next === 'function' ? next(req) : next;
+    }
+  })
+}));
+vi.mock('../utils/quotaManager', () => ({ quotaManager: { increment: vi.fn(), updateModelStatus: vi.fn() } }));
+vi.mock('./usageLedger', () => ({ recordUsage: vi.fn() }));
+vi.mock('./budgetGuard', () => ({ checkBudget: vi.fn() }));
+
+const answer = (text: string, finishReason = 'STOP') => answers.push({ text, finishReason });
+
+const rawScene = (scene_index: number, narration: string) => ({
+  scene_index,
+  type: 'image',
+  layout: 'SINGLE',
+  scripts: { narration, tts_text: narration, subtitles: [narration], voice_tone: 'calm' },
+  prompts: { visual_prompt: `Scene ${scene_index}` }
+});
+const META = { title: '폼페이', description: '화산재 아래의 하루', tags: ['역사'], genre: 'history', thumbnail_prompt: 'Pompeii', bgm_mood: 'tense' };
+const NARRATIONS = ['첫 번째 장면입니다.', '두 번째 장면입니다.', '세 번째 장면입니다.', '네 번째 장면입니다.'];
+const scriptPackage = (count: number) => ({ meta: META, scenes: NARRATIONS.slice(0, count).map((n, i) => rawScene(i + 1, n)) });
+
+beforeEach(() => {
+  answers.length = 0;
+  calls.length = 0;
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('structured answers', () => {
+  it('sends schema issues back in a repair call and uses the repaired answer', async () => {
+    answer(JSON.stringify({ scenes: scriptPackage(2).scenes })); // No meta
+    answer(JSON.stringify(scriptPackage(2)));
+
+    const script = await generateScriptFromRawText('원고', () => {});
+    expect(calls.map(call => call.task)).toEqual(['adaptation', 'repair']);
+    expect(calls[1].prompt).toContain('- $.meta:');
+    expect(calls[1].temperature).toBe(0);
+    expect(script.meta.title).toBe('폼페이');
+  });
+
+  it('gives up after the bounded number of repairs', async () => {
+    for (let i = 0; i < 3; i++) answer(JSON.stringify({ scenes: [] }));
+
+    await expect(generateScriptFromRawText('원고', () => {})).rejects.toThrow(/adaptation response does not match its schema/);
+    expect(calls).toHaveLength(3);
+  });
+});
+
+describe('long-form answers', () => {
+  it.each([
+    ['a refusal', "I'm sorry, but I can't help with that request."],
+    ['an empty answer', '']
+  ])('sends %s to repair instead of asking for continuations', async (_, text) => {
+    answer(text);
+
+    const error = await generateScriptFromRawText('원고', () => {}).catch(e => e);
+    expect(error).toBeInstanceOf(InvalidResponseError);
+    expect(error).not.toBeInstanceOf(ScriptTruncatedError);
+    expect(calls.map(call => call.task)).toEqual(['adaptation', 'repair', 'repair']);
+  });
+
+  it('continues after the last complete scene and drops scenes the continuation repeats', async () => {
+    const full = JSON.stringify(scriptPackage(3));
+    answer(full.slice(0, full.indexOf(NARRATIONS[2]) + 3), 'MAX_TOKENS'); // Cut inside scene 3
+    answer(JSON.stringify({ scenes: [2, 3, 4].map(index => rawScene(index, NARRATIONS[index - 1])) }));
+
+    const script = await generateScriptFromRawText('원고', () => {});
+    expect(calls[1].prompt).toContain('The last complete scene was scene_index 2');
+    expect(calls[1].prompt).toContain('Continue from scene_index 3');
+    expect(script.scenes.map(scene => scene.scripts.narration)).toEqual(NARRATIONS);
+    expect(script.scenes.map(scene => scene.scene_index)).toEqual([1, 2, 3, 4]);
+    expect(script.meta.title).toBe('폼페이');
+  });
+
+  it('asks for the whole answer again when no scene was complete', async () => {
+    answer('{"meta": {"title": "폼페', 'MAX_TOKENS');
+    answer(JSON.stringify(scriptPackage(2)));
+
+    const script = await generateScriptFromRawText('원고', () => {});
+    expect(calls[1].prompt).toContain('RETRY');
+    expect(calls[1].responseSchema!.required).toContain('meta');
+    expect(script.scenes).toHaveLength(2);
+  });
+
+  it('reports a script still cut off after the last continuation', async () => {
+    const full = JSON.stringify(scriptPackage(2));
+    answer(full.slice(0, full.indexOf(NARRATIONS[1])), 'MAX_TOKENS');
+    for (let i = 0; i < 4; i++) answer('{"scenes": [{"scene_index": 2, "scripts": {"narr', 'MAX_TOKENS');
+
+    const error = await generateScriptFromRawText('원고', () => {}).catch(e => e);
+    expect(error).toBeInstanceOf(ScriptTruncatedError);
+    expect(error.completeScenes).toBe(1);
+    expect(calls).toHaveLength(5);
+  });
+});
+
+describe('staged writer', () => {
+  const outline: ScriptOutline = {
+    topic: '폼페이',
+    meta: META,
+    global_style: { art_style: 'documentary', main_character_desc: null },
+    chapters: ['hook', 'history'].map(id => ({ id, phase: id, title: id, summary: id, key_points: [], target_chars: 100 }))
+  };
+
+  it('hands back the chapters written before a stop during the chapter phase', async () => {
+    const controller = new AbortController();
+    answer(JSON.stringify({ narration: '첫 챕터입니다.' }));
+    answers.push(req => new Promise((_, reject) => {
+      req.signal!.addEventListener('abort', () => reject(new Error('aborted')));
+      controller.abort();
+    }));
+
+    const error = await generatePerfectScript('폼페이', () => {}, { outline, chapters: {} }, { signal: controller.signal }).catch(e => e);
+    expect(error).toBeInstanceOf(GenerationCancelledError);
+    expect(error.draft.outline).toBe(outline);
+    expect(Object.keys(error.draft.chapters)).toEqual(['hook']);
+    expect(error.draft.chapters.hook.narration).toBe('첫 챕터입니다.');
+    expect(calls.map(call => call.task)).toEqual(['chapter', 'chapter']);
+  });
+});
@@ -1,75 +1,36 @@
-import { GoogleGenAI, Modality, Type, HarmCategory, HarmBlockThreshold } from "@google/genai";
-import { ScriptData, Scene, LayoutType, TopicItem, Cut } from "../types";
+import { ScriptData, Scene, LayoutType, TopicItem, Cut, InspectionData, ScriptOutline, OutlineChapter, ChapterDraft, ScriptWriterDraft } from "../types";
 import { generateLayoutBase64 } from "../utils/layoutGenerator";
 import { quotaManager } from "../utils/quotaManager"; 
-
-// Initialize Gemini Client
-const apiKey = process.env.API_KEY || '';
-const ai = new GoogleGenAI({ apiKey });
-
-// --- SAFETY SETTINGS ---
-const SAFETY_SETTINGS = [
-  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-];
+import { recordUsage } from "./usageLedger";
+import { checkBudget } from "./budgetGuard";
+import { toVoiceTone } from "./projectSchema";
+import { parseJSONSafely, enforceScenePacing, createSceneObject } from "./scriptParsing";
+import { resolveCapability, Capability, CapabilityHandlers, JsonRequest, TextResult } from "./providers";
+import { AIError, classifyError, InvalidResponseError, RateLimitedError } from "./aiErrors";
+import {
+    JsonSchema, validateAgainstSchema, OUTLINE_SCHEMA, CHAPTER_SCHEMA, SCENE_LIST_SCHEMA,
+    SCRIPT_PACKAGE_SCHEMA, TOPICS_SCHEMA, INSPECTION_SCHEMA, CUTS_SCHEMA, sceneRewriteSchema
+} from "./responseSchemas";
 
 // --- UTILITIES ---
 
 const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-function base64ToUint8Array(base64: string): Uint8Array {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
-
-function uint8ArrayToBase64(bytes: Uint8Array): string {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
-
-function createWavHeader(dataLength: number, sampleRate: number = 24000) {
-  const buffer = new ArrayBuffer(44);
-  const view = new DataView(buffer);
-  writeString(view, 0, 'RIFF');
-  view.setUint32(4, 36 + dataLength, true); 
-  writeString(view, 8, 'WAVE');
-  writeString(view, 12, 'fmt ');
-  view.setUint32(16, 16, true); 
-  view.setUint16(20, 1, true); 
-  view.setUint16(22, 1, true); 
-  view.setUint32(24, sampleRate, true); 
-  view.setUint32(28, sampleRate * 2, true); 
-  view.setUint16(32, 2, true); 
-  view.setUint16(34, 16, true); 
-  writeString(view, 36, 'data');
-  view.setUint32(40, dataLength, true); 
-  return new Uint8Array(buffer);
-}
-
-function writeString(view: DataView, offset: number, string: string) {
-  for (let i = 0; i < string.length; i++) {
-    view.setUint8(offset + i, string.charCodeAt(i));
-  }
-}
+type RequestOf<C extends Capability> = Omit<Parameters<CapabilityHandlers[C]>[0], 'model'>;
+type ResultOf<C extends Capability> = Awaited<ReturnType<CapabilityHandlers[C]>>;
 
-function pcmToWavBase64(pcmBase64: string): string {
-    const pcmData = base64ToUint8Array(pcmBase64);
-    const header = createWavHeader(pcmData.length, 24000); 
-    const wavData = new Uint8Array(header.length + pcmData.length);
-    wavData.set(header);
-    wavData.set(pcmData, header.length);
-    return uint8ArrayToBase64(wavData);
+/**
+ * Runs one call against whichever provider is selected for the capability.
+ * Quota, budget and token/cost bookkeeping live here so every agent step is counted the same way.
+ */
+async function invoke<C extends Capability>(capability: C, request: RequestOf<C>): Promise<ResultOf<C>> {
+    const { model, handler } = resolveCapability(capability);
+    await checkBudget();
+    quotaManager.increment(model, capability);
+    const result = await (handler as (req: any) => Promise<ResultOf<C>>)({ ...request, model });
+    recordUsage(model, result.usage);
+    quotaManager.updateModelStatus('Idle');
+    return result;
 }
 
 // --- TYPE DEFINITIONS ---
@@ -79,13 +40,33 @@ export interface FetchTopicsResult {
 }
 
 // --- SYSTEM PROMPTS ---
-const ONE_SHOT_SYSTEM_INSTRUCTION = `
-You are the "Executive Producer AI". 
-Your goal is to output a COMPLETE YouTube Documentary Script Package in a SINGLE JSON response.
+// [NEW] Staged writer: outline → chapters → scenes (see generatePerfectScript)
+const OUTLINE_SYSTEM_INSTRUCTION = `
+You are the "Executive Producer AI".
+Plan a YouTube documentary about the topic as an OUTLINE only (no narration yet).
 Structure: Hook -> History -> Deep Analysis (3 angles) -> Counterarguments -> Future Prediction -> Conclusion.
-Writer: Detailed Korean narration. Minimum 5,000 characters.
+One chapter per part (the 3 analysis angles are 3 chapters). Total target_chars at least 5,000 (Korean).
+Return JSON: { "meta": { "title", "description", "tags": [], "genre", "thumbnail_prompt", "bgm_mood" },
+"global_style": { "art_style", "main_character_desc" },
+"chapters": [{ "phase", "title", "summary", "key_points": [], "target_chars" }] }
+Titles, summaries and key points in Korean. Output JSON schema MUST be valid.
+`;
+
+const CHAPTER_SYSTEM_INSTRUCTION = `
+You are the "Writer AI" of a documentary team.
+Write the Korean narration for ONE chapter of the outline you are given.
+Cover the chapter's key points, stay close to target_chars, and continue naturally from the previous chapter's ending.
+Do not repeat other chapters. No headings, no stage directions.
+Return JSON: { "narration": "..." }
+`;
+
+const SCENE_SPLIT_SYSTEM_INSTRUCTION = `
+You are the "Director AI".
+Split ONE chapter's narration into scenes of 1~2 sentences (roughly 8~14 scenes per chapter).
+Keep the narration text exactly as written, in order. Do NOT add or drop sentences.
 TTS PRE-PROCESSING: Create 'tts_text' (Hangul only).
-Director: 50~80 Scenes.
+Return JSON: { "scenes": [{ "type": "image" | "video", "layout", "scripts": { "narration", "tts_text", "subtitles": [], "voice_tone" },
+"prompts": { "visual_prompt", "motion_strength" } }] }
 Output JSON schema MUST be valid.
 `;
 
@@ -96,227 +77,601 @@ Do NOT expand text. Split scenes intelligently.
 Output JSON schema MUST be valid.
 `;
 
-/**
- * Helper: Check for API Error and Return Friendly Message
- */
-function checkForApiError(error: any): string | undefined {
-    const msg = error.toString().toLowerCase();
-    
-    // 1. Daily Quota Exceeded (Explicit)
-    if ((msg.includes("quota") && (msg.includes("exceeded") || msg.includes("limit"))) || msg.includes("429 resource exhausted")) {
-         return "⚠️ 일일 API 할당량을 초과했습니다 (Daily Quota). 내일 다시 이용해주세요.";
+const SCENE_REWRITE_SYSTEM_INSTRUCTION = `
+You are the "Script Editor AI" of a Korean documentary team.
+Rewrite ONLY the scenes under SCENES TO REWRITE, following the INSTRUCTION.
+Return exactly one scene per input scene, in the same order, with the same scene_index.
+The CONTEXT scenes around them stay as they are: keep the rewritten part flowing into and out of them.
+TTS PRE-PROCESSING: Create 'tts_text' (Hangul only). Keep subtitles short.
+Return visual_prompt UNCHANGED unless the new narration shows something the current visual cannot.
+Return JSON: { "scenes": [{ "scene_index", "scripts": { "narration", "tts_text", "subtitles": [], "voice_tone" }, "visual_prompt" }] }
+`;
+
+const REPAIR_SYSTEM_INSTRUCTION = `
+You repair JSON written by another agent so that it matches the required schema.
+Fix only the listed problems and keep every valid value (especially Korean narration) unchanged.
+Return the complete corrected JSON only.
+`;
+
+// --- STRUCTURED OUTPUT ---
+// The schema goes to the model with the request, and the answer is validated against it anyway:
+// on mismatch the model gets the issues back in a repair call, a bounded number of times.
+const MAX_REPAIR_ATTEMPTS = 2;
+const MAX_REPORTED_ISSUES = 20;
+
+async function requestStructured<T>(
+    task: string,
+    schema: JsonSchema,
+    call: (responseSchema: JsonSchema) => Promise<{ text: string }>
+): Promise<T> {
+    return validateOrRepair<T>(task, schema, (await call(schema)).text);
+}
+
+async function validateOrRepair<T>(task: string, schema: JsonSchema, text: string): Promise<T> {
+    for (let repair = 1; ; repair++) {
+        const parsed = parseJSONSafely(text);
+        const issues = parsed === null
+            ? [{ path: '$', message: 'response is not parseable JSON' }]
+            : validateAgainstSchema(parsed, schema);
+        if (issues.length === 0) return parsed as T;
+
+        const report = issues.slice(0, MAX_REPORTED_ISSUES).map(i => `- ${i.path}: ${i.message}`).join('\n');
+        if (repair > MAX_REPAIR_ATTEMPTS) {
+            throw new InvalidResponseError(`${task} response does not match its schema:\n${report}`);
+        }
+        console.warn(`[Schema] ${task} response invalid (repair ${repair}/${MAX_REPAIR_ATTEMPTS})\n${report}`);
+
+        const repaired = await invoke('json', {
+            task: 'repair',
+            prompt: `ORIGINAL TASK: ${task}\n\nVALIDATION ERRORS:\n${report}\n\nJSON TO FIX:\n${text}`,
+            systemInstruction: REPAIR_SYSTEM_INSTRUCTION,
+            responseSchema: schema,
+            temperature: 0
+        });
+        text = repaired.text;
     }
+}
 
-    // 2. Rate Limit (RPM)
-    if (msg.includes("429") || msg.includes("resource_exhausted")) {
-         return "요청 속도가 너무 빠릅니다 (RPM 제한). 10초 정도 쉬었다가 천천히 시도해주세요.";
+// --- TRUNCATED LONG-FORM ANSWERS ---
+// A script package that hits the output-token limit stops mid-scene. Instead of discarding it, the
+// complete scenes are kept and the model is asked for the rest (same request, scenes after the last
+// complete one), then the parts are stitched and validated as one package. An answer with nothing
+// to continue from is requested again in full; one still cut off after the last continuation fails.
+const MAX_CONTINUATIONS = 4;
+
+// Still cut off after every continuation: a shortened script is never passed off as the full one
+export class ScriptTruncatedError extends InvalidResponseError {
+    readonly completeScenes: number;
+
+    constructor(task: string, completeScenes: number) {
+        super(`${task} still truncated after ${MAX_CONTINUATIONS} continuations (${completeScenes} complete scenes)`);
+        this.name = 'ScriptTruncatedError';
+        this.completeScenes = completeScenes;
     }
-    
-    // 3. Service Overloaded
-    if (msg.includes("503") || msg.includes("overloaded")) {
-        return "구글 서버가 혼잡합니다. 잠시 후 다시 시도해주세요.";
+
+    get userMessage(): string {
+        return `대본이 AI 출력 한도에 걸려 끝까지 생성되지 않았습니다 (완성된 씬 ${this.completeScenes}개). 분량을 줄여 다시 시도해주세요.`;
     }
+}
+
+interface JsonScan {
+  balanced: boolean; // Every object/array/string that was opened is closed (also when none was: prose, empty)
+  sceneStart: number; // Offset of the "scenes" array's '[' (-1 if none)
+  scenes: string[]; // Complete elements of that array, as text
+}
 
-    return undefined;
+// String-aware bracket scan; only the first "scenes" array is split into elements
+function scanJson(text: string): JsonScan {
+    const match = text.match(/"scenes"\s*:\s*\[/);
+    const sceneStart = match ? match.index! + match[0].length - 1 : -1;
+    const scenes: string[] = [];
+    let depth = 0;
+    let sceneDepth = -1;
+    let elementStart = -1;
+    let inString = false;
+    let escaped = false;
+
+    const start = text.search(/[{[]/);
+    if (start === -1) return { balanced: true, sceneStart, scenes };
+
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') {
+            inString = true;
+        } else if (ch === '{' || ch === '[') {
+            if (i === sceneStart) sceneDepth = depth + 1;
+            else if (depth === sceneDepth && elementStart === -1) elementStart = i;
+            depth++;
+        } else if (ch === '}' || ch === ']') {
+            depth--;
+            if (depth === sceneDepth && elementStart !== -1) {
+                scenes.push(text.substring(elementStart, i + 1));
+                elementStart = -1;
+            }
+            if (depth === sceneDepth - 1) sceneDepth = -1; // Scenes array closed
+            if (depth === 0) return { balanced: true, sceneStart, scenes };
+        }
+    }
+    return { balanced: false, sceneStart, scenes };
 }
 
-function parseJSONSafely(text: string): any {
-  let cleanText = text.replace(/```json/g, '').replace(/```/g, '').trim();
-  const firstBrace = cleanText.indexOf('{');
-  const lastBrace = cleanText.lastIndexOf('}');
-  
-  if (firstBrace === -1 || lastBrace === -1) return null;
-  
-  cleanText = cleanText.substring(firstBrace, lastBrace + 1);
+const withContinuation = (prompt: string, continuation?: string) => continuation ? `${prompt}\n\n${continuation}` : prompt;
 
-  try {
-    return JSON.parse(cleanText);
-  } catch (e) {
-    console.warn("JSON Parse Failed", e);
-    return null;
-  }
+// Cut off by the limit, or a structure was opened and never closed; anything else goes to validation/repair
+const isTruncated = (result: TextResult) => result.finishReason === 'MAX_TOKENS' || !scanJson(result.text).balanced;
+
+const parseScenes = (texts: string[]) => texts.map(scene => { try { return JSON.parse(scene); } catch { return null; } }).filter(Boolean);
+
+// Everything before the scenes array (meta, global_style) closed into an object, plus the complete scenes
+function salvagePackage(text: string): { head: any; scenes: any[] } {
+    const scan = scanJson(text);
+    const scenes = parseScenes(scan.scenes);
+    if (scan.sceneStart === -1) return { head: {}, scenes };
+
+    const beforeScenes = text.substring(text.indexOf('{'), text.lastIndexOf('"scenes"', scan.sceneStart)).replace(/,\s*$/, '');
+    return { head: parseJSONSafely(`${beforeScenes}}`) || {}, scenes };
 }
 
-function enforceScenePacing(data: any): ScriptData {
-    const MAX_LENGTH = 60;
-    const newScenes: Scene[] = [];
-    let globalIndex = 1;
+// Every required field besides the scenes was salvaged from the cut-off answer
+const hasHead = (schema: JsonSchema, head: any) => (schema.required || []).every(key => key === 'scenes' || head[key] !== undefined);
 
-    if (!data.scenes || !Array.isArray(data.scenes)) {
-        throw new Error("Invalid Scene Data generated by AI");
-    }
+// Continuations may repeat the last scenes or skip ahead: keep the first scene per scene_index, in index order
+function stitchScenes(scenes: any[]): any[] {
+    const byIndex = new Map<number, any>();
+    scenes.forEach((scene, i) => {
+        const index = Number(scene.scene_index) || i + 1;
+        if (!byIndex.has(index)) byIndex.set(index, scene);
+    });
+    return [...byIndex.entries()].sort(([a], [b]) => a - b).map(([, scene], i) => ({ ...scene, scene_index: i + 1 }));
+}
 
-    data.scenes.forEach((rawScene: any) => {
-        const narration = rawScene.scripts?.narration || rawScene.narration_full || "";
-        
-        if (narration.length <= MAX_LENGTH) {
-            newScenes.push(createSceneObject(rawScene, globalIndex++));
-            return;
+/**
+ * Like requestStructured for answers with a `scenes` list; `call` receives a continuation note to
+ * append to its prompt when the previous answer was cut off, and the streaming fields of `stream`
+ * to pass on to invoke.
+ */
+async function requestLongForm<T>(
+    task: string,
+    schema: JsonSchema,
+    call: (responseSchema: JsonSchema, continuation?: string, streaming?: StreamFields) => Promise<TextResult>,
+    stream?: SceneStream
+): Promise<T> {
+    const first = await call(schema, undefined, stream?.call());
+    stream?.throwIfCancelled();
+    if (!isTruncated(first)) return validateOrRepair<T>(task, schema, first.text);
+
+    let { head, scenes } = salvagePackage(first.text);
+    for (let part = 1; part <= MAX_CONTINUATIONS; part++) {
+        const last = scenes[scenes.length - 1];
+        const lastIndex = Number(last?.scene_index) || scenes.length;
+        console.warn(`[Continuation] ${task} truncated after ${scenes.length} complete scenes (part ${part}/${MAX_CONTINUATIONS})`);
+
+        // No complete scene or an unreadable head (meta...): nothing to continue from, ask for the whole answer again
+        if (!last || !hasHead(schema, head)) {
+            const retry = await call(schema, [
+                'RETRY: Your previous answer was cut off by the output limit before it could be used.',
+                'Answer the full request again from the start, keeping every scene concise.'
+            ].join('\n'), stream?.call());
+            stream?.throwIfCancelled();
+            if (!isTruncated(retry)) return validateOrRepair<T>(task, schema, retry.text);
+            ({ head, scenes } = salvagePackage(retry.text));
+            continue;
         }
 
-        const sentences = narration.match(/[^.?!]+[.?!]+[\s]*/g) || [narration];
-        
-        sentences.forEach((sentence: string) => {
-             if (!sentence.trim()) return;
-             const splitScene = {
-                 ...rawScene,
-                 scripts: {
-                     ...rawScene.scripts,
-                     narration: sentence.trim(),
-                     subtitles: rawScene.scripts?.subtitles || []
-                 }
-             };
-             newScenes.push(createSceneObject(splitScene, globalIndex++));
-        });
+        const next = await call(SCENE_LIST_SCHEMA, [
+            `CONTINUATION: Your previous answer was cut off by the output limit after ${scenes.length} complete scenes.`,
+            `The last complete scene was scene_index ${lastIndex} with the narration: "${last.scripts?.narration || ''}". Continue from scene_index ${lastIndex + 1} until the end, numbering on from there. Do NOT repeat earlier scenes.`,
+            'Return ONLY { "scenes": [...] } with the remaining scenes.'
+        ].join('\n'), stream?.call(scenes));
+        stream?.throwIfCancelled();
+
+        const truncated = isTruncated(next);
+        scenes.push(...(truncated ? salvagePackage(next.text).scenes : parseJSONSafely(next.text)?.scenes || []));
+        if (!truncated) return validateOrRepair<T>(task, schema, JSON.stringify({ ...head, scenes: stitchScenes(scenes) }));
+    }
+
+    throw new ScriptTruncatedError(task, scenes.length);
+}
+
+// --- STREAMED SCRIPT PREVIEW ---
+// Scene-producing calls stream their answers. Every scene whose JSON object has closed is shown as
+// it arrives, and a user who stops early keeps exactly those scenes.
+
+export interface ScriptStreamUpdate {
+    scenes: Scene[]; // Complete scenes so far, in script order (before pacing splits long ones)
+    receivedChars: number; // Answer text streamed so far, across every call of this generation
+}
+
+export interface ScriptStreamOptions {
+    onUpdate?: (update: ScriptStreamUpdate) => void;
+    signal?: AbortSignal; // Abort to stop; the scenes received so far become the script
+}
+
+// Stopped before a single scene was complete
+export class GenerationCancelledError extends Error {
+    readonly draft?: ScriptWriterDraft; // Outline and chapters written before the stop, to resume from
+
+    constructor(draft?: ScriptWriterDraft) {
+        super('Script generation cancelled');
+        this.name = 'GenerationCancelledError';
+        this.draft = draft;
+    }
+}
+
+type StreamFields = Pick<JsonRequest, 'onText' | 'signal'>;
+
+// Raw scenes of one generation: settled (calls that finished) + pending (the call in flight)
+function createSceneStream(options: ScriptStreamOptions = {}) {
+    const settled: any[] = [];
+    let pending: any[] = [];
+    let finishedChars = 0;
+    let callChars = 0;
+
+    const publish = () => options.onUpdate?.({
+        scenes: [...settled, ...pending].map((raw, i) => createSceneObject(raw, i + 1)),
+        receivedChars: finishedChars + callChars
     });
 
-    return { ...data, scenes: newScenes };
+    const stream = {
+        shape: (raw: any) => raw, // Applied to pending scenes, like the caller does to its final ones
+        get cancelled() { return !!options.signal?.aborted; },
+        scenes: () => [...settled, ...pending],
+        /** Streaming fields for the next call; `before` = complete scenes kept from earlier parts of the same answer */
+        call(before: any[] = []): StreamFields {
+            finishedChars += callChars;
+            callChars = 0;
+            pending = before.map(stream.shape);
+            let complete = -1;
+            return {
+                signal: options.signal,
+                onText: (text) => {
+                    callChars = text.length;
+                    const scan = scanJson(text);
+                    if (scan.scenes.length !== complete) {
+                        complete = scan.scenes.length;
+                        pending = [...before, ...parseScenes(scan.scenes)].map(stream.shape);
+                    }
+                    publish();
+                }
+            };
+        },
+        settle(scenes: any[]) {
+            settled.push(...scenes);
+            pending = [];
+            publish();
+        },
+        throwIfCancelled() {
+            if (options.signal?.aborted) throw new GenerationCancelledError();
+        }
+    };
+    return stream;
 }
 
-function createSceneObject(raw: any, index: number): Scene {
-    const type = raw.type === 'video' ? 'video' : 'image';
-    const baseId = raw.assets?.base_id || `scene_${String(index).padStart(3, '0')}`;
-    const duration = raw.duration_prediction 
-        ? parseFloat(raw.duration_prediction) 
-        : Math.max(3, Math.min(8, (raw.scripts?.narration?.length || 0) * 0.25));
+type SceneStream = ReturnType<typeof createSceneStream>;
+
+// --- STAGED SCRIPT WRITER ---
+
+const DEFAULT_CHAPTER_CHARS = 800;
 
+// Chapter entry as it is compared against a draft (see ChapterDraft.outline_snapshot)
+export const chapterSnapshot = (chapter: OutlineChapter) =>
+    JSON.stringify({ title: chapter.title, summary: chapter.summary, key_points: chapter.key_points, target_chars: chapter.target_chars });
+
+export const isChapterStale = (chapter: OutlineChapter, draft?: ChapterDraft) =>
+    !!draft && draft.outline_snapshot !== chapterSnapshot(chapter);
+
+function normalizeOutline(raw: any, topic: string): ScriptOutline {
+    if (!raw || !Array.isArray(raw.chapters) || raw.chapters.length === 0) {
+        throw new InvalidResponseError("Outline has no chapters");
+    }
     return {
-        scene_index: index,
-        step_phase: raw.step_phase || "Chapter",
-        type: type,
-        duration_prediction: parseFloat(duration.toFixed(1)),
-        planned_layout: raw.layout || raw.planned_layout || 'SINGLE',
-        cuts: raw.cuts || [],
-        narration_full: raw.narration_full || raw.scripts?.narration || "",
-        assets: {
-            base_id: baseId,
-            audio_filename: raw.assets?.audio_filename || `${baseId}.mp3`,
-            visual_filename: raw.assets?.visual_filename || `${baseId}.png`,
-            subtitle_filename: raw.assets?.subtitle_filename || `${baseId}.ass`,
-            visual_url: raw.assets?.visual_url || "",
-            audio_url: raw.assets?.audio_url || ""
+        topic,
+        meta: {
+            title: raw.meta?.title || topic,
+            description: raw.meta?.description || "",
+            tags: Array.isArray(raw.meta?.tags) ? raw.meta.tags : [],
+            genre: raw.meta?.genre || "Documentary",
+            thumbnail_prompt: raw.meta?.thumbnail_prompt || "",
+            bgm_mood: raw.meta?.bgm_mood || ""
         },
-        scripts: {
-            narration: raw.scripts?.narration || raw.narration_full || "",
-            tts_text: raw.scripts?.tts_text || raw.scripts?.narration || "",
-            subtitles: raw.scripts?.subtitles || [],
-            voice_tone: raw.scripts?.voice_tone || 'serious'
+        global_style: {
+            art_style: raw.global_style?.art_style || "Cinematic documentary illustration",
+            main_character_desc: raw.global_style?.main_character_desc || null
         },
-        prompts: {
-            visual_prompt: raw.prompts?.visual_prompt || "Documentary visual",
-            motion_strength: raw.prompts?.motion_strength || (type === 'video' ? 5 : 0)
-        },
-        progress_status: {
-            is_script_done: true,
-            is_prompt_done: true, 
-            is_image_generated: raw.progress_status?.is_image_generated || false,
-            is_image_inspected: raw.progress_status?.is_image_inspected || false,
-            is_audio_generated: raw.progress_status?.is_audio_generated || false,
-            is_video_generated: raw.progress_status?.is_video_generated || false
-        }
+        chapters: raw.chapters.map((c: any, i: number): OutlineChapter => ({
+            id: `ch_${i + 1}`,
+            phase: c.phase || "Chapter",
+            title: c.title || `챕터 ${i + 1}`,
+            summary: c.summary || "",
+            key_points: Array.isArray(c.key_points) ? c.key_points.map(String) : [],
+            target_chars: Number(c.target_chars) > 0 ? Math.round(Number(c.target_chars)) : DEFAULT_CHAPTER_CHARS
+        }))
     };
 }
 
-export const generatePerfectScript = async (topic: string, onProgress: (msg: string) => void): Promise<ScriptData> => {
-    const model = 'gemini-2.5-flash';
+/** Stage 1: an outline the user can review and edit before any narration is written */
+export const generateOutline = async (topic: string, onProgress: (msg: string) => void): Promise<ScriptOutline> => {
     try {
-        onProgress("AI 감독관들이 회의 중입니다... (약 30초 소요)");
-        quotaManager.increment(model);
-
-        const response = await ai.models.generateContent({
-            model,
-            contents: `TOPIC: ${topic}`,
-            config: {
-                responseMimeType: "application/json",
-                systemInstruction: ONE_SHOT_SYSTEM_INSTRUCTION,
-                safetySettings: SAFETY_SETTINGS
-            }
-        });
-        quotaManager.updateModelStatus('Idle');
+        onProgress("AI 총괄 프로듀서가 목차를 짜고 있습니다...");
+        const raw = await requestStructured<any>('outline', OUTLINE_SCHEMA, responseSchema => invoke('json', {
+            task: 'outline',
+            prompt: `TOPIC: "${topic}"`,
+            systemInstruction: OUTLINE_SYSTEM_INSTRUCTION,
+            responseSchema
+        }));
+        return normalizeOutline(raw, topic);
+    } catch (error: any) {
+        quotaManager.updateModelStatus('Error');
+        throw classifyError(error);
+    }
+};
+
+// Outline as the writer sees it: every chapter, so each call knows what the others cover
+const describeOutline = (outline: ScriptOutline) =>
+    outline.chapters.map((c, i) => `${i + 1}. [${c.phase}] ${c.title} — ${c.summary}`).join('\n');
+
+/** Stage 2: narration for one chapter (re-runnable on its own) */
+export const writeChapter = async (outline: ScriptOutline, chapterId: string, previous?: ChapterDraft, signal?: AbortSignal): Promise<ChapterDraft> => {
+    const chapter = outline.chapters.find(c => c.id === chapterId);
+    if (!chapter) throw new Error(`Unknown chapter: ${chapterId}`);
+
+    try {
+        const result = await requestStructured<{ narration: string }>('chapter', CHAPTER_SCHEMA, responseSchema => invoke('json', {
+            task: 'chapter',
+            prompt: [
+                `TOPIC: "${outline.topic}"`,
+                `FULL OUTLINE:\n${describeOutline(outline)}`,
+                `CHAPTER ID: "${chapter.id}"`,
+                `CHAPTER PHASE: "${chapter.phase}"`,
+                `CHAPTER TITLE: "${chapter.title}"`,
+                `SUMMARY: ${chapter.summary}`,
+                `KEY POINTS:\n${chapter.key_points.filter(p => p.trim()).map(p => `- ${p}`).join('\n')}`,
+                `TARGET CHARS: ${chapter.target_chars}`,
+                previous?.narration ? `PREVIOUS CHAPTER ENDING: ...${previous.narration.slice(-400)}` : 'This is the first chapter.'
+            ].join('\n\n'),
+            systemInstruction: CHAPTER_SYSTEM_INSTRUCTION,
+            responseSchema,
+            signal
+        }));
+
+        const narration = result.narration.trim();
+        if (!narration) throw new InvalidResponseError(`Empty narration for ${chapter.id}`);
+        return { chapter_id: chapter.id, narration, outline_snapshot: chapterSnapshot(chapter), written_at: Date.now() };
+    } catch (error: any) {
+        if (signal?.aborted) throw new GenerationCancelledError();
+        quotaManager.updateModelStatus('Error');
+        throw classifyError(error);
+    }
+};
 
-        const rawData = parseJSONSafely(response.text!);
-        if (!rawData) throw new Error("AI failed to generate valid JSON script.");
+// Stage 3: one chapter's narration split into raw scenes
+async function splitChapterIntoScenes(chapter: OutlineChapter, draft: ChapterDraft, stream?: SceneStream): Promise<any[]> {
+    const withPhase = (scene: any) => ({ ...scene, step_phase: chapter.phase });
+    if (stream) stream.shape = withPhase;
+    const { scenes } = await requestLongForm<{ scenes: any[] }>('chapter-scenes', SCENE_LIST_SCHEMA, (responseSchema, continuation, streaming) => invoke('json', {
+        task: 'chapter-scenes',
+        prompt: withContinuation(`CHAPTER PHASE: "${chapter.phase}"\nCHAPTER TITLE: "${chapter.title}"\nCHAPTER TEXT:\n${draft.narration}`, continuation),
+        systemInstruction: SCENE_SPLIT_SYSTEM_INSTRUCTION,
+        responseSchema,
+        ...streaming
+    }), stream);
+    return scenes.map(withPhase);
+}
 
+/**
+ * Staged writer: outline → one call per chapter (outline as context) → scenes per chapter.
+ * Pass a reviewed draft to skip what is already done: only missing or stale chapters are (re)written.
+ * Scenes stream to `options.onUpdate`; aborting `options.signal` ends the run with the scenes received so far.
+ */
+export const generatePerfectScript = async (
+    topic: string,
+    onProgress: (msg: string) => void,
+    draft?: ScriptWriterDraft,
+    options?: ScriptStreamOptions
+): Promise<ScriptData> => {
+    const stream = createSceneStream(options);
+    let outline: ScriptOutline | undefined;
+    const chapters: Record<string, ChapterDraft> = { ...draft?.chapters };
+
+    const finish = (base: ScriptOutline): ScriptData => {
         onProgress("대본 검수 및 컷 분할 중...");
-        const finalScript = enforceScenePacing(rawData);
+        const finalScript = enforceScenePacing({ meta: base.meta, global_style: base.global_style, scenes: stream.scenes() });
         return { ...finalScript, meta: { ...finalScript.meta, timestamp: Date.now() } };
+    };
+
+    try {
+        outline = draft?.outline || await generateOutline(topic, onProgress);
+        const total = outline.chapters.length;
+
+        for (let i = 0; i < total; i++) {
+            const chapter = outline.chapters[i];
+            const existing = chapters[chapter.id];
+            if (existing && !isChapterStale(chapter, existing)) continue;
+            stream.throwIfCancelled();
+            onProgress(`챕터 작성 중 (${i + 1}/${total}): ${chapter.title}`);
+            chapters[chapter.id] = await writeChapter(outline, chapter.id, i > 0 ? chapters[outline.chapters[i - 1].id] : undefined, options?.signal);
+            stream.throwIfCancelled(); // A chapter that finished while stopping is kept
+        }
+
+        for (let i = 0; i < total; i++) {
+            const chapter = outline.chapters[i];
+            stream.throwIfCancelled();
+            onProgress(`씬 구성 중 (${i + 1}/${total}): ${chapter.title}`);
+            stream.settle(await splitChapterIntoScenes(chapter, chapters[chapter.id], stream));
+        }
+
+        return finish(outline);
     } catch (error: any) {
-        quotaManager.updateModelStatus('Error'); 
-        const apiError = checkForApiError(error);
-        if (apiError) throw new Error(apiError);
-        throw error;
+        if (stream.cancelled) {
+            if (outline && stream.scenes().length > 0) return finish(outline);
+            // Nothing to show as a script yet: hand back what was written so a new run starts from there
+            throw new GenerationCancelledError(outline ? { outline, chapters } : draft);
+        }
+        quotaManager.updateModelStatus('Error');
+        throw classifyError(error);
     }
 };
 
-export const rewriteScript = async (currentData: ScriptData, mode: 'longer' | 'shorter', onProgress: (msg: string) => void): Promise<ScriptData> => {
-    const model = 'gemini-2.5-flash';
+/**
+ * A stopped rewrite keeps the whole script: the rewritten opening, then the original scenes it had not
+ * reached yet (untouched, with their assets). The cut follows the last rewritten scene's scene_index when
+ * the model kept it, otherwise the number of rewritten scenes.
+ */
+function mergeRewrittenOpening(currentData: ScriptData, rewritten: any[]): ScriptData {
+    const lastIndex = Number(rewritten[rewritten.length - 1]?.scene_index);
+    const cut = (currentData.scenes.findIndex(s => s.scene_index === lastIndex) + 1) || Math.min(rewritten.length, currentData.scenes.length);
+
+    const opening = enforceScenePacing({ meta: currentData.meta, global_style: currentData.global_style, scenes: rewritten }).scenes;
+    const rest = currentData.scenes.slice(cut).map((scene, i) => ({ ...scene, scene_index: opening.length + i + 1 }));
+
+    // Asset file names come from base_id: a renumbered opening must not collide with a kept scene
+    const taken = new Set(rest.map(s => s.assets.base_id));
+    const uniqueOpening = opening.map(scene => {
+        if (!taken.has(scene.assets.base_id)) return scene;
+        const baseId = `${scene.assets.base_id}_rw`;
+        return {
+            ...scene,
+            assets: {
+                ...scene.assets,
+                base_id: baseId,
+                audio_filename: scene.assets.audio_filename.replace(scene.assets.base_id, baseId),
+                visual_filename: scene.assets.visual_filename.replace(scene.assets.base_id, baseId),
+                subtitle_filename: scene.assets.subtitle_filename.replace(scene.assets.base_id, baseId)
+            }
+        };
+    });
+
+    return { ...currentData, scenes: [...uniqueOpening, ...rest] };
+}
+
+/** Whole-script rewrite, streamed like generatePerfectScript (stopping keeps the rewritten scenes so far, then the rest as it was) */
+export const rewriteScript = async (
+    currentData: ScriptData,
+    mode: 'longer' | 'shorter',
+    onProgress: (msg: string) => void,
+    options?: ScriptStreamOptions
+): Promise<ScriptData> => {
+    const stream = createSceneStream(options);
     try {
         onProgress(mode === 'longer' ? "내용을 확장하고 있습니다..." : "내용을 요약하고 있습니다...");
-        quotaManager.increment(model);
 
         const systemPrompt = `You are a professional Script Editor. REWRITE JSON script. MODE: ${mode}. Keep JSON structure.`;
 
-        const response = await ai.models.generateContent({
-            model,
-            contents: `ORIGINAL JSON DATA: ${JSON.stringify(currentData)}`,
-            config: { responseMimeType: "application/json", systemInstruction: systemPrompt, safetySettings: SAFETY_SETTINGS }
-        });
-        quotaManager.updateModelStatus('Idle');
-
-        const rawData = parseJSONSafely(response.text!);
-        if (!rawData) throw new Error("Failed to rewrite script");
+        const rawData = await requestLongForm<any>('rewrite', SCRIPT_PACKAGE_SCHEMA, (responseSchema, continuation, streaming) => invoke('json', {
+            task: 'rewrite',
+            prompt: withContinuation(`ORIGINAL JSON DATA: ${JSON.stringify(currentData)}`, continuation),
+            systemInstruction: systemPrompt,
+            responseSchema,
+            ...streaming
+        }), stream);
 
         onProgress("대본 검수 및 컷 분할 중...");
         return enforceScenePacing(rawData);
     } catch (error: any) {
+        if (stream.cancelled) {
+            if (stream.scenes().length > 0) return mergeRewrittenOpening(currentData, stream.scenes());
+            throw new GenerationCancelledError();
+        }
         quotaManager.updateModelStatus('Error');
-        const apiError = checkForApiError(error);
-        if (apiError) throw new Error(apiError);
-        throw error;
+        throw classifyError(error);
+    }
+};
+
+// --- SCENE REWRITE ---
+
+export interface SceneRewrite {
+    scene_index: number;
+    scripts: Scene['scripts'];
+    visual_prompt: string;
+}
+
+const describeContextScene = (scene?: Scene) => scene ? `#${scene.scene_index} ${scene.scripts.narration}` : '(none)';
+
+/**
+ * Rewrites a contiguous range of scenes with a free-text instruction (e.g. "더 극적으로").
+ * Only the selected scenes and their neighbours are sent; the caller merges the answers back,
+ * so every other scene keeps its text and assets.
+ */
+export const rewriteScenes = async (data: ScriptData, sceneIndices: number[], instruction: string): Promise<SceneRewrite[]> => {
+    const positions = sceneIndices.map(index => data.scenes.findIndex(s => s.scene_index === index)).filter(i => i >= 0).sort((a, b) => a - b);
+    if (positions.length === 0) throw new Error("No scenes selected");
+    const selected = positions.map(i => data.scenes[i]);
+
+    try {
+        const result = await requestStructured<{ scenes: any[] }>('scene-rewrite', sceneRewriteSchema(selected.length), responseSchema => invoke('json', {
+            task: 'scene-rewrite',
+            prompt: [
+                `INSTRUCTION: "${instruction}"`,
+                `SCRIPT TITLE: "${data.meta.title}"`,
+                `CONTEXT BEFORE: ${describeContextScene(data.scenes[positions[0] - 1])}`,
+                `SCENES TO REWRITE:\n${JSON.stringify(selected.map(s => ({
+                    scene_index: s.scene_index,
+                    step_phase: s.step_phase,
+                    scripts: s.scripts,
+                    visual_prompt: s.prompts.visual_prompt
+                })))}`,
+                `CONTEXT AFTER: ${describeContextScene(data.scenes[positions[positions.length - 1] + 1])}`
+            ].join('\n\n'),
+            systemInstruction: SCENE_REWRITE_SYSTEM_INSTRUCTION,
+            responseSchema
+        }));
+
+        // Matched by position: a renumbered answer must not overwrite a scene outside the selection
+        return selected.map((scene, i) => {
+            const raw = result.scenes[i];
+            const narration = String(raw.scripts.narration || '').trim();
+            if (!narration) throw new InvalidResponseError(`Empty narration for scene #${scene.scene_index}`);
+            return {
+                scene_index: scene.scene_index,
+                scripts: {
+                    narration,
+                    tts_text: raw.scripts.tts_text || narration,
+                    subtitles: Array.isArray(raw.scripts.subtitles) ? raw.scripts.subtitles : [],
+                    voice_tone: toVoiceTone(raw.scripts.voice_tone || scene.scripts.voice_tone)
+                },
+                visual_prompt: String(raw.visual_prompt || '').trim() || scene.prompts.visual_prompt
+            };
+        });
+    } catch (error: any) {
+        quotaManager.updateModelStatus('Error');
+        throw classifyError(error);
     }
 };
 
 export const fetchTrendingTopics = async (category: string): Promise<FetchTopicsResult> => {
-    const model = 'gemini-2.5-flash';
     const timestamp = new Date().toISOString();
     const combinedQuery = `Latest breaking news AND interesting mystery/shocking truths in ${category} (last 48h)`;
     
     try {
-        quotaManager.increment(model);
-        const searchRes = await ai.models.generateContent({
-            model, 
-            contents: `Context: ${timestamp}. Query: "${combinedQuery}". Find 6 diverse topics. Format: Title|Context|URL`,
-            config: { tools: [{ googleSearch: {} }] }
+        const searchRes = await invoke('text', {
+            task: 'topic-search',
+            prompt: `Context: ${timestamp}. Query: "${combinedQuery}". Find 6 diverse topics. Format: Title|Context|URL`,
+            useSearch: true
         });
         
         await wait(6000);
 
-        let parseRes;
+        const parseTopics = (prompt: string) =>
+            requestStructured<any[]>('topics', TOPICS_SCHEMA, responseSchema => invoke('json', { task: 'topics', prompt, responseSchema }));
+
+        let items: any[];
         try {
-            quotaManager.increment(model);
-            parseRes = await ai.models.generateContent({
-                model, 
-                contents: `Analyze search results. Extract 6 topics (breaking/viral). Return JSON array: title, context, url, type. Text: ${searchRes.text || "No results"}`,
-                config: { responseMimeType: "application/json" }
-            });
+            items = await parseTopics(`Analyze search results. Extract 6 topics (breaking/viral). Return JSON array: title, context, url, type. Text: ${searchRes.text || "No results"}`);
         } catch (err: any) {
-            const msg = err.toString().toLowerCase();
             // Retry only if it's RPM, NOT quota
-            if (msg.includes('429') && !msg.includes('quota')) {
-                await wait(6000);
-                quotaManager.increment(model);
-                parseRes = await ai.models.generateContent({
-                    model,
-                    contents: `Analyze search results. Extract 6 topics. Return JSON array. Text: ${searchRes.text}`,
-                    config: { responseMimeType: "application/json" }
-                });
+            if (err instanceof RateLimitedError) {
+                await wait(Math.max(6000, err.retryAfterMs || 0));
+                items = await parseTopics(`Analyze search results. Extract 6 topics. Return JSON array. Text: ${searchRes.text}`);
             } else {
                 throw err;
             }
         }
-
-        quotaManager.updateModelStatus('Idle');
-        const items = JSON.parse(parseRes!.text!) as any[];
         
         const topics: TopicItem[] = items.map(i => ({
             title: i.title, 
@@ -325,64 +680,36 @@ export const fetchTrendingTopics = async (category: string): Promise<FetchTopics
             url: (i.url && !i.url.includes('grounding') && !i.url.startsWith('/')) ? i.url : ""
         }));
 
-        if (topics.length === 0) throw new Error("No topics parsed");
+        if (topics.length === 0) throw new InvalidResponseError("No topics parsed");
         return { topics };
 
     } catch (e) {
         quotaManager.updateModelStatus('Error');
-        return { topics: [], error: checkForApiError(e) || "Failed to fetch topics" };
+        return { topics: [], error: classifyError(e).userMessage };
     }
 };
 
 // [CRITICAL UPDATE] Now throws errors instead of returning empty strings
 export const generateImage = async (prompt: string, layout: LayoutType = 'SINGLE'): Promise<string> => {
-  const model = 'gemini-2.5-flash-image';
   try {
-    quotaManager.increment(model);
-    const parts: any[] = [];
-    if (layout !== 'SINGLE') {
-        const layoutBase64 = generateLayoutBase64(layout);
-        const base64Data = layoutBase64.split(',')[1];
-        parts.push({ inlineData: { mimeType: 'image/png', data: base64Data } });
-        parts.push({ text: `Fill panels. Content: ${prompt}` });
-    } else {
-        parts.push({ text: `Prompt: ${prompt}` });
-    }
-
-    const response = await ai.models.generateContent({
-      model: model, contents: { parts: parts }, config: { safetySettings: SAFETY_SETTINGS }
-    });
-    
-    quotaManager.updateModelStatus('Idle');
-    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data 
-        ? `data:image/png;base64,${response.candidates[0].content.parts[0].inlineData.data}` 
-        : "";
+    const result = layout !== 'SINGLE'
+        ? await invoke('image', { task: 'image', prompt: `Fill panels. Content: ${prompt}`, layout, layoutGuide: generateLayoutBase64(layout) })
+        : await invoke('image', { task: 'image', prompt: `Prompt: ${prompt}`, layout });
+    return result.dataUrl;
   } catch (error: any) { 
     quotaManager.updateModelStatus('Error');
-    const apiError = checkForApiError(error);
-    if (apiError) throw new Error(apiError);
-    throw error;
+    throw classifyError(error);
   }
 };
 
 // [NEW] Specialized Thumbnail Generator
 export const generateThumbnail = async (prompt: string): Promise<string> => {
-  const model = 'gemini-2.5-flash-image';
   try {
-    quotaManager.increment(model);
     // Enhance prompt for thumbnail
     const enhancedPrompt = `YouTube thumbnail, high quality, 16:9 aspect ratio, eye-catching, vibrant colors, dynamic composition, dramatic lighting, detailed background. Context: ${prompt}`;
     
-    const response = await ai.models.generateContent({
-      model: model, 
-      contents: { parts: [{ text: enhancedPrompt }] }, 
-      config: { safetySettings: SAFETY_SETTINGS }
-    });
-    
-    quotaManager.updateModelStatus('Idle');
-    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data 
-        ? `data:image/png;base64,${response.candidates[0].content.parts[0].inlineData.data}` 
-        : "";
+    const result = await invoke('image', { task: 'thumbnail', prompt: enhancedPrompt });
+    return result.dataUrl;
   } catch (error: any) { 
     quotaManager.updateModelStatus('Error');
     // Log but don't throw to avoid breaking the flow if it's just thumbnail
@@ -393,51 +720,29 @@ export const generateThumbnail = async (prompt: string): Promise<string> => {
 
 // [CRITICAL UPDATE] Now throws errors instead of returning empty strings
 export const generateSpeech = async (text: string, tone: string): Promise<string> => {
-  const model = 'gemini-2.5-flash-preview-tts';
   try {
-    quotaManager.increment(model);
-    const response = await ai.models.generateContent({
-      model: model, 
-      contents: { parts: [{ text: text }] },
-      config: { responseModalities: [Modality.AUDIO], speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } } },
-    });
-    quotaManager.updateModelStatus('Idle');
-    if (response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data) {
-        const pcmBase64 = response.candidates[0].content.parts[0].inlineData.data;
-        const wavBase64 = pcmToWavBase64(pcmBase64);
-        return `data:audio/wav;base64,${wavBase64}`;
-    }
-    return "";
+    const result = await invoke('speech', { task: 'speech', text, voice: 'Kore', tone });
+    return result.dataUrl;
   } catch (error: any) { 
     quotaManager.updateModelStatus('Error');
-    const apiError = checkForApiError(error);
-    if (apiError) throw new Error(apiError);
-    throw error;
+    throw classifyError(error);
   }
 };
 
 // [CRITICAL UPDATE] Now throws errors instead of returning default
-export const inspectImage = async (base64Image: string): Promise<any> => {
-  const model = 'gemini-2.5-flash';
+export const inspectImage = async (base64Image: string): Promise<InspectionData> => {
   try {
-    quotaManager.increment(model);
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: {
-        parts: [
-          { inlineData: { mimeType: 'image/png', data: base64Image.split(',')[1] } },
-          { text: `Analyze layout. Return JSON.` }
-        ]
-      },
-      config: { responseMimeType: "application/json" }
-    });
-    quotaManager.updateModelStatus('Idle');
-    return parseJSONSafely(response.text!);
+    return await requestStructured<InspectionData>('inspection', INSPECTION_SCHEMA, responseSchema => invoke('vision', {
+      task: 'inspection',
+      imageDataUrl: base64Image,
+      prompt: `Analyze layout. Return JSON.`,
+      json: true,
+      responseSchema
+    }));
   } catch (error: any) { 
     quotaManager.updateModelStatus('Error');
-    const apiError = checkForApiError(error);
-    if (apiError) throw new Error(apiError);
-    return { detected_layout: 'SINGLE', panel_count: 1 }; 
+    // The pipeline records the failure on the scene instead of inventing inspection data
+    throw classifyError(error);
   }
 };
 
@@ -448,14 +753,7 @@ let veoApiAvailable: boolean | null = null;
 export const checkVeoAvailability = async (): Promise<boolean> => {
   if (veoApiAvailable !== null) return veoApiAvailable;
 
-  // Simple test call with flash model to check if key is valid generally,
-  // then we assume if key is valid for flash, we might try video. 
-  // But actually, we should try a dry run or just allow failure to trigger fallback.
-  // For now, we'll assume it's FALSE for safety in this demo context, 
-  // BUT the user asked to implement the logic. 
-  // Let's return TRUE initially to attempt it, and catch the error to switch to false.
-  // However, Veo is distinct. Let's try to check the model list or just default to true and handle error.
-  // Better approach: Default to true, and if 404/403/400 on video gen, flip to false.
+  // Default to true, and if the provider rejects video generation, flip to false.
   veoApiAvailable = true; 
   return true;
 };
@@ -464,59 +762,31 @@ export const generateVideo = async (imageUrl: string, motionStrength: number, du
   // Prerequisite check
   if (veoApiAvailable === false) return "";
 
-  const model = 'veo-3.1-fast-generate-preview'; // Or appropriate Veo model
   try {
-    quotaManager.increment(model);
-    
-    // NOTE: This is a pseudo-implementation as actual Veo via REST/SDK might differ slightly
-    // but follows the provided guidelines for `generateVideos` if available.
-    // Since @google/genai SDK supports models.generateVideos, we use it.
-    
-    // However, for this specific request, we need to return empty string on failure WITHOUT throw.
-    
-    /* 
-       MOCK IMPLEMENTATION FOR SAFETY: 
-       Real Veo requires paid tier. To prevent crashing free tier users, 
-       we will simulate a failure here unless specific env var is set, 
-       OR we try and catch.
-    */
-    
-    // Actual API Call attempt:
-    /*
-    const operation = await ai.models.generateVideos({
-        model: model,
-        image: {
-            imageBytes: imageUrl.split(',')[1],
-            mimeType: 'image/png'
-        },
-        prompt: `Cinematic shot, motion strength ${motionStrength}`,
-        config: {
-            numberOfVideos: 1,
-            aspectRatio: '16:9',
-            resolution: '720p'
-        }
+    const result = await invoke('video', {
+      task: 'video',
+      imageDataUrl: imageUrl,
+      prompt: `Cinematic shot, motion strength ${motionStrength}`,
+      motionStrength,
+      durationSeconds: duration
     });
-    // ... polling logic ...
-    */
-
-    // FOR NOW: Immediately return empty to trigger fallback logic as requested by "Veo API is not free".
-    // If you have a paid key, uncomment logic above.
-    throw new Error("Veo API unavailable in free tier");
-
+    return result.dataUrl;
   } catch (error: any) {
+    const classified = classifyError(error);
+    quotaManager.updateModelStatus('Error');
+    // Quota/budget stops must reach the pipeline instead of turning into a 2x2 grid (four more image calls)
+    if (classified.kind === 'quota' || classified.kind === 'budget') throw classified;
+
     console.warn("Veo Video Generation Failed (Expected for free tier):", error.message);
-    // Disable Veo for subsequent attempts in this session
-    veoApiAvailable = false;
-    quotaManager.updateModelStatus('Error'); 
+    // Unavailable / not permitted (free tier, no access): disable Veo for this session.
+    // A busy server or a dropped connection only falls back for this scene.
+    if (!classified.retryable) veoApiAvailable = false;
     return "";
   }
 };
 
 export const splitNarrationInto4Cuts = async (narration: string, visualPrompt: string): Promise<Cut[]> => {
-  const model = 'gemini-2.5-flash';
   try {
-    quotaManager.increment(model);
-    
     const prompt = `
     Task: Split this narration into 4 distinct sequential cuts for a 2x2 grid layout video storyboard.
     Input Narration: "${narration}"
@@ -531,24 +801,12 @@ export const splitNarrationInto4Cuts = async (narration: string, visualPrompt: s
     Output JSON format: Array of objects { "cut_no": number, "narration": string, "visual_detail": "Panel X: description" }
     `;
 
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
-      config: { 
-        responseMimeType: "application/json", 
-        temperature: 0.3 
-      }
-    });
-    
-    quotaManager.updateModelStatus('Idle');
-    const raw = parseJSONSafely(response.text!);
-    
-    if (Array.isArray(raw) && raw.length === 4) {
-        return raw as Cut[];
-    }
-    throw new Error("Invalid split result");
+    // Exactly 4 cuts is part of the schema, so a wrong count goes through repair too
+    return await requestStructured<Cut[]>('split-cuts', CUTS_SCHEMA, responseSchema =>
+        invoke('json', { task: 'split-cuts', prompt, temperature: 0.3, responseSchema }));
 
   } catch (error) {
+    if (error instanceof AIError && error.fatal) throw error;
     console.warn("AI Split failed, using fallback");
     return fallbackSplitNarration(narration);
   }
@@ -594,26 +852,20 @@ const fallbackSplitNarration = (narration: string): Cut[] => {
 };
 
 export const generateScriptFromRawText = async (rawText: string, onProgress: (msg: string) => void): Promise<ScriptData> => {
-    const model = 'gemini-2.5-flash';
     try {
         onProgress("원고를 분석하고 씬을 나누는 중입니다... (각색 모드)");
-        quotaManager.increment(model);
-        const response = await ai.models.generateContent({
-            model,
-            contents: `RAW SCRIPT: ${rawText}`,
-            config: { responseMimeType: "application/json", systemInstruction: ADAPTATION_SYSTEM_INSTRUCTION, safetySettings: SAFETY_SETTINGS }
-        });
-        quotaManager.updateModelStatus('Idle');
-        const rawData = parseJSONSafely(response.text!);
-        if (!rawData) throw new Error("AI failed to parse the script.");
+        const rawData = await requestLongForm<any>('adaptation', SCRIPT_PACKAGE_SCHEMA, (responseSchema, continuation) => invoke('json', {
+            task: 'adaptation',
+            prompt: withContinuation(`RAW SCRIPT: ${rawText}`, continuation),
+            systemInstruction: ADAPTATION_SYSTEM_INSTRUCTION,
+            responseSchema
+        }));
         onProgress("컷 최적화 및 데이터 정규화 중...");
         const finalScript = enforceScenePacing(rawData);
         return { ...finalScript, meta: { ...finalScript.meta, timestamp: Date.now() } };
     } catch (error: any) {
         quotaManager.updateModelStatus('Error');
-        const apiError = checkForApiError(error);
-        if (apiError) throw new Error(apiError);
-        throw error;
+        throw classifyError(error);
     }
 };
 
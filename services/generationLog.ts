@@ -0,0 +1,105 @@
+import { get, update } from 'idb-keyval';
+import { GenerationLogEntry, GenerationLogStage, GenerationInputs, QuotaCounters } from '../types';
+import { generationLogKey } from './projectLibrary';
+import { resolveCapability, Capability } from './providers';
+import { classifyError } from './aiErrors';
+import { quotaManager } from '../utils/quotaManager';
+
+// --- GENERATION AUDIT LOG ---
+// Every provider call made for a scene asset is appended here (never edited or pruned while the
+// project exists), so any image or clip can be traced back to the prompt, model and attempt that made it.
+
+export interface GenerationContext {
+  project_id?: string; // Unsaved projects are not logged
+  scene_index: number;
+  stage: GenerationLogStage;
+  source: GenerationLogEntry['source'];
+  capability: Capability;
+  inputs: GenerationInputs;
+  attempt?: number;
+  waited_ms?: number;
+  replaced_asset_id?: string;
+}
+
+const createEntryId = () =>
+  `log_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const quotaCounters = (): QuotaCounters => {
+  const { count, modelCounts } = quotaManager.getStats();
+  return { total: count, ...modelCounts };
+};
+
+async function appendEntry(entry: GenerationLogEntry): Promise<void> {
+  try {
+    await update<GenerationLogEntry[]>(generationLogKey(entry.project_id), (old) => [...(old || []), entry]);
+    window.dispatchEvent(new CustomEvent('generation-log-update', { detail: { projectId: entry.project_id, sceneIndex: entry.scene_index } }));
+  } catch (err) {
+    // The log is diagnostic only; a failed write must never fail the generation itself
+    console.error('[GenerationLog] Append Failed', err);
+  }
+}
+
+/**
+ * Runs one provider call and records it. `run` should include ingesting the result so
+ * `assetIdOf` can link the entry to the stored asset. Errors are logged and rethrown unchanged.
+ */
+export async function logGeneration<T>(
+  context: GenerationContext,
+  run: () => Promise<T>,
+  assetIdOf?: (value: T) => string | undefined
+): Promise<T> {
+  if (!context.project_id) return run();
+
+  const { provider, model } = resolveCapability(context.capability);
+  const base = {
+    id: createEntryId(),
+    project_id: context.project_id,
+    scene_index: context.scene_index,
+    stage: context.stage,
+    source: context.source,
+    attempt: context.attempt ?? 1,
+    waited_ms: context.waited_ms ?? 0,
+    provider: provider.id,
+    model,
+    inputs: context.inputs,
+    replaced_asset_id: context.replaced_asset_id,
+    quota_before: quotaCounters(),
+    started_at: Date.now()
+  };
+
+  try {
+    const value = await run();
+    await appendEntry({
+      ...base,
+      duration_ms: Date.now() - base.started_at,
+      outcome: value ? 'success' : 'empty',
+      asset_id: value && assetIdOf ? assetIdOf(value) : undefined,
+      quota_after: quotaCounters()
+    });
+    return value;
+  } catch (error) {
+    const aiError = classifyError(error);
+    await appendEntry({
+      ...base,
+      duration_ms: Date.now() - base.started_at,
+      outcome: 'failed',
+      error_kind: aiError.kind,
+      error_message: aiError.message,
+      quota_after: quotaCounters()
+    });
+    throw error;
+  }
+}
+
+export async function getProjectLog(projectId: string): Promise<GenerationLogEntry[]> {
+  try {
+    return await get<GenerationLogEntry[]>(generationLogKey(projectId)) || [];
+  } catch (err) {
+    console.error('[GenerationLog] Load Failed', err);
+    return [];
+  }
+}
+
+export async function getSceneLog(projectId: string, sceneIndex: number): Promise<GenerationLogEntry[]> {
+  return (await getProjectLog(projectId)).filter(e => e.scene_index === sceneIndex);
+}
@@ -1,240 +1,211 @@
-import { get, set } from 'idb-keyval';
-import { ScriptData, Scene } from '../types';
-import { 
-    generateImage, 
-    generateSpeech, 
-    inspectImage, 
-    generateVideo, 
-    checkVeoAvailability, 
-    splitNarrationInto4Cuts 
+import { ScriptData } from '../types';
+import {
+    generateImage,
+    generateSpeech,
+    inspectImage,
+    generateVideo,
+    checkVeoAvailability,
+    splitNarrationInto4Cuts
 } from './geminiService';
-
-const DB_KEY = 'current_project';
-
-export async function saveToIndexedDB(data: ScriptData): Promise<ScriptData> {
-  try {
-    const dataWithTimestamp = { ...data, meta: { ...data.meta, timestamp: Date.now() } };
-    await set(DB_KEY, dataWithTimestamp);
-    return dataWithTimestamp;
-  } catch (err) {
-    console.error('[Pipeline] Save Failed', err);
-    return data;
-  }
-}
-
-export async function loadProject(): Promise<ScriptData | null> {
-  try {
-    return await get<ScriptData>(DB_KEY) || null;
-  } catch (err) {
-    return null;
-  }
-}
-
-// --- HELPER: Wait function ---
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-// --- HELPER: Smart Retry Executor (Exponential Backoff) ---
-async function runWithRetry<T>(
-  fn: () => Promise<T>, 
-  retries = 3, 
-  baseDelay = 4000
-): Promise<T | null> {
-  try {
-    return await fn();
-  } catch (error: any) {
-    const msg = error.message ? error.message.toLowerCase() : error.toString().toLowerCase();
-
-    // [CRITICAL FIX] Stop retries if Daily Quota is exceeded (Checking Korean & English)
-    if (msg.includes("quota exceeded") || msg.includes("exceeded quota") || msg.includes("할당량") || msg.includes("quota")) {
-        console.error("❌ Daily Quota Exceeded. Stopping retries.");
-        throw error; // Re-throw to stop pipeline immediately
-    }
-
-    // Retry only on specific transient errors (Rate Limit, Server Error)
-    if (retries > 0 && (msg.includes("429") || msg.includes("resource_exhausted") || msg.includes("503") || msg.includes("속도"))) {
-      console.warn(`⚠️ API Overload detected! Cooling down for ${baseDelay/1000}s... (Retries left: ${retries})`);
-      await wait(baseDelay);
-      // Double the delay for the next attempt
-      return runWithRetry(fn, retries - 1, baseDelay * 2);
+import { saveToIndexedDB, hydrateProject } from './projectLibrary';
+import { readAssetAsDataUrl } from './assetStore';
+import { getSettings } from './settings';
+import { jobScheduler, JOB_PRIORITY, estimateTokens } from './scheduler';
+import { AIError } from './aiErrors';
+import { logGeneration } from './generationLog';
+import { markRunActive, markRunFinished } from './pipelineRuns';
+import { runConstruction, ConstructionEnv, PipelineRunSummary } from './construction';
+import { getPipelineWorker, onWorkerMessage, storeDataUrl } from './workerClient';
+import {
+    MainToWorkerMessage, PipelineJob, PipelineJobRequest, PipelineJobResults, PipelineProgress, SerializedRunSummary,
+    serializeError, deserializeError
+} from './workerProtocol';
+
+export { listSceneFailures, withoutFailure, invalidateSceneAssets } from './construction';
+export type { SceneFailure, PipelineRunSummary } from './construction';
+
+// --- ASSET PIPELINE (main-thread side) ---
+// The construction loop runs in the pipeline worker; this side executes the provider calls it asks
+// for (through the shared scheduler, with generation logging), hydrates and saves the scene updates
+// it streams back, and forwards stop requests.
+//
+// LIMIT: only the loop's own timers live in the worker. Provider calls need the main thread (settings,
+// quota and usage live in localStorage and window events), so the scheduler's pump/back-off timers and
+// the stop relay below still run here and are still throttled in a background tab. Keep the tab in
+// the foreground (or in its own window) for full speed on long runs.
+
+const STOP_POLL_MS = 250;
+
+async function performJob(request: PipelineJobRequest): Promise<unknown> {
+  switch (request.kind) {
+    case 'image':
+      return { asset_id: await storeDataUrl(await generateImage(request.prompt, request.layout)) };
+    case 'inspection':
+      return inspectImage(await readAssetAsDataUrl(request.asset_id, request.url));
+    case 'video': {
+      const url = await generateVideo(
+        await readAssetAsDataUrl(request.asset_id, request.url),
+        request.motion_strength,
+        request.duration_seconds
+      );
+      // Inline clips go to the asset store, remote URLs are kept as-is
+      return url.startsWith('data:') ? { url: '', asset_id: await storeDataUrl(url) } : { url };
     }
-    
-    console.error("❌ API Request Final Failure:", error);
-    // If it's not a retry-able error or retries exhausted, return null (skip this asset)
-    // But if it was a Quota error, we threw above.
-    return null;
+    case 'split':
+      return splitNarrationInto4Cuts(request.narration, request.visual_prompt);
+    case 'speech':
+      return { asset_id: await storeDataUrl(await generateSpeech(request.text, request.voice_tone)) };
   }
 }
 
+const toSummary = (summary: SerializedRunSummary): PipelineRunSummary => ({
+  ...summary,
+  error: summary.error ? deserializeError(summary.error) as AIError : undefined
+});
+
 /**
- * CONSTRUCTION PHASE
- * Mechanical loop: Check Missing -> Generate -> Save -> Repeat
- * Enhanced with Smart Retry and Rate Limiting for long-form content.
+ * CONSTRUCTION PHASE (see services/construction.ts for the per-scene tracks).
+ * Stages that still fail are recorded on the scene (`failures`) and listed in the returned summary.
+ * `onlyScenes` limits the run to those scene indices (used by the Dashboard retry and resume buttons).
+ * Progress is checkpointed in a persisted run record so an interrupted run can be resumed after a reload.
  */
 export async function executeAssetGeneration(
-  projectData: ScriptData, 
+  projectData: ScriptData,
   onUpdate: (updatedData: ScriptData) => void,
-  stopSignal: { stopped: boolean }
-): Promise<void> {
-  
-  const scenes = [...projectData.scenes];
-  
-  // Initialize Veo availability once per run
-  const veoAvailable = await checkVeoAvailability();
-
-  for (let i = 0; i < scenes.length; i++) {
-    if (stopSignal.stopped) break;
-
-    const scene = scenes[i];
-    let isDirty = false;
-
-    console.log(`[Construction] Building Scene ${scene.scene_index}...`);
-
-    // 1. Brick Laying (Image) - Wrapped with Retry
-    // We always generate a base image first (even for video, it acts as the start frame)
-    if (!scene.progress_status.is_image_generated) {
-        // Decide layout based on current plan (VIDEO type usually starts as SINGLE then might switch to GRID_2X2 on fallback)
-        const layoutToUse = scene.planned_layout;
-
-        const img = await runWithRetry(() => 
-            generateImage(scene.prompts.visual_prompt, layoutToUse)
-        );
-        
-        if (img) {
-            scenes[i] = {
-                ...scenes[i],
-                assets: { ...scenes[i].assets, visual_url: img },
-                progress_status: { ...scenes[i].progress_status, is_image_generated: true }
-            };
-            isDirty = true;
-        }
-    }
-    
-    if (stopSignal.stopped) break;
-
-    // 2. Safety Check (Inspection) - Wrapped with Retry
-    if (scenes[i].progress_status.is_image_generated && !scenes[i].progress_status.is_image_inspected) {
-        const inspection = await runWithRetry(() => 
-            inspectImage(scenes[i].assets.visual_url!)
-        );
-        
-        scenes[i] = {
-            ...scenes[i],
-            inspection_data: inspection || { detected_layout: 'SINGLE', panel_count: 1, description: 'Auto-inspection failed' },
-            progress_status: { ...scenes[i].progress_status, is_image_inspected: true }
-        };
-        isDirty = true;
+  stopSignal: { stopped: boolean },
+  options: { onlyScenes?: number[]; resumedFrom?: string; onProgress?: (progress: PipelineProgress) => void } = {}
+): Promise<PipelineRunSummary> {
+
+  const group = `pipeline_${projectData.project_id || 'draft'}_${Date.now()}`;
+
+  // A fatal error (e.g. daily quota) also drops this run's jobs still queued in the scheduler
+  let fatalSeen = false;
+  const runSignal = { get stopped() { return stopSignal.stopped || fatalSeen; } };
+
+  const runJob = async <R extends PipelineJobRequest>(job: PipelineJob<R>): Promise<PipelineJobResults[R['kind']]> => {
+    try {
+      return await jobScheduler.submit({
+        label: job.label,
+        capability: job.capability,
+        group,
+        priority: JOB_PRIORITY.NORMAL + job.order,
+        estimatedTokens: estimateTokens(job.capability, job.inputs.prompt || job.inputs.text || ''),
+        signal: runSignal
+      }, () => logGeneration({
+        project_id: projectData.project_id,
+        scene_index: job.scene_index,
+        stage: job.stage,
+        source: 'pipeline',
+        capability: job.capability,
+        inputs: job.inputs,
+        attempt: job.attempt,
+        waited_ms: job.waited_ms
+      }, () => performJob(job.request), (value: any) => value?.asset_id)) as PipelineJobResults[R['kind']];
+    } catch (error) {
+      // Budget: pause through the caller's stop flag (Dashboard explains why); other fatal errors abort
+      if (error instanceof AIError && error.kind === 'budget') stopSignal.stopped = true;
+      else if (error instanceof AIError && error.fatal) fatalSeen = true;
+      throw error;
     }
+  };
+
+  // Updates carry asset IDs only: resolve display URLs, then save. Chained so they apply in order.
+  let updateChain: Promise<unknown> = Promise.resolve();
+  const applyUpdate = (data: ScriptData) => {
+    updateChain = updateChain
+      .then(async () => {
+        const hydrated = await hydrateProject(data);
+        onUpdate(hydrated);
+        await saveToIndexedDB(hydrated);
+      })
+      .catch(e => console.error("Save failed", e));
+  };
+
+  const env: Omit<ConstructionEnv, 'runJob'> = {
+    onUpdate: applyUpdate,
+    onProgress: options.onProgress,
+    stopSignal,
+    sceneDelayMs: getSettings().sceneDelayMs,
+    veoAvailable: await checkVeoAvailability()
+  };
+
+  // Falls back to the main thread when the worker cannot start (see getPipelineWorker)
+  const worker = await getPipelineWorker();
+  const summary = worker
+    ? await runInWorker(worker, projectData, env, runJob, options)
+    : await runConstruction(projectData, { ...env, runJob }, options);
+
+  await updateChain;
+  return summary;
+}
 
-    if (stopSignal.stopped) break;
-
-    // 3. [NEW] Video Generation or 2x2 Grid Fallback
-    // Only applies if it's a 'video' type scene and we haven't finalized a video or grid yet
-    if (scenes[i].type === 'video' && scenes[i].progress_status.is_image_generated && !scenes[i].progress_status.is_video_generated) {
-        
-        // Strategy: Try Video -> If Fail/Unavailable -> Split Narration -> Generate 2x2 Grid -> Update Scene
-        
-        let videoUrl = "";
-        if (veoAvailable) {
-             videoUrl = await generateVideo(
-                 scenes[i].assets.visual_url!, 
-                 scenes[i].prompts.motion_strength,
-                 scenes[i].duration_prediction
-             );
-        }
-
-        if (videoUrl) {
-            // Video Success
-            scenes[i] = {
-                ...scenes[i],
-                assets: { 
-                    ...scenes[i].assets, 
-                    visual_url: videoUrl, 
-                    visual_filename: scenes[i].assets.visual_filename.replace('.png', '.mp4') 
-                },
-                progress_status: { ...scenes[i].progress_status, is_video_generated: true }
-            };
-            console.log(`[Construction] Scene ${i+1}: Video Generated`);
-            isDirty = true;
-
-        } else {
-            // Fallback: 2x2 Grid + Cut Splitting
-            console.warn(`[Construction] Scene ${i+1}: Video unavailable/failed. Falling back to 2x2 Grid.`);
-
-            // A. Split Narration
-            const cuts = await runWithRetry(() => 
-                splitNarrationInto4Cuts(scenes[i].scripts.narration, scenes[i].prompts.visual_prompt)
-            ) || [];
-
-            if (cuts.length > 0) {
-                 // B. Create Grid Prompt
-                 const gridPrompt = `${scenes[i].prompts.visual_prompt}
-                 
-                 [2x2 GRID LAYOUT - Storyboard Mode]
-                 Panel 1 (Top-Left): ${cuts[0]?.visual_detail || 'Opening shot'}
-                 Panel 2 (Top-Right): ${cuts[1]?.visual_detail || 'Development'}
-                 Panel 3 (Bottom-Left): ${cuts[2]?.visual_detail || 'Climax'}
-                 Panel 4 (Bottom-Right): ${cuts[3]?.visual_detail || 'Conclusion'}
-                 
-                 Style: Consistent continuous storytelling in 4 panels.`;
-
-                 // C. Generate 2x2 Image
-                 const gridImg = await runWithRetry(() => 
-                    generateImage(gridPrompt, 'GRID_2X2')
-                 );
-
-                 if (gridImg) {
-                     scenes[i] = {
-                         ...scenes[i],
-                         type: 'image', // Downgrade type to image effectively
-                         planned_layout: 'GRID_2X2',
-                         narration_full: scenes[i].scripts.narration, // Backup full narration
-                         cuts: cuts, // Store the split
-                         assets: { ...scenes[i].assets, visual_url: gridImg },
-                         progress_status: { ...scenes[i].progress_status, is_video_generated: false } // Mark as done via fallback
-                     };
-                     isDirty = true;
-                     console.log(`[Construction] Scene ${i+1}: Fallback 2x2 Grid Generated`);
-                 }
-            }
-        }
-    }
-
-    if (stopSignal.stopped) break;
-
-    // 4. Cement Mixing (Audio) - Wrapped with Retry
-    if (!scenes[i].progress_status.is_audio_generated) {
-        
-        // If we split into cuts, we still generate one audio file for the whole narration
-        // because syncing 4 audio files to 1 image is complex.
-        // We use tts_text or narration_full or narration.
-        const textToRead = scenes[i].scripts.tts_text || scenes[i].narration_full || scenes[i].scripts.narration;
-
-        const audio = await runWithRetry(() => 
-            generateSpeech(textToRead, scenes[i].scripts.voice_tone)
-        );
-        
-        if (audio) {
-            scenes[i] = {
-                ...scenes[i],
-                assets: { ...scenes[i].assets, audio_url: audio },
-                progress_status: { ...scenes[i].progress_status, is_audio_generated: true }
-            };
-            isDirty = true;
-        }
-    }
-
-    // Save Progress if we built anything in this scene
-    if (isDirty) {
-        const newData = { ...projectData, scenes };
-        onUpdate(newData);
-        await saveToIndexedDB(newData);
-    }
-
-    // SAFETY DELAY: Prevent Rate Limiting by pausing briefly between scenes
-    if (!stopSignal.stopped) {
-        await wait(2000); // 2 seconds delay
-    }
-  }
-
-  console.log('[Construction] All jobs done or stopped.');
-}
\ No newline at end of file
+function runInWorker(
+  worker: Worker,
+  projectData: ScriptData,
+  env: Omit<ConstructionEnv, 'runJob'>,
+  runJob: ConstructionEnv['runJob'],
+  options: { onlyScenes?: number[]; resumedFrom?: string }
+): Promise<PipelineRunSummary> {
+  return new Promise((resolve, reject) => {
+    let runId: string | undefined;
+
+    // The stop button flips a plain flag; relay it to the worker
+    const stopPoll = setInterval(() => {
+      if (env.stopSignal.stopped) {
+        worker.postMessage({ type: 'stop' } satisfies MainToWorkerMessage);
+        clearInterval(stopPoll);
+      }
+    }, STOP_POLL_MS);
+
+    const finish = () => {
+      clearInterval(stopPoll);
+      unsubscribe();
+      worker.removeEventListener('error', onCrash);
+      if (runId) markRunFinished(runId);
+    };
+
+    // The run record stays `running`, so the next load offers to resume it
+    const onCrash = (event: ErrorEvent) => {
+      finish();
+      reject(new Error(`Pipeline worker error: ${event.message}`));
+    };
+    worker.addEventListener('error', onCrash);
+
+    const unsubscribe = onWorkerMessage(message => {
+      switch (message.type) {
+        case 'run-started':
+          runId = message.run_id;
+          if (runId) markRunActive(runId);
+          break;
+        case 'job':
+          runJob(message.job)
+            .then(value => worker.postMessage({ type: 'job-result', call_id: message.call_id, value } satisfies MainToWorkerMessage))
+            .catch(error => worker.postMessage({ type: 'job-result', call_id: message.call_id, error: serializeError(error) } satisfies MainToWorkerMessage));
+          break;
+        case 'progress':
+          env.onProgress?.(message.progress);
+          break;
+        case 'scene-update':
+          env.onUpdate(message.project);
+          break;
+        case 'run-finished':
+          finish();
+          resolve(toSummary(message.summary));
+          break;
+        case 'run-failed':
+          finish();
+          reject(deserializeError(message.error));
+          break;
+      }
+    });
+
+    worker.postMessage({
+      type: 'start',
+      project: projectData,
+      only_scenes: options.onlyScenes,
+      resumed_from: options.resumedFrom,
+      scene_delay_ms: env.sceneDelayMs,
+      veo_available: env.veoAvailable
+    } satisfies MainToWorkerMessage);
+  });
+}
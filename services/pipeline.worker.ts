@@ -0,0 +1,87 @@
+import { runConstruction } from './construction';
+import { pcmToWavBase64 } from '../utils/audio';
+import { putAsset, dataUrlToBlob } from './assetStore';
+import { buildProjectZip } from './projectArchive';
+import {
+  MainToWorkerMessage, WorkerToMainMessage, PipelineJob, PipelineJobRequest, PipelineJobResults,
+  serializeError, deserializeError
+} from './workerProtocol';
+
+// --- PIPELINE WORKER ---
+// Hosts the construction loop (its scene stagger timer is not throttled like a background tab's)
+// plus the byte-heavy helpers. See services/workerProtocol.ts for the message contract.
+
+const post = (message: WorkerToMainMessage) => self.postMessage(message);
+
+let stopSignal = { stopped: false };
+let callCounter = 0;
+const pendingJobs = new Map<number, { resolve: (value: any) => void; reject: (reason: unknown) => void }>();
+
+const runJob = <R extends PipelineJobRequest>(job: PipelineJob<R>) =>
+  new Promise<PipelineJobResults[R['kind']]>((resolve, reject) => {
+    const callId = ++callCounter;
+    pendingJobs.set(callId, { resolve, reject });
+    post({ type: 'job', call_id: callId, job });
+  });
+
+async function reply(requestId: number, work: () => unknown) {
+  try {
+    post({ type: 'reply', request_id: requestId, value: await work() });
+  } catch (error) {
+    post({ type: 'reply', request_id: requestId, error: serializeError(error) });
+  }
+}
+
+async function startRun(message: Extract<MainToWorkerMessage, { type: 'start' }>) {
+  stopSignal = { stopped: false };
+  let runId: string | undefined;
+  try {
+    const summary = await runConstruction(message.project, {
+      runJob,
+      onUpdate: project => post({ type: 'scene-update', project }),
+      onProgress: progress => post({ type: 'progress', progress }),
+      onRunStarted: id => {
+        runId = id;
+        post({ type: 'run-started', run_id: id });
+      },
+      stopSignal,
+      sceneDelayMs: message.scene_delay_ms,
+      veoAvailable: message.veo_available
+    }, { onlyScenes: message.only_scenes, resumedFrom: message.resumed_from });
+
+    post({ type: 'run-finished', run_id: runId, summary: { ...summary, error: summary.error && serializeError(summary.error) } });
+  } catch (error) {
+    post({ type: 'run-failed', run_id: runId, error: serializeError(error) });
+  }
+}
+
+self.onmessage = (event: MessageEvent<MainToWorkerMessage>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'start':
+      startRun(message);
+      break;
+    case 'stop':
+      stopSignal.stopped = true;
+      break;
+    case 'job-result': {
+      const pending = pendingJobs.get(message.call_id);
+      pendingJobs.delete(message.call_id);
+      if (message.error) pending?.reject(deserializeError(message.error));
+      else pending?.resolve(message.value);
+      break;
+    }
+    case 'encode-wav':
+      reply(message.request_id, () => pcmToWavBase64(message.pcm_base64));
+      break;
+    case 'ingest':
+      reply(message.request_id, () => putAsset(dataUrlToBlob(message.data_url)));
+      break;
+    case 'pack-zip':
+      reply(message.request_id, () => buildProjectZip(message.project));
+      break;
+  }
+};
+
+// Module workers run this only after every import resolved; until then the client sends nothing
+post({ type: 'ready' });
@@ -0,0 +1,154 @@
+import { get, set } from 'idb-keyval';
+import { ScriptData, Scene, PipelineRunRecord, SceneRunState, RunTrackStage } from '../types';
+import { pipelineRunKey } from './projectLibrary';
+import { getAssetBlob } from './assetStore';
+
+// --- PIPELINE RUN RECORDS ---
+// One record per project (the latest run), rewritten at every stage change. A record still marked
+// `running` that this page session did not start means the tab was reloaded or crashed mid-run.
+// Records are written from the pipeline worker, which reports its run IDs to the page (see below).
+
+const activeRunIds = new Set<string>();
+
+export const markRunActive = (runId: string) => activeRunIds.add(runId);
+export const markRunFinished = (runId: string) => activeRunIds.delete(runId);
+
+const createRunId = () =>
+  `run_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export const visualNeedsWork = (scene: Scene) =>
+  !scene.progress_status.is_image_generated || !scene.progress_status.is_image_inspected
+    || (scene.type === 'video' && !scene.progress_status.is_video_generated);
+
+export const audioNeedsWork = (scene: Scene) => !scene.progress_status.is_audio_generated;
+
+export const sceneNeedsWork = (scene: Scene) => visualNeedsWork(scene) || audioNeedsWork(scene);
+
+export interface RunTracker {
+  run_id?: string;
+  setStage: (sceneIndex: number, track: keyof SceneRunState, stage: RunTrackStage) => void;
+  finish: (status: Exclude<PipelineRunRecord['status'], 'running' | 'interrupted'>) => Promise<void>;
+}
+
+/**
+ * Persists a new run record and returns the handle the pipeline reports progress through.
+ * Projects without an ID are not tracked.
+ */
+export function startRunRecord(projectId: string | undefined, queue: number[], resumedFrom?: string): RunTracker {
+  if (!projectId) return { setStage: () => {}, finish: async () => {} };
+
+  const now = Date.now();
+  const record: PipelineRunRecord = {
+    run_id: createRunId(),
+    project_id: projectId,
+    status: 'running',
+    started_at: now,
+    updated_at: now,
+    queue,
+    scenes: Object.fromEntries(queue.map(index => [index, { visual: 'pending', audio: 'pending' }])),
+    resumed_from: resumedFrom
+  };
+  markRunActive(record.run_id);
+
+  // Writes are chained so a slow write never lands after a newer one
+  let writeChain: Promise<unknown> = Promise.resolve();
+  const persist = () => {
+    record.updated_at = Date.now();
+    const copy: PipelineRunRecord = JSON.parse(JSON.stringify(record));
+    writeChain = writeChain
+      .then(() => set(pipelineRunKey(projectId), copy))
+      .catch(err => console.error('[PipelineRun] Save Failed', err));
+  };
+  persist();
+
+  return {
+    run_id: record.run_id,
+    setStage: (sceneIndex, track, stage) => {
+      const state = record.scenes[sceneIndex];
+      if (!state || state[track] === stage) return;
+      state[track] = stage;
+      persist();
+    },
+    finish: async (status) => {
+      record.status = status;
+      record.ended_at = Date.now();
+      persist();
+      await writeChain;
+      markRunFinished(record.run_id);
+    }
+  };
+}
+
+export async function getLastRun(projectId: string): Promise<PipelineRunRecord | null> {
+  try {
+    return await get<PipelineRunRecord>(pipelineRunKey(projectId)) || null;
+  } catch (err) {
+    console.error('[PipelineRun] Load Failed', err);
+    return null;
+  }
+}
+
+export async function findInterruptedRun(projectId: string): Promise<PipelineRunRecord | null> {
+  const run = await getLastRun(projectId);
+  return run && run.status === 'running' && !activeRunIds.has(run.run_id) ? run : null;
+}
+
+// Closes an interrupted record (dismissed by the user or superseded by a resumed run)
+export async function closeInterruptedRun(run: PipelineRunRecord): Promise<void> {
+  const now = Date.now();
+  await set(pipelineRunKey(run.project_id), { ...run, status: 'interrupted', updated_at: now, ended_at: now });
+}
+
+/** Scenes whose track was mid-stage when the run stopped reporting */
+export const inFlightScenes = (run: PipelineRunRecord) =>
+  run.queue
+    .map(index => ({ scene_index: index, state: run.scenes[index] }))
+    .filter(({ state }) => state && [state.visual, state.audio].some(stage => stage !== 'pending' && stage !== 'done'));
+
+export interface ReconciledRun {
+  project: ScriptData;
+  remaining: number[]; // Scenes of the run that still need work, in the original order
+  repaired: number[]; // Scenes whose progress flags pointed at assets that never got stored
+}
+
+/**
+ * Makes the saved project consistent with what actually reached storage before the interruption.
+ * Each pipeline stage saves the scene only after its asset is stored, so the only repair needed is
+ * dropping flags whose asset is missing; in-flight stages are simply still pending and get redone.
+ */
+export async function reconcileInterruptedRun(run: PipelineRunRecord, project: ScriptData): Promise<ReconciledRun> {
+  const repaired: number[] = [];
+
+  const scenes = await Promise.all(project.scenes.map(async (s): Promise<Scene> => {
+    if (!run.queue.includes(s.scene_index)) return s;
+
+    const { isProcessing, isGeneratingVideo, ...scene } = s;
+    const status = { ...scene.progress_status };
+    const assets = { ...scene.assets };
+
+    if (status.is_image_generated && assets.visual_asset_id && !(await getAssetBlob(assets.visual_asset_id))) {
+      status.is_image_generated = false;
+      status.is_image_inspected = false;
+      status.is_video_generated = false;
+      assets.visual_asset_id = undefined;
+      assets.visual_url = undefined;
+    }
+    if (status.is_audio_generated && assets.audio_asset_id && !(await getAssetBlob(assets.audio_asset_id))) {
+      status.is_audio_generated = false;
+      assets.audio_asset_id = undefined;
+      assets.audio_url = undefined;
+    }
+
+    const changed = Object.keys(status).some(k => status[k as keyof typeof status] !== scene.progress_status[k as keyof typeof status]);
+    if (!changed) return scene;
+    repaired.push(scene.scene_index);
+    return { ...scene, assets, progress_status: status };
+  }));
+
+  const remaining = run.queue.filter(index => {
+    const scene = scenes.find(s => s.scene_index === index);
+    return !!scene && sceneNeedsWork(scene);
+  });
+
+  return { project: { ...project, scenes }, remaining, repaired };
+}
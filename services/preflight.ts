@@ -0,0 +1,139 @@
+import { ScriptData, Scene, GenerationLogStage } from '../types';
+import { Capability, resolveCapability } from './providers';
+import { getSettings } from './settings';
+import { checkVeoAvailability } from './geminiService';
+import { sceneNeedsWork } from './pipelineRuns';
+import { quotaManager, CAPABILITY_QUOTA_TYPE, QuotaType } from '../utils/quotaManager';
+
+// --- PRE-FLIGHT ESTIMATE ---
+// Counts the provider calls a pipeline run still needs (mirroring services/construction.ts) and
+// compares them with what is left of today's quota. Retries are not counted.
+
+const STAGE_CAPABILITY: Record<GenerationLogStage, Capability> = {
+  image: 'image',
+  inspection: 'vision',
+  video: 'video',
+  split: 'json',
+  grid: 'image',
+  audio: 'speech'
+};
+
+// Rough seconds per call, used for the wall-clock estimate
+const STAGE_SECONDS: Record<GenerationLogStage, number> = {
+  image: 12, inspection: 4, video: 90, split: 4, grid: 12, audio: 8
+};
+
+const QUOTA_TYPES: QuotaType[] = ['text', 'image', 'audio', 'video'];
+
+export type StageCounts = Record<GenerationLogStage, number>;
+
+export interface ScenePlan {
+  scene_index: number;
+  calls: StageCounts; // Expected calls
+  fallback: StageCounts; // Extra calls if the video attempt fails (split + grid)
+}
+
+export interface PipelineEstimate {
+  scenes: ScenePlan[];
+  calls: StageCounts; // Expected, summed over all scenes
+  fallback: StageCounts;
+  needed: Record<QuotaType, { min: number; max: number }>;
+  remaining: Record<QuotaType, number>;
+  fits: boolean; // Even the worst case fits today's remaining quota
+  fitting_scenes: number[]; // Longest prefix of the queue whose worst case fits
+  estimated_ms: number;
+  veo_available: boolean;
+}
+
+const emptyCounts = (): StageCounts => ({ image: 0, inspection: 0, video: 0, split: 0, grid: 0, audio: 0 });
+
+function planScene(scene: Scene, veoAvailable: boolean): ScenePlan {
+  const status = scene.progress_status;
+  const calls = emptyCounts();
+  const fallback = emptyCounts();
+
+  if (!status.is_image_generated) calls.image = 1;
+  if (!status.is_image_inspected) calls.inspection = 1;
+  if (scene.type === 'video' && !status.is_video_generated) {
+    // Without Veo the grid fallback is certain; with it, it only happens when the attempt fails
+    const target = veoAvailable ? fallback : calls;
+    if (veoAvailable) calls.video = 1;
+    target.split = 1;
+    target.grid = 1;
+  }
+  if (!status.is_audio_generated) calls.audio = 1;
+
+  return { scene_index: scene.scene_index, calls, fallback };
+}
+
+function byQuotaType(counts: StageCounts): Record<QuotaType, number> {
+  const result: Record<QuotaType, number> = { text: 0, image: 0, audio: 0, video: 0 };
+  (Object.keys(counts) as GenerationLogStage[]).forEach(stage => {
+    result[CAPABILITY_QUOTA_TYPE[STAGE_CAPABILITY[stage]]] += counts[stage];
+  });
+  return result;
+}
+
+const addCounts = (a: StageCounts, b: StageCounts): StageCounts => {
+  const sum = emptyCounts();
+  (Object.keys(sum) as GenerationLogStage[]).forEach(stage => { sum[stage] = a[stage] + b[stage]; });
+  return sum;
+};
+
+// Slowest of: scene staggering, total call time spread over the scheduler slots, and each model's RPM
+function estimateDuration(sceneCount: number, calls: StageCounts): number {
+  const { sceneDelayMs, maxConcurrentJobs } = getSettings();
+  const stages = Object.keys(calls) as GenerationLogStage[];
+
+  const stagger = Math.max(0, sceneCount - 1) * sceneDelayMs;
+  const callTime = stages.reduce((sum, stage) => sum + calls[stage] * STAGE_SECONDS[stage] * 1000, 0) / Math.max(1, maxConcurrentJobs);
+
+  const perModel = new Map<string, { calls: number; rpm: number }>();
+  stages.forEach(stage => {
+    const { model } = resolveCapability(STAGE_CAPABILITY[stage]);
+    const entry = perModel.get(model) || { calls: 0, rpm: quotaManager.getLimits(model).rpm };
+    entry.calls += calls[stage];
+    perModel.set(model, entry);
+  });
+  const rateTime = Math.max(0, ...[...perModel.values()].map(({ calls, rpm }) => (calls / rpm) * 60000));
+
+  return Math.max(stagger, callTime, rateTime);
+}
+
+export async function estimatePipelineRun(project: ScriptData, onlyScenes?: number[]): Promise<PipelineEstimate> {
+  const veoAvailable = await checkVeoAvailability();
+  const scenes = project.scenes
+    .filter(s => !onlyScenes || onlyScenes.includes(s.scene_index))
+    .filter(sceneNeedsWork)
+    .map(s => planScene(s, veoAvailable));
+
+  const calls = scenes.reduce((sum, plan) => addCounts(sum, plan.calls), emptyCounts());
+  const fallback = scenes.reduce((sum, plan) => addCounts(sum, plan.fallback), emptyCounts());
+  const remaining = quotaManager.getRemaining();
+
+  const min = byQuotaType(calls);
+  const max = byQuotaType(addCounts(calls, fallback));
+  const needed = Object.fromEntries(QUOTA_TYPES.map(type => [type, { min: min[type], max: max[type] }])) as PipelineEstimate['needed'];
+
+  // Scenes are taken in pipeline order until one would overrun a type's remaining calls
+  const used: Record<QuotaType, number> = { text: 0, image: 0, audio: 0, video: 0 };
+  const fittingScenes: number[] = [];
+  for (const plan of scenes) {
+    const worst = byQuotaType(addCounts(plan.calls, plan.fallback));
+    if (QUOTA_TYPES.some(type => used[type] + worst[type] > remaining[type])) break;
+    QUOTA_TYPES.forEach(type => { used[type] += worst[type]; });
+    fittingScenes.push(plan.scene_index);
+  }
+
+  return {
+    scenes,
+    calls,
+    fallback,
+    needed,
+    remaining,
+    fits: fittingScenes.length === scenes.length,
+    fitting_scenes: fittingScenes,
+    estimated_ms: estimateDuration(scenes.length, calls),
+    veo_available: veoAvailable
+  };
+}
@@ -0,0 +1,155 @@
+// @ts-ignore
+import JSZip from 'jszip';
+import { get } from 'idb-keyval';
+import { ScriptData, Scene, GenerationLogEntry } from '../types';
+import { readAssetBlob, ingestBlob } from './assetStore';
+import { migrateScriptData } from './projectSchema';
+import { generationLogKey } from './projectLibrary';
+import { packProjectZip } from './workerClient';
+
+// --- ZIP LAYOUT ---
+// project.json        manifest (ScriptData without session URLs)
+// logs.json           generation audit log (every call that produced or failed a scene asset)
+// thumbnail.png       optional
+// assets/<filename>   scene images (.png), clips (.mp4) and narration (.wav/.mp3), named by SceneAsset filenames
+
+const THUMBNAIL_FILE = 'thumbnail.png';
+const LOGS_FILE = 'logs.json';
+const ASSETS_DIR = 'assets';
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  mp4: 'video/mp4',
+  wav: 'audio/wav',
+  mp3: 'audio/mpeg'
+};
+
+const mimeFromFilename = (name: string) =>
+  MIME_BY_EXTENSION[name.split('.').pop()?.toLowerCase() || ''] || 'application/octet-stream';
+
+const clipFilename = (filename: string) => filename.replace(/\.\w+$/, '.mp4');
+
+// A scene that fell back from video keeps its `.mp4` name but is exported as a still image; a clip always goes under `.mp4`
+function visualFilenameFor(scene: Scene, blob?: Blob): string {
+  const filename = scene.assets.visual_filename || `${scene.assets.base_id}.png`;
+  if (blob?.type.startsWith('video')) return clipFilename(filename);
+  return filename.endsWith('.mp4') && scene.type === 'image' ? filename.replace('.mp4', '.png') : filename;
+}
+
+const audioFilenameFor = (scene: Scene) => scene.assets.audio_filename || `${scene.assets.base_id}.mp3`;
+
+/**
+ * Packs a project and all of its stored media into a ZIP Blob (in the pipeline worker when available).
+ */
+export const exportProjectZip = (project: ScriptData): Promise<Blob> => packProjectZip(project);
+
+/**
+ * Builds the ZIP. Runs inside services/pipeline.worker.ts, so it reads storage directly
+ * (services/generationLog.ts pulls in main-thread-only modules).
+ */
+export async function buildProjectZip(project: ScriptData): Promise<Blob> {
+  const zip = new JSZip();
+  const assetsFolder = zip.folder(ASSETS_DIR);
+
+  const thumbBlob = await readAssetBlob(project.meta.thumbnail_asset_id, project.meta.thumbnail_url);
+  if (thumbBlob) {
+    zip.file(THUMBNAIL_FILE, thumbBlob);
+  }
+
+  const manifestScenes = await Promise.all(project.scenes.map(async (s) => {
+    const visualBlob = await readAssetBlob(s.assets.visual_asset_id, s.assets.visual_url);
+    if (visualBlob && (visualBlob.type.startsWith('image') || visualBlob.type.startsWith('video'))) {
+      assetsFolder.file(visualFilenameFor(s, visualBlob), visualBlob);
+    }
+    const audioBlob = await readAssetBlob(s.assets.audio_asset_id, s.assets.audio_url);
+    if (audioBlob && audioBlob.type.startsWith('audio')) {
+      assetsFolder.file(audioFilenameFor(s), audioBlob);
+    }
+    const { visual_url, audio_url, ...cleanAssets } = s.assets;
+    const { isSelected, isProcessing, isGeneratingVideo, ...rest } = s;
+    return {
+      ...rest,
+      assets: cleanAssets,
+      // Include Cuts Info for video editor
+      cuts: s.cuts,
+      narration_full: s.narration_full
+    };
+  }));
+
+  const manifest = {
+    ...project,
+    meta: {
+      ...project.meta,
+      thumbnail_url: thumbBlob ? THUMBNAIL_FILE : undefined
+    },
+    scenes: manifestScenes
+  };
+
+  zip.file('project.json', JSON.stringify(manifest, null, 2));
+  if (project.project_id) {
+    const logs = await get<GenerationLogEntry[]>(generationLogKey(project.project_id)) || [];
+    zip.file(LOGS_FILE, JSON.stringify(logs, null, 2));
+  }
+  return zip.generateAsync({ type: 'blob' });
+}
+
+async function readZipAsset(zip: any, path: string) {
+  const entry = zip.file(path);
+  if (!entry) return null;
+  const data: ArrayBuffer = await entry.async('arraybuffer');
+  return ingestBlob(new Blob([data], { type: mimeFromFilename(path) }));
+}
+
+/**
+ * Rebuilds a project from a ZIP written by `exportProjectZip`.
+ * Media is matched back to scenes by filename and progress flags are restored from the manifest,
+ * except where the file they point at is missing from the archive.
+ * The result has no `project_id`, so saving it always creates a new library entry.
+ */
+export async function importProjectZip(file: Blob): Promise<ScriptData> {
+  const zip = await JSZip.loadAsync(file);
+  const manifestEntry = zip.file('project.json');
+  if (!manifestEntry) {
+    throw new Error("project.json이 없는 ZIP입니다.");
+  }
+
+  const manifest = migrateScriptData(JSON.parse(await manifestEntry.async('string')));
+
+  const thumb = await readZipAsset(zip, THUMBNAIL_FILE);
+
+  const scenes: Scene[] = [];
+  for (const s of manifest.scenes) {
+    const visual = await readZipAsset(zip, `${ASSETS_DIR}/${visualFilenameFor(s)}`)
+      || await readZipAsset(zip, `${ASSETS_DIR}/${clipFilename(visualFilenameFor(s))}`);
+    const audio = await readZipAsset(zip, `${ASSETS_DIR}/${audioFilenameFor(s)}`);
+    const status = s.progress_status;
+
+    scenes.push({
+      ...s,
+      assets: {
+        ...s.assets,
+        visual_asset_id: visual?.id,
+        visual_url: visual?.url,
+        audio_asset_id: audio?.id,
+        audio_url: audio?.url
+      },
+      progress_status: {
+        ...status,
+        is_image_generated: !!status?.is_image_generated && !!visual,
+        is_image_inspected: !!status?.is_image_inspected && !!visual,
+        is_video_generated: !!status?.is_video_generated && !!visual,
+        is_audio_generated: !!status?.is_audio_generated && !!audio
+      }
+    });
+  }
+
+  const { project_id, ...rest } = manifest;
+  return {
+    ...rest,
+    meta: { ...manifest.meta, thumbnail_asset_id: thumb?.id, thumbnail_url: thumb?.url },
+    scenes
+  };
+}
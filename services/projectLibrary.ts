@@ -0,0 +1,267 @@
+import { get, set, del, update } from 'idb-keyval';
+import { ScriptData, ProjectSummary, ProjectSnapshot, Scene } from '../types';
+import { ingestAsset, getAssetUrl, pruneAssets } from './assetStore';
+import { migrateScriptData, ProjectSchemaError, CURRENT_SCHEMA_VERSION } from './projectSchema';
+
+// --- STORAGE KEYS ---
+const INDEX_KEY = 'project_index';
+const PROJECT_KEY_PREFIX = 'project_';
+const LEGACY_DB_KEY = 'current_project'; // Single-slot storage used before the library existed
+const SNAPSHOT_KEY_PREFIX = 'snapshots_';
+const LOG_KEY_PREFIX = 'logs_';
+const RUN_KEY_PREFIX = 'pipeline_run_';
+const USAGE_KEY_PREFIX = 'usage_';
+
+const projectKey = (id: string) => `${PROJECT_KEY_PREFIX}${id}`;
+export const snapshotKey = (id: string) => `${SNAPSHOT_KEY_PREFIX}${id}`;
+export const generationLogKey = (id: string) => `${LOG_KEY_PREFIX}${id}`;
+export const pipelineRunKey = (id: string) => `${RUN_KEY_PREFIX}${id}`;
+export const usageKey = (id: string) => `${USAGE_KEY_PREFIX}${id}`;
+
+let legacyMigration: Promise<void> | null = null;
+
+// Last serialized form written per project, so unchanged autosaves skip the write entirely
+const lastWritten = new Map<string, string>();
+
+const createProjectId = () =>
+  `proj_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+function buildSummary(data: ScriptData, id: string, previous?: ProjectSummary): ProjectSummary {
+  const scenes = data.scenes || [];
+  const imagesDone = scenes.filter(s => s.progress_status?.is_image_generated).length;
+  const audioDone = scenes.filter(s => s.progress_status?.is_audio_generated).length;
+  const now = Date.now();
+
+  return {
+    id,
+    title: data.meta?.title || previous?.title || '제목 없는 프로젝트',
+    genre: data.meta?.genre || '',
+    created_at: previous?.created_at || data.meta?.timestamp || now,
+    updated_at: now,
+    archived: previous?.archived || false,
+    progress: {
+      total_scenes: scenes.length,
+      images_done: imagesDone,
+      audio_done: audioDone,
+      percent: scenes.length > 0 ? Math.round(((imagesDone + audioDone) / (scenes.length * 2)) * 100) : 0
+    }
+  };
+}
+
+// --- ASSET REFERENCES ---
+
+/**
+ * Moves any inline data URL into the asset store. Returns the asset ID (existing or new).
+ */
+async function ensureAssetId(id: string | undefined, url: string | undefined): Promise<string | undefined> {
+  if (id) return id;
+  if (url && url.startsWith('data:')) {
+    const stored = await ingestAsset(url);
+    return stored.id;
+  }
+  return undefined;
+}
+
+// Blob/object URLs are session-only; remote URLs (e.g. video) are small enough to keep inline
+const persistableUrl = (id: string | undefined, url: string | undefined) =>
+  id || (url && (url.startsWith('data:') || url.startsWith('blob:'))) ? undefined : url;
+
+/**
+ * Produces the persisted form of a project: asset IDs only, no base64 and no object URLs.
+ */
+export async function toStoredProject(data: ScriptData): Promise<ScriptData> {
+  const scenes: Scene[] = await Promise.all(data.scenes.map(async (s) => {
+    const visualId = await ensureAssetId(s.assets.visual_asset_id, s.assets.visual_url);
+    const audioId = await ensureAssetId(s.assets.audio_asset_id, s.assets.audio_url);
+    const { isSelected, isProcessing, isGeneratingVideo, ...rest } = s;
+    return {
+      ...rest,
+      assets: {
+        ...s.assets,
+        visual_asset_id: visualId,
+        audio_asset_id: audioId,
+        visual_url: persistableUrl(visualId, s.assets.visual_url),
+        audio_url: persistableUrl(audioId, s.assets.audio_url)
+      }
+    };
+  }));
+
+  const thumbId = await ensureAssetId(data.meta.thumbnail_asset_id, data.meta.thumbnail_url);
+  return {
+    ...data,
+    meta: { ...data.meta, thumbnail_asset_id: thumbId, thumbnail_url: persistableUrl(thumbId, data.meta.thumbnail_url) },
+    scenes
+  };
+}
+
+/**
+ * Resolves asset IDs back into display URLs for the UI.
+ */
+export async function hydrateProject(stored: ScriptData): Promise<ScriptData> {
+  const scenes = await Promise.all(stored.scenes.map(async (s) => ({
+    ...s,
+    assets: {
+      ...s.assets,
+      visual_url: s.assets.visual_asset_id ? await getAssetUrl(s.assets.visual_asset_id) : s.assets.visual_url,
+      audio_url: s.assets.audio_asset_id ? await getAssetUrl(s.assets.audio_asset_id) : s.assets.audio_url
+    }
+  })));
+  const thumbnailUrl = stored.meta.thumbnail_asset_id ? await getAssetUrl(stored.meta.thumbnail_asset_id) : stored.meta.thumbnail_url;
+  return { ...stored, meta: { ...stored.meta, thumbnail_url: thumbnailUrl }, scenes };
+}
+
+export function collectAssetIds(data: ScriptData, into: Set<string> = new Set()): Set<string> {
+  if (data.meta?.thumbnail_asset_id) into.add(data.meta.thumbnail_asset_id);
+  (data.scenes || []).forEach(s => {
+    if (s.assets?.visual_asset_id) into.add(s.assets.visual_asset_id);
+    if (s.assets?.audio_asset_id) into.add(s.assets.audio_asset_id);
+  });
+  return into;
+}
+
+async function updateIndex(updater: (index: ProjectSummary[]) => ProjectSummary[]): Promise<void> {
+  await update<ProjectSummary[]>(INDEX_KEY, (old) => updater(old || []));
+}
+
+/**
+ * Moves the pre-library `current_project` slot into the library so old autosaves are not lost.
+ */
+async function migrateLegacyProject(): Promise<void> {
+  const legacy = await get(LEGACY_DB_KEY);
+  if (!legacy || typeof legacy !== 'object') return;
+
+  try {
+    await saveToIndexedDB(migrateScriptData(legacy));
+    await del(LEGACY_DB_KEY);
+  } catch (err) {
+    // Leave the slot in place so the data is not lost; it is retried on the next listing
+    console.error('[Library] Legacy project could not be migrated', err instanceof ProjectSchemaError ? err.toReport() : err);
+  }
+}
+
+// --- PUBLIC API ---
+
+/**
+ * Persists a project under its own ID. Projects without an ID are added to the library as new entries.
+ * Generated media lives in the asset store; only the (small) project JSON is written here,
+ * and only when it differs from the last write.
+ * Returns the project with asset IDs filled in and session URLs preserved.
+ */
+export async function saveToIndexedDB(data: ScriptData): Promise<ScriptData> {
+  const id = data.project_id || createProjectId();
+  // Data in an older shape keeps its version so loading still migrates it; fresh data is current by construction
+  const schemaVersion = data.schema_version ?? CURRENT_SCHEMA_VERSION;
+  try {
+    const stored = await toStoredProject({ ...data, schema_version: schemaVersion, project_id: id });
+    const withIds = (s: Scene, i: number): Scene => ({
+      ...s,
+      assets: { ...s.assets, visual_asset_id: stored.scenes[i].assets.visual_asset_id, audio_asset_id: stored.scenes[i].assets.audio_asset_id }
+    });
+    const result: ScriptData = {
+      ...data,
+      schema_version: schemaVersion,
+      project_id: id,
+      meta: { ...data.meta, thumbnail_asset_id: stored.meta.thumbnail_asset_id },
+      scenes: data.scenes.map(withIds)
+    };
+
+    const { timestamp, ...metaWithoutTimestamp } = stored.meta;
+    const fingerprint = JSON.stringify({ ...stored, meta: metaWithoutTimestamp });
+    if (lastWritten.get(id) === fingerprint) {
+      return result;
+    }
+
+    const now = Date.now();
+    await set(projectKey(id), { ...stored, meta: { ...stored.meta, timestamp: now } });
+    lastWritten.set(id, fingerprint);
+    await updateIndex(index => {
+      const previous = index.find(p => p.id === id);
+      const summary = buildSummary(stored, id, previous);
+      return previous ? index.map(p => p.id === id ? summary : p) : [summary, ...index];
+    });
+    window.dispatchEvent(new CustomEvent('project-library-update'));
+    return { ...result, meta: { ...result.meta, timestamp: now } };
+  } catch (err) {
+    console.error('[Library] Save Failed', err);
+    return { ...data, project_id: id };
+  }
+}
+
+/**
+ * Loads, upgrades and hydrates a project. Throws `ProjectSchemaError` when the stored data is unusable.
+ */
+export async function loadProject(projectId: string): Promise<ScriptData | null> {
+  let data: unknown;
+  try {
+    data = await get(projectKey(projectId));
+  } catch (err) {
+    return null;
+  }
+  if (!data) return null;
+  const migrated = migrateScriptData(data);
+  return hydrateProject({ ...migrated, project_id: projectId });
+}
+
+export async function listProjects(options: { includeArchived?: boolean } = {}): Promise<ProjectSummary[]> {
+  try {
+    legacyMigration = legacyMigration || migrateLegacyProject();
+    await legacyMigration;
+    const index = await get<ProjectSummary[]>(INDEX_KEY) || [];
+    return index
+      .filter(p => options.includeArchived || !p.archived)
+      .sort((a, b) => b.updated_at - a.updated_at);
+  } catch (err) {
+    console.error('[Library] List Failed', err);
+    return [];
+  }
+}
+
+export async function renameProject(projectId: string, title: string): Promise<void> {
+  const data = await loadProject(projectId);
+  if (!data) return;
+  await saveToIndexedDB({ ...data, meta: { ...data.meta, title } });
+}
+
+export async function duplicateProject(projectId: string): Promise<ScriptData | null> {
+  const data = await loadProject(projectId);
+  if (!data) return null;
+  const { project_id, ...rest } = data;
+  return saveToIndexedDB({ ...rest, meta: { ...rest.meta, title: `${rest.meta.title} (사본)` } });
+}
+
+export async function setProjectArchived(projectId: string, archived: boolean): Promise<void> {
+  await updateIndex(index => index.map(p => p.id === projectId ? { ...p, archived } : p));
+  window.dispatchEvent(new CustomEvent('project-library-update'));
+}
+
+export async function deleteProject(projectId: string): Promise<void> {
+  await del(projectKey(projectId));
+  await del(snapshotKey(projectId));
+  await del(generationLogKey(projectId));
+  await del(pipelineRunKey(projectId));
+  await del(usageKey(projectId));
+  lastWritten.delete(projectId);
+  await updateIndex(index => index.filter(p => p.id !== projectId));
+  window.dispatchEvent(new CustomEvent('project-library-update'));
+  await collectGarbage();
+}
+
+/**
+ * Removes stored blobs that neither a project nor one of its snapshots references anymore.
+ */
+export async function collectGarbage(): Promise<void> {
+  try {
+    const index = await get<ProjectSummary[]>(INDEX_KEY) || [];
+    const referenced = new Set<string>();
+    for (const summary of index) {
+      const stored = await get<ScriptData>(projectKey(summary.id));
+      if (stored) collectAssetIds(stored, referenced);
+      const snapshots = await get<ProjectSnapshot[]>(snapshotKey(summary.id)) || [];
+      snapshots.forEach(snap => collectAssetIds(snap.data, referenced));
+    }
+    const removed = await pruneAssets(referenced);
+    if (removed > 0) console.log(`[Library] Pruned ${removed} unreferenced assets`);
+  } catch (err) {
+    console.error('[Library] Asset GC Failed', err);
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, detectSchemaVersion, migrateScriptData, ProjectSchemaError } from './projectSchema';
+
+// Unversioned save from the one-shot generator: `layout`, subtitles as one string, partial progress flags
+const v1Project = () => ({
+  meta: { title: '폼페이', tags: ['역사'] },
+  scenes: [
+    {
+      scene_index: 1,
+      type: 'image',
+      layout: 'SPLIT_V',
+      assets: { base_id: 'scene_001' },
+      scripts: { narration: '도시가 멈췄습니다.', subtitles: '도시가\n멈췄습니다.\n', voice_tone: 'serious' },
+      prompts: { visual_prompt: 'Pompeii' },
+      progress_status: { is_script_done: true, is_image_generated: true }
+    },
+    {
+      scene_index: 2,
+      type: 'image',
+      layout: 'GRID_3X3',
+      assets: { base_id: 'scene_002' },
+      scripts: { narration: '화산이 깨어났습니다.', subtitles: '화산이 깨어났습니다.', voice_tone: 'dramatic' },
+      prompts: { visual_prompt: 'Vesuvius' },
+      progress_status: {}
+    }
+  ]
+});
+
+describe('migrateScriptData', () => {
+  it('upgrades a v1 save to the current schema', () => {
+    const raw = v1Project();
+    expect(detectSchemaVersion(raw)).toBe(1);
+
+    const migrated = migrateScriptData(raw);
+    const [first, second] = migrated.scenes;
+    expect(migrated.schema_version).toBe(CURRENT_SCHEMA_VERSION);
+    expect(first.planned_layout).toBe('SPLIT_V');
+    expect(first.scripts.subtitles).toEqual(['도시가', '멈췄습니다.']);
+    expect(first.scripts.tts_text).toBe('도시가 멈췄습니다.');
+    expect(first.narration_full).toBe('도시가 멈췄습니다.');
+    expect(first.progress_status).toMatchObject({ is_image_generated: true, is_image_inspected: false, is_audio_generated: false });
+    expect(migrated.meta.genre).toBe('알 수 없음');
+    expect(migrated.global_style).toEqual({ art_style: '', main_character_desc: null });
+
+    // Values the schema does not know fall back to the defaults
+    expect(second.planned_layout).toBe('SINGLE');
+    expect(second.scripts.voice_tone).toBe('calm');
+  });
+
+  it('coerces unknown layouts and voice tones left in a v3 save', () => {
+    const v3 = { ...migrateScriptData(v1Project()), schema_version: 3 };
+    v3.scenes[0] = { ...v3.scenes[0], planned_layout: 'CAROUSEL' as any, scripts: { ...v3.scenes[0].scripts, voice_tone: 'angry' as any } };
+
+    const migrated = migrateScriptData(v3);
+    expect(migrated.scenes[0].planned_layout).toBe('SINGLE');
+    expect(migrated.scenes[0].scripts.voice_tone).toBe('calm');
+    expect(migrated.scenes[1]).toEqual(v3.scenes[1]);
+  });
+
+  it('rejects a current-version save with unknown values instead of guessing', () => {
+    const v4 = migrateScriptData(v1Project());
+    v4.scenes[0] = { ...v4.scenes[0], planned_layout: 'CAROUSEL' as any };
+
+    expect(() => migrateScriptData(v4)).toThrow(ProjectSchemaError);
+  });
+
+  it('rejects saves from a newer app', () => {
+    expect(() => migrateScriptData({ ...v1Project(), schema_version: CURRENT_SCHEMA_VERSION + 1 })).toThrow(/최신 버전/);
+  });
+});
@@ -0,0 +1,232 @@
+import { ScriptData, LayoutType, SceneScripts } from '../types';
+
+type VoiceTone = SceneScripts['voice_tone'];
+
+/**
+ * ScriptData schema history
+ * v1: Original one-shot output. `subtitles` is a single string, no `tts_text`/`cuts`/`narration_full`,
+ *     `layout` instead of `planned_layout`, partial `progress_status`.
+ * v2: Subtitles as array, TTS text, 4-cut split fields, mandatory `planned_layout` and inspection flag.
+ * v3: Project library + asset store (`project_id`, `*_asset_id`), guaranteed `meta`/`global_style`.
+ * v4: `planned_layout` / `voice_tone` always one of the known values (model output is coerced on creation).
+ */
+export const CURRENT_SCHEMA_VERSION = 4;
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export class ProjectSchemaError extends Error {
+  issues: SchemaIssue[];
+
+  constructor(message: string, issues: SchemaIssue[] = []) {
+    super(message);
+    this.name = 'ProjectSchemaError';
+    this.issues = issues;
+  }
+
+  /** Multi-line report for alerts/logs (first few issues only). */
+  toReport(limit = 8): string {
+    const lines = this.issues.slice(0, limit).map(i => `• ${i.path}: ${i.message}`);
+    if (this.issues.length > limit) lines.push(`… 외 ${this.issues.length - limit}건`);
+    return [this.message, ...lines].join('\n');
+  }
+}
+
+const LAYOUTS: LayoutType[] = ['SINGLE', 'SPLIT_V', 'SPLIT_H', 'TRI_TOP_SPLIT', 'TRI_BOT_SPLIT', 'GRID_2X2'];
+const VOICE_TONES: VoiceTone[] = ['excited', 'serious', 'calm', 'whisper'];
+const PROGRESS_FLAGS = [
+  'is_script_done', 'is_prompt_done', 'is_image_generated',
+  'is_image_inspected', 'is_audio_generated', 'is_video_generated'
+] as const;
+
+// Unknown values (e.g. a model answering "dramatic" or "split") fall back to a default instead of
+// producing a project that saves fine but fails validation when it is opened again
+export const toLayout = (value: unknown): LayoutType => LAYOUTS.includes(value as LayoutType) ? value as LayoutType : 'SINGLE';
+export const toVoiceTone = (value: unknown): VoiceTone => VOICE_TONES.includes(value as VoiceTone) ? value as VoiceTone : 'calm';
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const describe = (v: unknown) => Array.isArray(v) ? 'array' : v === null ? 'null' : typeof v;
+
+// --- MIGRATIONS (key = version being upgraded FROM) ---
+
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  1: (data) => ({
+    ...data,
+    scenes: (data.scenes || []).map((s: any) => {
+      const scripts = s.scripts || {};
+      const subtitles = typeof scripts.subtitles === 'string'
+        ? scripts.subtitles.split('\n').map((line: string) => line.trim()).filter(Boolean)
+        : scripts.subtitles;
+      return {
+        ...s,
+        planned_layout: toLayout(s.planned_layout || s.layout),
+        cuts: s.cuts || [],
+        narration_full: s.narration_full || scripts.narration || '',
+        scripts: {
+          ...scripts,
+          voice_tone: toVoiceTone(scripts.voice_tone),
+          subtitles: subtitles || [],
+          tts_text: scripts.tts_text || scripts.narration || ''
+        },
+        progress_status: {
+          ...s.progress_status,
+          is_image_inspected: s.progress_status?.is_image_inspected ?? false,
+          is_video_generated: s.progress_status?.is_video_generated ?? false
+        }
+      };
+    })
+  }),
+
+  2: (data) => ({
+    ...data,
+    meta: {
+      title: "작업 중인 프로젝트 (제목 없음)",
+      description: "",
+      genre: "알 수 없음",
+      tags: [],
+      thumbnail_prompt: "",
+      bgm_mood: "",
+      ...data.meta
+    },
+    global_style: { art_style: '', main_character_desc: null, ...data.global_style },
+    scenes: (data.scenes || []).map((s: any) => ({
+      ...s,
+      progress_status: Object.fromEntries(PROGRESS_FLAGS.map(flag => [flag, !!s.progress_status?.[flag]]))
+    }))
+  }),
+
+  // Earlier saves stored model-supplied layouts/tones unchecked
+  3: (data) => ({
+    ...data,
+    scenes: (data.scenes || []).map((s: any) => ({
+      ...s,
+      planned_layout: toLayout(s?.planned_layout),
+      scripts: s?.scripts ? { ...s.scripts, voice_tone: toVoiceTone(s.scripts.voice_tone) } : s?.scripts
+    }))
+  })
+};
+
+/**
+ * Unversioned data predates `schema_version`; a string `subtitles` marks the v1 shape.
+ */
+export function detectSchemaVersion(raw: any): number {
+  if (typeof raw?.schema_version === 'number') return raw.schema_version;
+  const scenes = Array.isArray(raw?.scenes) ? raw.scenes : [];
+  const hasLegacySubtitles = scenes.some((s: any) => typeof s?.scripts?.subtitles === 'string');
+  const hasV2Fields = scenes.some((s: any) => s?.planned_layout || s?.scripts?.tts_text !== undefined);
+  return hasLegacySubtitles || (scenes.length > 0 && !hasV2Fields) ? 1 : 2;
+}
+
+// --- VALIDATION ---
+
+export function validateScriptData(data: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const expect = (ok: boolean, path: string, message: string) => { if (!ok) issues.push({ path, message }); };
+  const expectType = (v: unknown, type: string, path: string) =>
+    expect(typeof v === type, path, `${type} 이어야 합니다 (받은 값: ${describe(v)})`);
+
+  if (!isObject(data)) {
+    return [{ path: '(root)', message: `객체가 아닙니다 (받은 값: ${describe(data)})` }];
+  }
+
+  if (!isObject(data.meta)) {
+    issues.push({ path: 'meta', message: '누락되었습니다' });
+  } else {
+    expectType(data.meta.title, 'string', 'meta.title');
+    expect(Array.isArray(data.meta.tags), 'meta.tags', '배열이어야 합니다');
+  }
+
+  if (!isObject(data.global_style)) {
+    issues.push({ path: 'global_style', message: '누락되었습니다' });
+  }
+
+  if (!Array.isArray(data.scenes)) {
+    issues.push({ path: 'scenes', message: `배열이어야 합니다 (받은 값: ${describe(data.scenes)})` });
+    return issues;
+  }
+
+  data.scenes.forEach((s: any, i: number) => {
+    const at = `scenes[${i}]`;
+    if (!isObject(s)) {
+      issues.push({ path: at, message: '객체가 아닙니다' });
+      return;
+    }
+    expectType(s.scene_index, 'number', `${at}.scene_index`);
+    expect(s.type === 'image' || s.type === 'video', `${at}.type`, `'image' 또는 'video' 여야 합니다 (받은 값: ${s.type})`);
+    expect(LAYOUTS.includes(s.planned_layout), `${at}.planned_layout`, `알 수 없는 레이아웃입니다 (${s.planned_layout})`);
+
+    if (!isObject(s.assets)) {
+      issues.push({ path: `${at}.assets`, message: '누락되었습니다' });
+    } else {
+      expectType(s.assets.base_id, 'string', `${at}.assets.base_id`);
+    }
+
+    if (!isObject(s.scripts)) {
+      issues.push({ path: `${at}.scripts`, message: '누락되었습니다' });
+    } else {
+      expectType(s.scripts.narration, 'string', `${at}.scripts.narration`);
+      expect(
+        Array.isArray(s.scripts.subtitles) && s.scripts.subtitles.every((t: unknown) => typeof t === 'string'),
+        `${at}.scripts.subtitles`,
+        `문자열 배열이어야 합니다 (받은 값: ${describe(s.scripts.subtitles)})`
+      );
+      expect(VOICE_TONES.includes(s.scripts.voice_tone), `${at}.scripts.voice_tone`, `알 수 없는 톤입니다 (${s.scripts.voice_tone})`);
+    }
+
+    if (!isObject(s.prompts)) {
+      issues.push({ path: `${at}.prompts`, message: '누락되었습니다' });
+    } else {
+      expectType(s.prompts.visual_prompt, 'string', `${at}.prompts.visual_prompt`);
+    }
+
+    if (!isObject(s.progress_status)) {
+      issues.push({ path: `${at}.progress_status`, message: '누락되었습니다' });
+    } else {
+      PROGRESS_FLAGS.forEach(flag => expectType(s.progress_status[flag], 'boolean', `${at}.progress_status.${flag}`));
+    }
+
+    if (s.cuts !== undefined) {
+      expect(
+        Array.isArray(s.cuts) && s.cuts.every((c: any) => isObject(c) && typeof c.narration === 'string'),
+        `${at}.cuts`,
+        '컷 배열 형식이 올바르지 않습니다'
+      );
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Upgrades any saved/exported project to the current schema and validates the result.
+ * Throws `ProjectSchemaError` with a per-field report when the data cannot be used.
+ */
+export function migrateScriptData(raw: unknown): ScriptData {
+  if (!isObject(raw)) {
+    throw new ProjectSchemaError("프로젝트 데이터가 올바르지 않습니다.", [{ path: '(root)', message: `객체가 아닙니다 (받은 값: ${describe(raw)})` }]);
+  }
+
+  let version = detectSchemaVersion(raw);
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new ProjectSchemaError(`더 최신 버전(v${version})의 앱에서 저장된 프로젝트입니다. 앱을 업데이트해주세요.`);
+  }
+
+  let data: any = raw;
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new ProjectSchemaError(`v${version} 프로젝트를 변환할 수 없습니다.`);
+    }
+    data = migrate(data);
+    version++;
+  }
+
+  const issues = validateScriptData(data);
+  if (issues.length > 0) {
+    throw new ProjectSchemaError(`프로젝트 형식 오류 ${issues.length}건`, issues);
+  }
+
+  return { ...data, schema_version: CURRENT_SCHEMA_VERSION } as ScriptData;
+}
@@ -0,0 +1,64 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GenerateContentParameters, GenerateContentResponse } from '@google/genai';
+import { recordCall, replayCall, setCassetteMode } from './cassette';
+
+// The cassette keeps its mode in localStorage and announces changes on window
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, String(value)),
+  removeItem: (key: string) => storage.delete(key)
+});
+vi.stubGlobal('window', { dispatchEvent: () => true });
+
+const request = (prompt: string, temperature = 0.7): GenerateContentParameters => ({
+  model: 'gemini-2.5-flash',
+  contents: prompt,
+  config: { responseMimeType: 'application/json', temperature }
+});
+const response = (text: string) => ({ text, candidates: [{ finishReason: 'STOP' }] }) as unknown as GenerateContentResponse;
+
+let cassetteNo = 0;
+beforeEach(() => {
+  setCassetteMode('record', `test-${++cassetteNo}`);
+});
+
+const startReplay = () => setCassetteMode('replay');
+
+describe('cassette replay', () => {
+  it('answers identical requests in recorded order, then keeps repeating the last one', async () => {
+    await recordCall(request('topic'), { response: response('first') });
+    await recordCall(request('topic'), { response: response('retried') });
+    startReplay();
+
+    const texts = [];
+    for (let i = 0; i < 3; i++) texts.push((await replayCall(request('topic'))).text);
+    expect(texts).toEqual(['first', 'retried', 'retried']);
+  });
+
+  it('starts from the first recording again when the mode is set anew', async () => {
+    await recordCall(request('topic'), { response: response('first') });
+    await recordCall(request('topic'), { response: response('second') });
+    startReplay();
+    await replayCall(request('topic'));
+
+    startReplay();
+    expect((await replayCall(request('topic'))).text).toBe('first');
+  });
+
+  it('throws a recorded failure again', async () => {
+    await recordCall(request('topic'), { error: new Error('RESOURCE_EXHAUSTED: PerDay quota') });
+    startReplay();
+
+    await expect(replayCall(request('topic'))).rejects.toThrow('RESOURCE_EXHAUSTED: PerDay quota');
+  });
+
+  it('rejects requests that were never recorded, down to the config', async () => {
+    await recordCall(request('topic'), { response: response('first') });
+    startReplay();
+
+    await expect(replayCall(request('other topic'))).rejects.toThrow(/has no recording/);
+    await expect(replayCall(request('topic', 0))).rejects.toThrow(/has no recording/);
+  });
+});
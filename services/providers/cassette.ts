@@ -0,0 +1,128 @@
+import { get, set, del, keys, update, createStore } from 'idb-keyval';
+import { GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+
+// --- AI CALL CASSETTE ---
+// Records every generateContent request/response pair so odd outputs can be replayed
+// (bug reports, parser regressions) without a key or quota.
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export interface CassetteEntry {
+  id: string; // SHA-256 of the serialized request
+  recorded_at: number;
+  request: { model: string; contents: unknown; config?: unknown };
+  response?: { text?: string; candidates?: unknown; usageMetadata?: unknown };
+  error?: string; // Recorded failures are thrown again on replay
+}
+
+export interface Cassette {
+  name: string;
+  created_at: number;
+  entries: CassetteEntry[];
+}
+
+const cassetteStore = createStore('tube-director-cassettes', 'cassettes');
+const MODE_KEY = 'cassette_mode';
+const NAME_KEY = 'cassette_name';
+export const DEFAULT_CASSETTE = 'default';
+
+// Identical requests are answered in recorded order (e.g. a retried call)
+const replayCursor = new Map<string, number>();
+
+const notify = () => window.dispatchEvent(new CustomEvent('cassette-update'));
+
+export function getCassetteMode(): CassetteMode {
+  const mode = localStorage.getItem(MODE_KEY);
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+export function getActiveCassetteName(): string {
+  return localStorage.getItem(NAME_KEY) || DEFAULT_CASSETTE;
+}
+
+export function setCassetteMode(mode: CassetteMode, name: string = getActiveCassetteName()) {
+  localStorage.setItem(MODE_KEY, mode);
+  localStorage.setItem(NAME_KEY, name.trim() || DEFAULT_CASSETTE);
+  replayCursor.clear();
+  notify();
+}
+
+const serializeRequest = (params: GenerateContentParameters): CassetteEntry['request'] =>
+  JSON.parse(JSON.stringify({ model: params.model, contents: params.contents, config: params.config }));
+
+async function requestId(request: CassetteEntry['request']): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(request));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function loadCassette(name: string = getActiveCassetteName()): Promise<Cassette> {
+  return (await get<Cassette>(name, cassetteStore)) || { name, created_at: Date.now(), entries: [] };
+}
+
+export async function listCassettes(): Promise<string[]> {
+  return ((await keys(cassetteStore)) as string[]).sort();
+}
+
+export async function deleteCassette(name: string) {
+  await del(name, cassetteStore);
+  notify();
+}
+
+// Appends one call to the active cassette (success or failure)
+export async function recordCall(params: GenerateContentParameters, outcome: { response?: GenerateContentResponse; error?: unknown }) {
+  const request = serializeRequest(params);
+  const entry: CassetteEntry = {
+    id: await requestId(request),
+    recorded_at: Date.now(),
+    request,
+    response: outcome.response ? JSON.parse(JSON.stringify({
+      text: outcome.response.text,
+      candidates: outcome.response.candidates,
+      usageMetadata: outcome.response.usageMetadata
+    })) : undefined,
+    error: outcome.error !== undefined ? String((outcome.error as any)?.message ?? outcome.error) : undefined
+  };
+  const name = getActiveCassetteName();
+  await update<Cassette>(name, (cassette) => {
+    const current = cassette || { name, created_at: Date.now(), entries: [] };
+    return { ...current, entries: [...current.entries, entry] };
+  }, cassetteStore);
+  notify();
+}
+
+// Answers a call from the active cassette; throws when the request was never recorded
+export async function replayCall(params: GenerateContentParameters): Promise<GenerateContentResponse> {
+  const id = await requestId(serializeRequest(params));
+  const cassette = await loadCassette();
+  const matches = cassette.entries.filter(e => e.id === id);
+  if (matches.length === 0) {
+    throw new Error(`Cassette "${cassette.name}" has no recording for this ${params.model} request`);
+  }
+
+  const cursor = replayCursor.get(id) || 0;
+  replayCursor.set(id, cursor + 1);
+  const entry = matches[Math.min(cursor, matches.length - 1)];
+
+  if (entry.error) throw new Error(entry.error);
+  return entry.response as GenerateContentResponse; // Plain object: only text/candidates/usageMetadata are read
+}
+
+// --- FILE EXCHANGE ---
+
+export async function exportCassette(name: string = getActiveCassetteName()): Promise<Blob> {
+  const cassette = await loadCassette(name);
+  return new Blob([JSON.stringify(cassette, null, 2)], { type: 'application/json' });
+}
+
+export async function importCassette(file: File): Promise<Cassette> {
+  const parsed = JSON.parse(await file.text());
+  if (!parsed || !Array.isArray(parsed.entries)) {
+    throw new Error("올바른 카세트 파일이 아닙니다.");
+  }
+  const name = String(parsed.name || file.name.replace(/\.json$/i, '') || DEFAULT_CASSETTE);
+  const cassette: Cassette = { name, created_at: parsed.created_at || Date.now(), entries: parsed.entries };
+  await set(name, cassette, cassetteStore);
+  notify();
+  return cassette;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from 'vitest';
+import { geminiProvider } from './gemini';
+
+const { streamCalls } = vi.hoisted(() => ({ streamCalls: [] as any[] }));
+
+// One chunk, then a stream that never delivers another one
+vi.mock('@google/genai', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@google/genai')>()),
+  GoogleGenAI: class {
+    models = {
+      generateContentStream: async (params: any) => {
+        streamCalls.push(params);
+        return (async function* () {
+          yield { text: '{"scenes": [', candidates: [{}] };
+          await new Promise(() => {});
+        })();
+      }
+    };
+  }
+}));
+vi.mock('./cassette', () => ({ getCassetteMode: () => 'off', recordCall: vi.fn(), replayCall: vi.fn() }));
+vi.mock('../settings', () => ({ getSettings: () => ({ safetyThreshold: 'BLOCK_NONE' }), getApiKey: () => 'test-key' }));
+vi.mock('../workerClient', () => ({ encodeWav: vi.fn() }));
+
+describe('streamed json answers', () => {
+  it('hands the stop signal to the SDK and returns the text received when it fires', async () => {
+    const controller = new AbortController();
+    const received: string[] = [];
+
+    const result = await geminiProvider.capabilities.json!({
+      model: 'gemini-2.5-flash',
+      task: 'script',
+      prompt: 'topic',
+      signal: controller.signal,
+      onText: (text) => {
+        received.push(text);
+        setTimeout(() => controller.abort(), 0); // While the stream is stalled
+      }
+    });
+
+    expect(streamCalls[0].config.abortSignal).toBe(controller.signal);
+    expect(received).toEqual(['{"scenes": [']);
+    expect(result.text).toBe('{"scenes": [');
+  });
+});
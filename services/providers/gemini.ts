@@ -0,0 +1,322 @@
+import { GoogleGenAI, Modality, HarmCategory, HarmBlockThreshold, GenerateContentParameters, GenerateContentResponse, Schema, Type } from "@google/genai";
+import { AIProvider, UsageMetadata } from './types';
+import { JsonSchema } from '../responseSchemas';
+import { encodeWav } from '../workerClient';
+import { getCassetteMode, recordCall, replayCall } from './cassette';
+import { getSettings, getApiKey } from '../settings';
+import {
+  AIError, classifyError, QuotaExhaustedError, RateLimitedError, ServerOverloadedError, SafetyBlockedError, AuthError
+} from '../aiErrors';
+
+// Gemini client, rebuilt when the key changes in settings
+let client: { key: string; ai: GoogleGenAI } | null = null;
+const getClient = (apiKey: string = getApiKey()) => {
+  if (!client || client.key !== apiKey) {
+    client = { key: apiKey, ai: new GoogleGenAI({ apiKey }) };
+  }
+  return client.ai;
+};
+
+// --- SAFETY SETTINGS ---
+const HARM_CATEGORIES = [
+  HarmCategory.HARM_CATEGORY_HARASSMENT,
+  HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+];
+const safetySettings = () => {
+  const threshold = getSettings().safetyThreshold as HarmBlockThreshold;
+  return HARM_CATEGORIES.map(category => ({ category, threshold }));
+};
+
+// Agent-specific temperature wins; otherwise the settings default (if any)
+const temperatureFor = (requested?: number) => requested ?? getSettings().temperature ?? undefined;
+
+// --- ERROR CLASSIFICATION ---
+
+// "retryDelay": "37s" (RetryInfo detail) or "Please retry in 37.5s."
+const parseRetryDelay = (message: string): number | undefined => {
+  const match = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/) || message.match(/retry in (\d+(?:\.\d+)?)s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+const classifyGeminiError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+  const status = (error as any)?.status;
+  const message = String((error as any)?.message ?? error);
+
+  if (status === 429 || message.includes('RESOURCE_EXHAUSTED')) {
+    // Daily buckets carry quota ids like "GenerateRequestsPerDayPerProjectPerModel-FreeTier"
+    if (/PerDay/i.test(message)) return new QuotaExhaustedError(message, { cause: error });
+    return new RateLimitedError(message, { retryAfterMs: parseRetryDelay(message), cause: error });
+  }
+  if (status === 400 && /API[_ ]?KEY/i.test(message)) return new AuthError(message, { cause: error });
+  if (/overloaded|UNAVAILABLE/i.test(message)) return new ServerOverloadedError(message, { cause: error });
+  return classifyError(error);
+};
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new SafetyBlockedError(`Prompt blocked: ${blockReason}`);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new SafetyBlockedError(`Output blocked: ${finishReason}`);
+  }
+};
+
+// Rejects as soon as `signal` fires, so a stalled call or stream is never waited on
+const whenAborted = (signal?: AbortSignal) => new Promise<never>((_, reject) => {
+  if (!signal) return;
+  if (signal.aborted) reject(signal.reason);
+  signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+});
+
+// The signal only goes to the SDK call: recorded requests stay identical to replayed ones
+const withAbort = (params: GenerateContentParameters, signal?: AbortSignal): GenerateContentParameters =>
+  signal ? { ...params, config: { ...params.config, abortSignal: signal } } : params;
+
+// Single choke point for every SDK call (also where the cassette records/replays); `signal` cancels it
+const generateContent = async (params: GenerateContentParameters, signal?: AbortSignal): Promise<GenerateContentResponse> => {
+  const mode = getCassetteMode();
+  let response: GenerateContentResponse;
+
+  try {
+    if (mode === 'replay') {
+      response = await replayCall(params);
+    } else {
+      response = await Promise.race([getClient().models.generateContent(withAbort(params, signal)), whenAborted(signal)]);
+      if (mode === 'record') await recordCall(params, { response });
+    }
+  } catch (error) {
+    if (mode === 'record' && !signal?.aborted) await recordCall(params, { error });
+    throw classifyGeminiError(error);
+  }
+
+  assertNotBlocked(response);
+  return response;
+};
+
+/**
+ * Streamed generateContent: reports the accumulated text per chunk and returns the combined response.
+ * `signal` cancels the HTTP request and ends the wait at once; the text received until then is returned.
+ * The cassette stores (and replays) the combined response, so recordings match non-streamed calls;
+ * an answer cut short by `signal` is returned but never recorded.
+ */
+const streamContent = async (
+  params: GenerateContentParameters,
+  onText: (textSoFar: string) => void,
+  signal?: AbortSignal
+): Promise<GenerateContentResponse> => {
+  const mode = getCassetteMode();
+  if (mode === 'replay') {
+    const replayed = await generateContent(params);
+    onText(replayed.text || '');
+    return replayed;
+  }
+
+  let text = '';
+  let last: GenerateContentResponse | undefined;
+  const stopped = whenAborted(signal);
+  try {
+    const stream = await Promise.race([getClient().models.generateContentStream(withAbort(params, signal)), stopped]);
+    const chunks = stream[Symbol.asyncIterator]();
+    try {
+      while (true) {
+        const next = await Promise.race([chunks.next(), stopped]);
+        if (next.done) break;
+        assertNotBlocked(next.value);
+        last = next.value;
+        text += next.value.text || '';
+        onText(text);
+      }
+    } finally {
+      if (signal?.aborted) chunks.return?.(undefined)?.catch(() => {}); // Let the SDK release the connection
+    }
+  } catch (error) {
+    if (!signal?.aborted) {
+      if (mode === 'record') await recordCall(params, { error });
+      throw classifyGeminiError(error);
+    }
+  }
+
+  // Plain object like a replayed one: only text/candidates/usageMetadata are read
+  const response = {
+    text,
+    candidates: last?.candidates?.map(candidate => ({ ...candidate, content: { role: 'model', parts: [{ text }] } })),
+    usageMetadata: last?.usageMetadata
+  } as GenerateContentResponse;
+  if (mode === 'record' && !signal?.aborted) await recordCall(params, { response });
+  return response;
+};
+
+const firstInlineData = (response: GenerateContentResponse) =>
+  response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+
+// Replayed cassette calls cost nothing, so they report no usage
+const usageOf = (response: GenerateContentResponse): UsageMetadata | undefined => {
+  if (getCassetteMode() === 'replay') return undefined;
+  const meta = response.usageMetadata;
+  const media = (prefix: string) =>
+    (response.candidates?.[0]?.content?.parts || []).filter(part => part.inlineData?.mimeType?.startsWith(prefix)).length;
+  return {
+    promptTokens: meta?.promptTokenCount || 0,
+    outputTokens: (meta?.candidatesTokenCount || 0) + (meta?.thoughtsTokenCount || 0),
+    images: media('image/'),
+    audio: media('audio/')
+  };
+};
+
+const SCHEMA_TYPES: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN
+};
+
+// Our provider-neutral schema → Gemini's OpenAPI subset
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: SCHEMA_TYPES[schema.type],
+  description: schema.description,
+  nullable: schema.nullable,
+  enum: schema.enum,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([key, child]) => [key, toGeminiSchema(child)]))
+    : undefined,
+  // Keeps the model's output in the documented field order
+  propertyOrdering: schema.properties ? Object.keys(schema.properties) : undefined,
+  required: schema.required,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined,
+  minItems: schema.minItems !== undefined ? String(schema.minItems) : undefined,
+  maxItems: schema.maxItems !== undefined ? String(schema.maxItems) : undefined
+});
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModels: {
+    text: 'gemini-2.5-flash',
+    json: 'gemini-2.5-flash',
+    image: 'gemini-2.5-flash-image',
+    speech: 'gemini-2.5-flash-preview-tts',
+    vision: 'gemini-2.5-flash',
+    video: 'veo-3.1-fast-generate-preview'
+  },
+  // Free tier limits
+  rateLimits: {
+    'gemini-2.5-flash': { rpm: 10, tpm: 250000, rpd: 250 },
+    'gemini-2.5-flash-image': { rpm: 10, tpm: 250000, rpd: 100 },
+    'gemini-2.5-flash-preview-tts': { rpm: 3, tpm: 10000, rpd: 100 },
+    'veo-3.1-fast-generate-preview': { rpm: 2, tpm: 250000, rpd: 10 }
+  },
+  capabilities: {
+    text: async (req) => {
+      const response = await generateContent({
+        model: req.model,
+        contents: req.prompt,
+        config: {
+          systemInstruction: req.systemInstruction,
+          temperature: temperatureFor(req.temperature),
+          tools: req.useSearch ? [{ googleSearch: {} }] : undefined,
+          safetySettings: safetySettings()
+        }
+      });
+      return { text: response.text || '', finishReason: response.candidates?.[0]?.finishReason, usage: usageOf(response) };
+    },
+
+    json: async (req) => {
+      const params: GenerateContentParameters = {
+        model: req.model,
+        contents: req.prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: req.responseSchema ? toGeminiSchema(req.responseSchema) : undefined,
+          systemInstruction: req.systemInstruction,
+          temperature: temperatureFor(req.temperature),
+          safetySettings: safetySettings()
+        }
+      };
+      const response = req.onText ? await streamContent(params, req.onText, req.signal) : await generateContent(params, req.signal);
+      return { text: response.text || '', finishReason: response.candidates?.[0]?.finishReason, usage: usageOf(response) };
+    },
+
+    image: async (req) => {
+      const parts: any[] = [];
+      if (req.layoutGuide) {
+        parts.push({ inlineData: { mimeType: 'image/png', data: req.layoutGuide.split(',')[1] } });
+      }
+      parts.push({ text: req.prompt });
+
+      const response = await generateContent({
+        model: req.model, contents: { parts: parts }, config: { safetySettings: safetySettings() }
+      });
+      const data = firstInlineData(response);
+      return { dataUrl: data ? `data:image/png;base64,${data}` : "", usage: usageOf(response) };
+    },
+
+    speech: async (req) => {
+      const response = await generateContent({
+        model: req.model,
+        contents: { parts: [{ text: req.text }] },
+        config: { responseModalities: [Modality.AUDIO], speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: req.voice } } } },
+      });
+      const pcmBase64 = firstInlineData(response);
+      // WAV encoding runs in the pipeline worker so long narrations do not block the UI
+      return { dataUrl: pcmBase64 ? `data:audio/wav;base64,${await encodeWav(pcmBase64)}` : "", usage: usageOf(response) };
+    },
+
+    vision: async (req) => {
+      const response = await generateContent({
+        model: req.model,
+        contents: {
+          parts: [
+            { inlineData: { mimeType: 'image/png', data: req.imageDataUrl.split(',')[1] } },
+            { text: req.prompt }
+          ]
+        },
+        config: req.json
+          ? { responseMimeType: "application/json", responseSchema: req.responseSchema ? toGeminiSchema(req.responseSchema) : undefined }
+          : {}
+      });
+      return { text: response.text || '', finishReason: response.candidates?.[0]?.finishReason, usage: usageOf(response) };
+    },
+
+    video: async (req) => {
+      // NOTE: Veo requires a paid tier. The real call is kept here for paid keys:
+      /*
+      const operation = await getClient().models.generateVideos({
+          model: req.model,
+          image: {
+              imageBytes: req.imageDataUrl.split(',')[1],
+              mimeType: 'image/png'
+          },
+          prompt: req.prompt,
+          config: {
+              numberOfVideos: 1,
+              aspectRatio: '16:9',
+              resolution: '720p'
+          }
+      });
+      // ... polling logic ...
+      */
+
+      // FOR NOW: Fail immediately so the agent falls back to the 2x2 grid ("Veo API is not free").
+      throw new Error("Veo API unavailable in free tier");
+    }
+  }
+};
+
+// [NEW] Settings "test connection": checks the key and model IDs without spending generation quota
+export async function testGeminiConnection(apiKey: string, models: string[]): Promise<void> {
+  const ai = new GoogleGenAI({ apiKey });
+  try {
+    for (const model of models) {
+      await ai.models.get({ model });
+    }
+  } catch (error) {
+    throw classifyGeminiError(error);
+  }
+}
@@ -0,0 +1,48 @@
+import { registerProvider, selectProvider, clearSelections, listProviders } from './registry';
+import { geminiProvider } from './gemini';
+import { mockProvider } from './mock';
+import { Capability } from './types';
+import { getCassetteMode } from './cassette';
+import { getSettings, getApiKey } from '../settings';
+
+// Built-in providers. Registration order decides the default per capability.
+registerProvider(geminiProvider);
+registerProvider(mockProvider);
+
+export const CAPABILITIES: Capability[] = ['text', 'json', 'image', 'speech', 'vision', 'video'];
+
+let offline = false;
+
+// [NEW] Offline mode: no API key configured, or opened with ?offline
+// (a replaying cassette answers Gemini calls without a key, so it keeps the real provider)
+function applySettings() {
+  const settings = getSettings();
+  offline = getCassetteMode() !== 'replay'
+    && (!getApiKey() || new URLSearchParams(window.location.search).has('offline'));
+
+  clearSelections();
+  CAPABILITIES.forEach(cap => {
+    if (offline) {
+      selectProvider(cap, mockProvider.id);
+      return;
+    }
+    const providerId = settings.providers[cap];
+    if (providerId && listProviders(cap).some(p => p.id === providerId)) {
+      selectProvider(cap, providerId, settings.models[cap]);
+    } else if (settings.models[cap]) {
+      selectProvider(cap, geminiProvider.id, settings.models[cap]);
+    }
+  });
+  if (offline) console.info("Offline mode: all AI calls are served by the mock provider");
+}
+
+applySettings();
+window.addEventListener('settings-update', applySettings);
+window.addEventListener('cassette-update', applySettings);
+
+export const isOfflineMode = () => offline;
+
+export * from './types';
+export * from './registry';
+export * from './cassette';
+export { testGeminiConnection } from './gemini';
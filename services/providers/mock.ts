@@ -0,0 +1,377 @@
+import { AIProvider, JsonRequest, TextResult } from './types';
+import { createWavHeader, uint8ArrayToBase64, TTS_SAMPLE_RATE } from '../../utils/audio';
+
+// --- OFFLINE MOCK PROVIDER ---
+// Deterministic stand-in for every capability so the whole pipeline runs without a key or network.
+// Same input → same output; results are shaped like the raw Gemini answers the agents parse.
+
+const WIDTH = 1280;
+const HEIGHT = 720;
+const SECONDS_PER_CHAR = 0.2; // Roughly the pace of Korean TTS narration
+
+// FNV-1a, enough to seed colors/picks from a prompt
+function hashString(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+const pick = <T>(items: T[], seed: number, offset = 0): T => items[(seed + offset) % items.length];
+
+const json = (value: unknown): TextResult => ({ text: JSON.stringify(value), finishReason: 'STOP' });
+
+const STREAM_CHUNK_CHARS = 160;
+const STREAM_CHUNK_MS = 30;
+
+// Streamed answers arrive in small chunks with a short pause, so the live preview is visible offline
+const streamOut = async (result: TextResult, onText: (textSoFar: string) => void, signal?: AbortSignal): Promise<TextResult> => {
+  for (let end = STREAM_CHUNK_CHARS; ; end += STREAM_CHUNK_CHARS) {
+    await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_MS));
+    const text = result.text.slice(0, end);
+    onText(text);
+    if (end >= result.text.length) return result;
+    if (signal?.aborted) return { text };
+  }
+};
+
+// --- SCRIPT FIXTURES ---
+
+const PHASES = ['Hook', 'History', 'Deep Analysis', 'Counterarguments', 'Future Prediction', 'Conclusion'];
+const LAYOUTS = ['SINGLE', 'SPLIT_V', 'SINGLE', 'GRID_2X2', 'SPLIT_H', 'SINGLE', 'TRI_BOT_SPLIT', 'TRI_TOP_SPLIT'];
+const TONES = ['serious', 'excited', 'calm', 'serious', 'whisper'];
+
+const PHASE_LINES: Record<string, string[]> = {
+  'Hook': [
+    '오늘 우리가 이야기할 주제는 바로 {topic}입니다.',
+    '대부분의 사람들은 이 사건의 진짜 의미를 모르고 지나칩니다.',
+    '하지만 그 뒤에는 놀라운 이야기가 숨어 있습니다.'
+  ],
+  'History': [
+    '먼저 {topic}의 시작을 살펴보겠습니다.',
+    '처음에는 아무도 이 변화가 이렇게 커질 거라고 생각하지 않았습니다.',
+    '작은 사건들이 쌓이면서 흐름이 완전히 바뀌었습니다.'
+  ],
+  'Deep Analysis': [
+    '첫 번째 관점은 경제적인 영향입니다.',
+    '두 번째 관점은 사람들의 일상에 미친 변화입니다.',
+    '세 번째 관점은 앞으로의 권력 구도입니다.'
+  ],
+  'Counterarguments': [
+    '물론 반대 의견도 만만치 않습니다.',
+    '일부 전문가들은 {topic}이 과장되었다고 말합니다.'
+  ],
+  'Future Prediction': [
+    '그렇다면 앞으로는 어떻게 될까요?',
+    '앞으로 몇 년이 결정적인 분기점이 될 것입니다.'
+  ],
+  'Conclusion': [
+    '결국 {topic}은 우리 모두의 이야기입니다.',
+    '여러분의 생각은 어떠신가요? 댓글로 남겨주세요.'
+  ]
+};
+
+const buildRawScene = (narration: string, phase: string, seed: number, index: number) => {
+  const layout = pick(LAYOUTS, seed, index);
+  const isVideo = (seed + index) % 9 === 4;
+  return {
+    scene_index: index + 1,
+    step_phase: phase,
+    type: isVideo ? 'video' : 'image',
+    layout,
+    duration_prediction: Math.max(3, Math.min(8, narration.length * 0.25)),
+    scripts: {
+      narration,
+      tts_text: narration,
+      subtitles: [narration],
+      voice_tone: pick(TONES, seed, index)
+    },
+    prompts: {
+      visual_prompt: `Documentary still about "${phase}", scene ${index + 1}, cinematic lighting`,
+      motion_strength: isVideo ? 5 : 0
+    }
+  };
+};
+
+const buildScriptPackage = (title: string, scenes: any[], genre = 'Documentary') => ({
+  meta: {
+    title,
+    description: `${title} — 오프라인 모드에서 생성된 샘플 대본입니다.`,
+    tags: ['offline', 'mock', genre],
+    genre,
+    thumbnail_prompt: `Dramatic YouTube thumbnail about ${title}`,
+    bgm_mood: 'Tense ambient'
+  },
+  global_style: {
+    art_style: 'Cinematic documentary illustration',
+    main_character_desc: null
+  },
+  scenes
+});
+
+// Staged writer: outline from the fixed phases, chapter text from their lines, scenes per sentence
+const mockOutline = (topic: string) => {
+  const base = buildScriptPackage(topic, []);
+  return {
+    meta: base.meta,
+    global_style: base.global_style,
+    chapters: PHASES.map(phase => ({
+      phase,
+      title: `${phase} — ${topic}`,
+      summary: `${topic}의 ${phase} 파트 (오프라인 샘플)`,
+      key_points: PHASE_LINES[phase].map(line => line.replace('{topic}', topic)),
+      target_chars: 120
+    }))
+  };
+};
+
+const mockChapter = (topic: string, phase: string) => ({
+  narration: (PHASE_LINES[phase] || PHASE_LINES['Conclusion']).map(line => line.replace('{topic}', topic)).join(' ')
+});
+
+const mockChapterScenes = (phase: string, text: string) => {
+  const seed = hashString(text);
+  const sentences: string[] = text.match(/[^.?!]+[.?!]*/g)?.map(s => s.trim()).filter(Boolean) || [text];
+  return { scenes: sentences.map((sentence, i) => buildRawScene(sentence, phase, seed, i)) };
+};
+
+// Adaptation keeps the user's text as-is and only splits it (like the real editor prompt asks)
+const mockAdaptation = (rawText: string) => {
+  const seed = hashString(rawText);
+  const paragraphs = rawText.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+  const scenes = paragraphs.map((p, i) =>
+    buildRawScene(p.replace(/\s+/g, ' '), PHASES[Math.min(PHASES.length - 1, Math.floor(i * PHASES.length / paragraphs.length))], seed, i)
+  );
+  const title = (paragraphs[0] || '각색 원고').slice(0, 30);
+  return buildScriptPackage(title, scenes);
+};
+
+const mockRewrite = (original: any, mode: string) => {
+  const scenes: any[] = Array.isArray(original?.scenes) ? original.scenes : [];
+  const rewritten = mode === 'longer'
+    ? scenes.flatMap((scene, i) => i % 3 === 2
+        ? [scene, { ...scene, scripts: { ...scene.scripts, narration: '여기서 한 가지 더 짚고 넘어가야 할 점이 있습니다.', tts_text: '여기서 한 가지 더 짚고 넘어가야 할 점이 있습니다.' } }]
+        : [scene])
+    : scenes.filter((_, i) => i % 3 !== 2);
+  // Drop asset state like a fresh model answer would
+  return {
+    ...original,
+    scenes: rewritten.map((s, i) => ({ ...s, assets: undefined, progress_status: undefined, scene_index: i + 1 }))
+  };
+};
+
+const mockTopics = (category: string) => {
+  const seed = hashString(category);
+  const subjects = ['숨겨진 진실', '최신 속보', '전문가도 놀란 반전', '알려지지 않은 역사', '논란의 중심', '미래를 바꿀 발견'];
+  return subjects.map((subject, i) => ({
+    title: `[${category}] ${subject} #${((seed >> i) & 0xff) + 1}`,
+    context: `${category} 분야에서 최근 화제가 된 "${subject}" 관련 샘플 토픽입니다.`,
+    url: `https://example.com/${encodeURIComponent(category)}/${i + 1}`,
+    type: i % 2 === 0 ? 'breaking' : 'viral'
+  }));
+};
+
+const mockCuts = (narration: string) => {
+  const sentences: string[] = narration.match(/[^.?!]+[.?!]*/g)?.map(s => s.trim()).filter(Boolean) || [narration];
+  const cuts = [1, 2, 3, 4].map(n => ({ cut_no: n, narration: '', visual_detail: `Panel ${n}: Offline placeholder` }));
+  sentences.forEach((s, i) => {
+    const cut = cuts[Math.min(3, Math.floor(i * 4 / sentences.length))];
+    cut.narration = cut.narration ? `${cut.narration} ${s}` : s;
+  });
+  // Short narration: split by characters so every panel still has text
+  if (cuts.some(c => !c.narration)) {
+    const size = Math.ceil(narration.length / 4);
+    cuts.forEach((c, i) => { c.narration = narration.slice(i * size, (i + 1) * size) || narration; });
+  }
+  return cuts;
+};
+
+// Pulls the quoted value following a label out of an agent prompt
+const extractQuoted = (prompt: string, label: string) => prompt.match(new RegExp(`${label}:\\s*"([^"]*)"`))?.[1] || '';
+
+// JSON answers by agent step (see the `task` labels in geminiService)
+const answerJson = (req: JsonRequest): TextResult => {
+  switch (req.task) {
+    case 'outline':
+      return json(mockOutline(extractQuoted(req.prompt, 'TOPIC')));
+    case 'chapter':
+      return json(mockChapter(extractQuoted(req.prompt, 'TOPIC'), extractQuoted(req.prompt, 'CHAPTER PHASE')));
+    case 'chapter-scenes':
+      return json(mockChapterScenes(extractQuoted(req.prompt, 'CHAPTER PHASE'), req.prompt.split('CHAPTER TEXT:\n')[1] || ''));
+    case 'adaptation':
+      return json(mockAdaptation(req.prompt.replace(/^RAW SCRIPT:\s*/, '')));
+    case 'rewrite': {
+      const original = JSON.parse(req.prompt.replace(/^ORIGINAL JSON DATA:\s*/, ''));
+      const mode = req.systemInstruction?.match(/MODE: (\w+)/)?.[1] || 'longer';
+      return json(mockRewrite(original, mode));
+    }
+    case 'scene-rewrite': {
+      // Instruction tagged onto each narration; visuals kept so only audio is invalidated
+      const instruction = extractQuoted(req.prompt, 'INSTRUCTION');
+      const scenes = JSON.parse(req.prompt.split('SCENES TO REWRITE:\n')[1]?.split('\n\nCONTEXT AFTER')[0] || '[]');
+      return json({
+        scenes: scenes.map((scene: any) => {
+          const narration = `(${instruction}) ${scene.scripts.narration}`;
+          return {
+            scene_index: scene.scene_index,
+            scripts: { ...scene.scripts, narration, tts_text: narration, subtitles: [narration] },
+            visual_prompt: scene.visual_prompt
+          };
+        })
+      });
+    }
+    case 'topics': {
+      // Re-parse the Title|Context|URL lines produced by the search step
+      const lines = req.prompt.split('Text: ')[1]?.split('\n').filter(l => l.includes('|')) || [];
+      return json(lines.map((line, i) => {
+        const [title, context, url] = line.split('|');
+        return { title, context, url, type: i % 2 === 0 ? 'breaking' : 'viral' };
+      }));
+    }
+    case 'repair':
+      // Echo the JSON back; mock answers already match their schemas
+      return { text: req.prompt.split('JSON TO FIX:\n')[1] || '{}', finishReason: 'STOP' };
+    case 'split-cuts':
+      return json(mockCuts(extractQuoted(req.prompt, 'Input Narration')));
+    default:
+      return json({});
+  }
+};
+
+// --- MEDIA ---
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = reject;
+  img.src = src;
+});
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const char of text) {
+    if (ctx.measureText(line + char).width > maxWidth) {
+      lines.push(line);
+      line = char.trimStart();
+    } else {
+      line += char;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+const renderPlaceholder = async (prompt: string, layout: string, layoutGuide?: string): Promise<string> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = WIDTH;
+  canvas.height = HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return "";
+
+  const hue = hashString(prompt) % 360;
+  const gradient = ctx.createLinearGradient(0, 0, WIDTH, HEIGHT);
+  gradient.addColorStop(0, `hsl(${hue}, 45%, 28%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 45%, 14%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, WIDTH, HEIGHT);
+
+  // Panel borders straight from the same guide the real model receives
+  if (layoutGuide) {
+    const guide = await loadImage(layoutGuide);
+    ctx.globalCompositeOperation = 'multiply';
+    ctx.drawImage(guide, 0, 0, WIDTH, HEIGHT);
+    ctx.globalCompositeOperation = 'source-over';
+  }
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  ctx.fillRect(60, HEIGHT - 260, WIDTH - 120, 200);
+  ctx.fillStyle = '#fbbf24';
+  ctx.font = 'bold 28px sans-serif';
+  ctx.fillText(`OFFLINE MOCK · ${layout}`, 90, HEIGHT - 215);
+  ctx.fillStyle = '#f1f5f9';
+  ctx.font = '24px sans-serif';
+  wrapText(ctx, prompt, WIDTH - 180).slice(0, 4).forEach((line, i) => {
+    ctx.fillText(line, 90, HEIGHT - 170 + i * 32);
+  });
+
+  return canvas.toDataURL('image/png');
+};
+
+// Quiet tone with a syllable-like envelope; length follows the narration so durations look real
+const synthesizeSpeech = (text: string): string => {
+  const seconds = Math.max(1, text.trim().length * SECONDS_PER_CHAR);
+  const sampleCount = Math.round(seconds * TTS_SAMPLE_RATE);
+  const pcm = new Uint8Array(sampleCount * 2);
+  const view = new DataView(pcm.buffer);
+  const baseFreq = 140 + (hashString(text) % 80);
+
+  for (let i = 0; i < sampleCount; i++) {
+    const t = i / TTS_SAMPLE_RATE;
+    const envelope = 0.5 - 0.5 * Math.cos(2 * Math.PI * 4 * t); // ~4 syllables per second
+    const sample = Math.sin(2 * Math.PI * baseFreq * t) * envelope * 0.15;
+    view.setInt16(i * 2, Math.round(sample * 0x7fff), true);
+  }
+
+  const wav = new Uint8Array(44 + pcm.length);
+  wav.set(createWavHeader(pcm.length));
+  wav.set(pcm, 44);
+  return `data:audio/wav;base64,${uint8ArrayToBase64(wav)}`;
+};
+
+// --- PROVIDER ---
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  label: '오프라인 Mock',
+  defaultModels: {
+    text: 'mock-text',
+    json: 'mock-text',
+    image: 'mock-image',
+    speech: 'mock-tts',
+    vision: 'mock-text',
+    video: 'mock-veo'
+  },
+  // Generous, but still finite so the scheduler's limiting can be observed offline
+  rateLimits: {
+    'mock-text': { rpm: 120, tpm: 1000000, rpd: 100000 },
+    'mock-image': { rpm: 60, tpm: 1000000, rpd: 100000 },
+    'mock-tts': { rpm: 60, tpm: 1000000, rpd: 100000 },
+    'mock-veo': { rpm: 60, tpm: 1000000, rpd: 100000 }
+  },
+  capabilities: {
+    text: async (req) => {
+      if (req.task === 'topic-search') {
+        const query = req.prompt.match(/truths in (.+?) \(/)?.[1] || 'General';
+        return {
+          text: mockTopics(query).map(t => `${t.title}|${t.context}|${t.url}`).join('\n'),
+          finishReason: 'STOP'
+        };
+      }
+      return { text: `[mock:${req.task}] ${req.prompt.slice(0, 200)}`, finishReason: 'STOP' };
+    },
+
+    json: async (req) => {
+      const result = answerJson(req);
+      return req.onText ? streamOut(result, req.onText, req.signal) : result;
+    },
+
+    image: async (req) => {
+      const content = req.prompt.replace(/^(Fill panels\. Content|Prompt):\s*/, '');
+      return { dataUrl: await renderPlaceholder(content, req.layout || 'SINGLE', req.layoutGuide) };
+    },
+
+    speech: async (req) => ({ dataUrl: synthesizeSpeech(req.text) }),
+
+    vision: async (req) => req.json
+      ? json({ detected_layout: 'SINGLE', panel_count: 1, description: 'Offline mock inspection' })
+      : { text: 'Offline mock inspection', finishReason: 'STOP' },
+
+    video: async () => {
+      // Same outcome as a free-tier key, so the 2x2 grid fallback gets exercised
+      throw new Error("Video generation unavailable in offline mode");
+    }
+  }
+};
@@ -0,0 +1,55 @@
+import { AIProvider, Capability, CapabilityHandlers } from './types';
+
+const providers = new Map<string, AIProvider>();
+
+// Explicit choice per capability; unset capabilities fall back to the first registered provider supporting them
+const selection: Partial<Record<Capability, string>> = {};
+const modelOverrides: Partial<Record<Capability, string>> = {};
+
+export function registerProvider(provider: AIProvider) {
+  providers.set(provider.id, provider);
+}
+
+export function listProviders(capability?: Capability): AIProvider[] {
+  const all = Array.from(providers.values());
+  return capability ? all.filter(p => !!p.capabilities[capability]) : all;
+}
+
+export function selectProvider(capability: Capability, providerId: string, model?: string) {
+  const provider = providers.get(providerId);
+  if (!provider || !provider.capabilities[capability]) {
+    throw new Error(`Provider "${providerId}" does not support ${capability}`);
+  }
+  selection[capability] = providerId;
+  if (model) modelOverrides[capability] = model;
+  else delete modelOverrides[capability];
+}
+
+export function clearSelections() {
+  (Object.keys(selection) as Capability[]).forEach(cap => delete selection[cap]);
+  (Object.keys(modelOverrides) as Capability[]).forEach(cap => delete modelOverrides[cap]);
+}
+
+export function getSelectedProviderId(capability: Capability): string | undefined {
+  return selection[capability] || listProviders(capability)[0]?.id;
+}
+
+export interface ResolvedCapability<C extends Capability> {
+  provider: AIProvider;
+  model: string;
+  handler: CapabilityHandlers[C];
+}
+
+export function resolveCapability<C extends Capability>(capability: C): ResolvedCapability<C> {
+  const providerId = getSelectedProviderId(capability);
+  const provider = providerId ? providers.get(providerId) : undefined;
+  const handler = provider?.capabilities[capability];
+  if (!provider || !handler) {
+    throw new Error(`No AI provider registered for ${capability}`);
+  }
+  return {
+    provider,
+    model: (selection[capability] === provider.id && modelOverrides[capability]) || provider.defaultModels[capability] || provider.id,
+    handler: handler as CapabilityHandlers[C]
+  };
+}
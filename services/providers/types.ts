@@ -0,0 +1,96 @@
+import { LayoutType } from '../../types';
+import type { JsonSchema } from '../responseSchemas';
+
+// --- AI PROVIDER CONTRACT ---
+// Agents in geminiService.ts build prompts and parse results; providers only move bytes to and from a backend.
+
+export type Capability = 'text' | 'json' | 'image' | 'speech' | 'vision' | 'video';
+
+interface BaseRequest {
+  model: string;
+  task: string; // Short label of the calling agent step (e.g. 'script', 'inspection'), used for logs/mocks
+}
+
+export interface TextRequest extends BaseRequest {
+  prompt: string;
+  systemInstruction?: string;
+  temperature?: number;
+  useSearch?: boolean; // Ground the answer with web search where supported
+}
+
+// Same shape as text; the provider must ask the backend for a JSON-only answer (matching the schema if given)
+export interface JsonRequest extends Omit<TextRequest, 'useSearch'> {
+  responseSchema?: JsonSchema;
+  onText?: (textSoFar: string) => void; // Stream the answer; called with the accumulated text as it arrives
+  signal?: AbortSignal; // Cancels the call; a streamed answer returns the text received so far instead
+}
+
+export interface ImageRequest extends BaseRequest {
+  prompt: string;
+  layout?: LayoutType;
+  layoutGuide?: string; // PNG data URL with panel borders (see utils/layoutGenerator)
+}
+
+export interface SpeechRequest extends BaseRequest {
+  text: string;
+  voice: string;
+  tone: string;
+}
+
+export interface VisionRequest extends BaseRequest {
+  imageDataUrl: string;
+  prompt: string;
+  json?: boolean;
+  responseSchema?: JsonSchema; // Only with json
+}
+
+export interface VideoRequest extends BaseRequest {
+  imageDataUrl: string;
+  prompt: string;
+  motionStrength: number;
+  durationSeconds: number;
+}
+
+// Billing-relevant counts reported by the backend for one call
+export interface UsageMetadata {
+  promptTokens: number;
+  outputTokens: number;
+  images?: number;
+  audio?: number;
+  videos?: number;
+}
+
+export interface TextResult {
+  text: string;
+  finishReason?: string;
+  usage?: UsageMetadata;
+}
+
+export interface MediaResult {
+  dataUrl: string; // Empty string when the backend answered without media
+  usage?: UsageMetadata;
+}
+
+export interface CapabilityHandlers {
+  text: (req: TextRequest) => Promise<TextResult>;
+  json: (req: JsonRequest) => Promise<TextResult>;
+  image: (req: ImageRequest) => Promise<MediaResult>;
+  speech: (req: SpeechRequest) => Promise<MediaResult>;
+  vision: (req: VisionRequest) => Promise<TextResult>;
+  video: (req: VideoRequest) => Promise<MediaResult>;
+}
+
+// Per-model throughput the scheduler's token buckets are sized to
+export interface RateLimit {
+  rpm: number; // Requests per minute
+  tpm: number; // Tokens per minute (input + output estimate)
+  rpd?: number; // Requests per day (reset at midnight Pacific time)
+}
+
+export interface AIProvider {
+  id: string;
+  label: string;
+  defaultModels: Partial<Record<Capability, string>>;
+  rateLimits?: Record<string, RateLimit>;
+  capabilities: Partial<CapabilityHandlers>;
+}
@@ -0,0 +1,203 @@
+import { LayoutType } from '../types';
+import type { SchemaIssue } from './projectSchema';
+
+// --- RESPONSE SCHEMAS ---
+// One schema per JSON-returning agent call. The provider passes it to the model (Gemini responseSchema)
+// and geminiService validates every answer against it before use, asking the model to repair the
+// listed issues when it does not match. Shapes mirror the raw inputs of the types in types.ts.
+
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>; // object
+  required?: string[]; // object
+  items?: JsonSchema; // array
+  minItems?: number;
+  maxItems?: number;
+  enum?: string[]; // string
+  nullable?: boolean;
+  description?: string;
+}
+
+const LAYOUTS: LayoutType[] = ['SINGLE', 'SPLIT_V', 'SPLIT_H', 'TRI_TOP_SPLIT', 'TRI_BOT_SPLIT', 'GRID_2X2'];
+
+const str = (description?: string): JsonSchema => ({ type: 'string', description });
+const strings: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+const META_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: str(), description: str(), tags: strings, genre: str(), thumbnail_prompt: str(), bgm_mood: str()
+  },
+  required: ['title', 'description', 'tags', 'genre', 'thumbnail_prompt', 'bgm_mood']
+};
+
+const GLOBAL_STYLE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { art_style: str(), main_character_desc: { type: 'string', nullable: true } },
+  required: ['art_style']
+};
+
+// Raw scene as the writer/director returns it (see createSceneObject)
+const RAW_SCENE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    scene_index: { type: 'integer', description: 'Position in the script from 1; a continuation numbers on from the last scene it was given' },
+    step_phase: str(),
+    type: { type: 'string', enum: ['image', 'video'] },
+    layout: { type: 'string', enum: LAYOUTS },
+    duration_prediction: { type: 'number' },
+    scripts: {
+      type: 'object',
+      properties: {
+        narration: str(),
+        tts_text: str('Hangul-only reading of the narration'),
+        subtitles: strings,
+        voice_tone: { type: 'string', enum: ['excited', 'serious', 'calm', 'whisper'] }
+      },
+      required: ['narration', 'tts_text', 'subtitles', 'voice_tone']
+    },
+    prompts: {
+      type: 'object',
+      properties: { visual_prompt: str(), motion_strength: { type: 'number' } },
+      required: ['visual_prompt']
+    }
+  },
+  required: ['scene_index', 'type', 'scripts', 'prompts']
+};
+
+export const OUTLINE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    meta: META_SCHEMA,
+    global_style: GLOBAL_STYLE_SCHEMA,
+    chapters: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: { phase: str(), title: str(), summary: str(), key_points: strings, target_chars: { type: 'integer' } },
+        required: ['phase', 'title', 'summary', 'key_points', 'target_chars']
+      }
+    }
+  },
+  required: ['meta', 'global_style', 'chapters']
+};
+
+export const CHAPTER_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { narration: str() },
+  required: ['narration']
+};
+
+// Chapter split, and the continuation of a truncated package (scenes only)
+export const SCENE_LIST_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { scenes: { type: 'array', minItems: 1, items: RAW_SCENE_SCHEMA } },
+  required: ['scenes']
+};
+
+// Adaptation and rewrite answer with a whole package
+export const SCRIPT_PACKAGE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    meta: META_SCHEMA,
+    global_style: GLOBAL_STYLE_SCHEMA,
+    scenes: { type: 'array', minItems: 1, items: RAW_SCENE_SCHEMA }
+  },
+  required: ['meta', 'scenes']
+};
+
+// Selected scenes rewritten in place: exactly one answer per scene sent
+export const sceneRewriteSchema = (count: number): JsonSchema => ({
+  type: 'object',
+  properties: {
+    scenes: {
+      type: 'array',
+      minItems: count,
+      maxItems: count,
+      items: {
+        type: 'object',
+        properties: {
+          scene_index: { type: 'integer' },
+          scripts: RAW_SCENE_SCHEMA.properties!.scripts,
+          visual_prompt: str('Unchanged unless the new narration no longer fits the current visual')
+        },
+        required: ['scene_index', 'scripts', 'visual_prompt']
+      }
+    }
+  },
+  required: ['scenes']
+});
+
+export const TOPICS_SCHEMA: JsonSchema = {
+  type: 'array',
+  minItems: 1,
+  items: {
+    type: 'object',
+    properties: { title: str(), context: str(), url: str(), type: { type: 'string', enum: ['breaking', 'viral'] } },
+    required: ['title', 'context', 'type']
+  }
+};
+
+export const INSPECTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    detected_layout: { type: 'string', enum: LAYOUTS },
+    panel_count: { type: 'integer' },
+    description: str()
+  },
+  required: ['detected_layout', 'panel_count', 'description']
+};
+
+export const CUTS_SCHEMA: JsonSchema = {
+  type: 'array',
+  minItems: 4,
+  maxItems: 4,
+  items: {
+    type: 'object',
+    properties: { cut_no: { type: 'integer' }, narration: str(), visual_detail: str() },
+    required: ['cut_no', 'narration', 'visual_detail']
+  }
+};
+
+// --- VALIDATION ---
+
+const describe = (v: unknown) => Array.isArray(v) ? 'array' : v === null ? 'null' : typeof v;
+
+/** Every place `value` deviates from `schema` (unknown properties are allowed) */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path = '$'): SchemaIssue[] {
+  if (value === null || value === undefined) {
+    return schema.nullable && value === null ? [] : [{ path, message: `expected ${schema.type}, got ${describe(value)}` }];
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) return [{ path, message: `expected object, got ${describe(value)}` }];
+      const record = value as Record<string, unknown>;
+      const issues: SchemaIssue[] = (schema.required || [])
+        .filter(key => record[key] === undefined)
+        .map(key => ({ path: `${path}.${key}`, message: 'missing required property' }));
+      Object.entries(schema.properties || {}).forEach(([key, child]) => {
+        if (record[key] !== undefined) issues.push(...validateAgainstSchema(record[key], child, `${path}.${key}`));
+      });
+      return issues;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) return [{ path, message: `expected array, got ${describe(value)}` }];
+      const issues: SchemaIssue[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) issues.push({ path, message: `expected at least ${schema.minItems} items, got ${value.length}` });
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) issues.push({ path, message: `expected at most ${schema.maxItems} items, got ${value.length}` });
+      if (schema.items) value.forEach((item, i) => issues.push(...validateAgainstSchema(item, schema.items!, `${path}[${i}]`)));
+      return issues;
+    }
+    case 'string':
+      if (typeof value !== 'string') return [{ path, message: `expected string, got ${describe(value)}` }];
+      return schema.enum && !schema.enum.includes(value) ? [{ path, message: `expected one of ${schema.enum.join(', ')}, got "${value}"` }] : [];
+    case 'integer':
+      return Number.isInteger(value) ? [] : [{ path, message: `expected integer, got ${describe(value)}` }];
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? [] : [{ path, message: `expected number, got ${describe(value)}` }];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [{ path, message: `expected boolean, got ${describe(value)}` }];
+  }
+}
@@ -0,0 +1,281 @@
+import { Capability, RateLimit, resolveCapability } from './providers';
+import { getSettings } from './settings';
+import { RateLimitedError, JobCancelledError, QuotaExhaustedError } from './aiErrors';
+import { quotaManager } from '../utils/quotaManager';
+
+export { JobCancelledError };
+
+// --- JOB SCHEDULER ---
+// Every agent step (pipeline, per-scene regenerate, ScriptView agents) is submitted here.
+// Up to `maxConcurrentJobs` run at once; each model has RPM/TPM token buckets, so a job for a
+// throttled model waits while jobs for other models (e.g. image vs. TTS) keep flowing.
+// The quota manager's RPM/RPD windows gate each start as well; a model out of daily quota fails fast.
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export const JOB_PRIORITY = {
+  HIGH: 0,    // User-triggered single actions (regenerate buttons)
+  NORMAL: 100, // Pipeline work; add the scene order so earlier scenes go first
+  LOW: 1000
+};
+
+export interface JobOptions {
+  label: string;
+  capability: Capability;
+  priority?: number; // Lower runs sooner
+  group?: string; // e.g. one pipeline run; used for bulk cancel
+  estimatedTokens?: number;
+  signal?: { stopped: boolean }; // Queued jobs are dropped once this flips
+}
+
+export interface JobInfo {
+  id: string;
+  label: string;
+  capability: Capability;
+  model: string;
+  priority: number;
+  group?: string;
+  status: JobStatus;
+  enqueued_at: number;
+  started_at?: number;
+}
+
+interface QueuedJob {
+  info: JobInfo;
+  seq: number;
+  tokens: number;
+  signal?: { stopped: boolean };
+  run: () => Promise<unknown>;
+  resolve: (value: any) => void;
+  reject: (reason: unknown) => void;
+}
+
+interface Bucket {
+  capacity: number;
+  tokens: number;
+  refillPerMs: number;
+  updated: number;
+}
+
+const DEFAULT_LIMIT: RateLimit = { rpm: 10, tpm: 250000 };
+const IDLE_TICK_MS = 500;
+
+// Rough output sizes per call; input is estimated from prompt length
+const OUTPUT_TOKEN_ESTIMATE: Record<Capability, number> = {
+  text: 1000, json: 2000, image: 1290, speech: 500, vision: 300, video: 0
+};
+
+export const estimateTokens = (capability: Capability, input: string = '') =>
+  Math.ceil(input.length / 2) + OUTPUT_TOKEN_ESTIMATE[capability];
+
+const queue: QueuedJob[] = [];
+const running = new Map<string, QueuedJob>();
+const buckets = new Map<string, { rpm: Bucket; tpm: Bucket }>();
+let paused = false;
+let seqCounter = 0;
+let tickTimer: ReturnType<typeof setTimeout> | null = null;
+
+const createBucket = (perMinute: number): Bucket => ({
+  capacity: perMinute,
+  tokens: perMinute,
+  refillPerMs: perMinute / 60000,
+  updated: Date.now()
+});
+
+const refill = (bucket: Bucket, now: number) => {
+  bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (now - bucket.updated) * bucket.refillPerMs);
+  bucket.updated = now;
+};
+
+// ms until `amount` tokens are available (0 = now)
+const waitFor = (bucket: Bucket, amount: number) =>
+  bucket.tokens >= amount ? 0 : Math.ceil((amount - bucket.tokens) / bucket.refillPerMs);
+
+function bucketsFor(capability: Capability, model: string) {
+  let entry = buckets.get(model);
+  if (!entry) {
+    const { provider } = resolveCapability(capability);
+    const limit = provider.rateLimits?.[model] || DEFAULT_LIMIT;
+    entry = { rpm: createBucket(quotaManager.getLimits(model).rpm), tpm: createBucket(limit.tpm) };
+    buckets.set(model, entry);
+  }
+  return entry;
+}
+
+// Buckets are re-sized from the edited limits on the next job
+window.addEventListener('settings-update', () => buckets.clear());
+
+function throttle(capability: Capability, model: string, retryAfterMs: number = 10000) {
+  const { rpm } = bucketsFor(capability, model);
+  refill(rpm, Date.now());
+  rpm.tokens = Math.min(rpm.tokens, 1 - retryAfterMs * rpm.refillPerMs);
+}
+
+const notify = () => window.dispatchEvent(new CustomEvent('scheduler-update'));
+
+function settle(job: QueuedJob, status: JobStatus) {
+  job.info.status = status;
+  if (status === 'cancelled') job.reject(new JobCancelledError(job.info.label));
+}
+
+function removeQueued(predicate: (job: QueuedJob) => boolean) {
+  let removed = false;
+  for (let i = queue.length - 1; i >= 0; i--) {
+    if (predicate(queue[i])) {
+      settle(queue.splice(i, 1)[0], 'cancelled');
+      removed = true;
+    }
+  }
+  return removed;
+}
+
+// Waiting until the daily reset would stall the queue for hours; surface it as a quota error instead
+function failExhausted() {
+  for (let i = queue.length - 1; i >= 0; i--) {
+    const job = queue[i];
+    const status = quotaManager.getModelStatus(job.info.model, job.info.capability);
+    if (!status.exhausted) continue;
+    queue.splice(i, 1);
+    job.info.status = 'failed';
+    job.reject(new QuotaExhaustedError(`Daily limit of ${status.limits.rpd} requests reached for ${job.info.model}`, {
+      retryAfterMs: status.next_available_at - Date.now()
+    }));
+  }
+}
+
+function start(job: QueuedJob) {
+  job.info.status = 'running';
+  job.info.started_at = Date.now();
+  running.set(job.info.id, job);
+
+  job.run()
+    .then(value => { job.info.status = 'done'; job.resolve(value); })
+    .catch(error => {
+      // The API says this model is over its limit: hold its bucket for the hinted time
+      if (error instanceof RateLimitedError) throttle(job.info.capability, job.info.model, error.retryAfterMs);
+      job.info.status = 'failed';
+      job.reject(error);
+    })
+    .finally(() => {
+      running.delete(job.info.id);
+      pump();
+    });
+}
+
+function pump() {
+  if (tickTimer) {
+    clearTimeout(tickTimer);
+    tickTimer = null;
+  }
+
+  removeQueued(job => !!job.signal?.stopped);
+  failExhausted();
+
+  let nextCheck = IDLE_TICK_MS;
+  if (!paused) {
+    const maxConcurrent = Math.max(1, getSettings().maxConcurrentJobs);
+    queue.sort((a, b) => a.info.priority - b.info.priority || a.seq - b.seq);
+
+    for (let i = 0; i < queue.length && running.size < maxConcurrent; i++) {
+      const job = queue[i];
+      const { rpm, tpm } = bucketsFor(job.info.capability, job.info.model);
+      const now = Date.now();
+      refill(rpm, now);
+      refill(tpm, now);
+
+      const tokens = Math.min(job.tokens, tpm.capacity);
+      const slot = quotaManager.nextAvailableAt(job.info.model, job.info.capability) - now;
+      const delay = Math.max(waitFor(rpm, 1), waitFor(tpm, tokens), slot);
+      if (delay > 0) {
+        // Throttled model: let jobs for other models go ahead
+        nextCheck = Math.min(nextCheck, delay);
+        continue;
+      }
+
+      rpm.tokens -= 1;
+      tpm.tokens -= tokens;
+      queue.splice(i, 1);
+      i--;
+      start(job);
+    }
+  }
+
+  if (queue.length > 0) {
+    tickTimer = setTimeout(pump, Math.max(50, nextCheck));
+  }
+  notify();
+}
+
+export const jobScheduler = {
+  submit: <T>(options: JobOptions, run: () => Promise<T>): Promise<T> => {
+    const { model } = resolveCapability(options.capability);
+    return new Promise<T>((resolve, reject) => {
+      if (options.signal?.stopped) {
+        reject(new JobCancelledError(options.label));
+        return;
+      }
+      const seq = ++seqCounter;
+      queue.push({
+        info: {
+          id: `job_${seq}`,
+          label: options.label,
+          capability: options.capability,
+          model,
+          priority: options.priority ?? JOB_PRIORITY.NORMAL,
+          group: options.group,
+          status: 'queued',
+          enqueued_at: Date.now()
+        },
+        seq,
+        tokens: options.estimatedTokens ?? estimateTokens(options.capability),
+        signal: options.signal,
+        run,
+        resolve,
+        reject
+      });
+      pump();
+    });
+  },
+
+  pause: () => {
+    paused = true;
+    pump();
+  },
+
+  resume: () => {
+    paused = false;
+    pump();
+  },
+
+  isPaused: () => paused,
+
+  // Queued jobs are dropped; a running call cannot be aborted and finishes normally
+  cancel: (jobId: string) => {
+    if (removeQueued(job => job.info.id === jobId)) pump();
+  },
+
+  cancelGroup: (group: string) => {
+    if (removeQueued(job => job.info.group === group)) pump();
+  },
+
+  setPriority: (jobId: string, priority: number) => {
+    const job = queue.find(j => j.info.id === jobId);
+    if (job) {
+      job.info.priority = priority;
+      pump();
+    }
+  },
+
+  // Moves a queued job ahead of everything else
+  prioritize: (jobId: string) => {
+    const top = Math.min(JOB_PRIORITY.HIGH, ...queue.map(j => j.info.priority));
+    jobScheduler.setPriority(jobId, top - 1);
+  },
+
+  getJobs: (): JobInfo[] => [
+    ...Array.from(running.values()).map(j => ({ ...j.info })),
+    ...[...queue]
+      .sort((a, b) => a.info.priority - b.info.priority || a.seq - b.seq)
+      .map(j => ({ ...j.info }))
+  ]
+};
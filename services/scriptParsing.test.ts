@@ -0,0 +1,63 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import type { Cassette } from './providers/cassette';
+import { parseJSONSafely, enforceScenePacing } from './scriptParsing';
+
+// Synthetic answers, hand-written in the cassette export format. Only `response.text` is read: the requests
+// are placeholders that match no real call, so the file cannot be replayed (see providers/cassette.test.ts)
+const cassette: Cassette = JSON.parse(
+  readFileSync(new URL('./__fixtures__/script-answers.synthetic.json', import.meta.url), 'utf8')
+);
+const [adaptation, rewrite, truncated] = cassette.entries.map(entry => entry.response?.text || '');
+
+describe('parseJSONSafely', () => {
+  it('reads answers wrapped in code fences or followed by prose', () => {
+    expect(parseJSONSafely(adaptation).scenes).toHaveLength(3);
+    expect(parseJSONSafely(rewrite).meta.title).toBe('폼페이 최후의 24시간');
+  });
+
+  it('returns null for an answer cut off by the output limit', () => {
+    expect(parseJSONSafely(truncated)).toBeNull();
+  });
+});
+
+describe('enforceScenePacing', () => {
+  const paced = [adaptation, rewrite].map(text => enforceScenePacing(parseJSONSafely(text)));
+
+  it('splits long narrations into one scene per sentence, numbered in order', () => {
+    for (const script of paced) {
+      expect(script.scenes.map(s => s.scene_index)).toEqual(script.scenes.map((_, i) => i + 1));
+      for (const scene of script.scenes) {
+        expect(scene.scripts.narration.length <= 60 || !/[.?!]\s*\S/.test(scene.scripts.narration)).toBe(true);
+      }
+    }
+  });
+
+  it('coerces unknown layouts and voice tones', () => {
+    const climax = paced[0].scenes[paced[0].scenes.length - 1];
+    expect(climax.planned_layout).toBe('SINGLE');
+    expect(climax.scripts.voice_tone).toBe('calm');
+    expect(paced[1].scenes[1].planned_layout).toBe('SINGLE');
+  });
+
+  it('keeps meta and style from the answer', () => {
+    expect(paced[0].meta.title).toBe('잊혀진 도시, 폼페이');
+    expect(paced[0].global_style.art_style).toBe('cinematic documentary');
+  });
+
+  it('matches the recorded pacing', () => {
+    expect(paced.map(script => script.scenes.map(s => ({
+      scene_index: s.scene_index,
+      step_phase: s.step_phase,
+      type: s.type,
+      planned_layout: s.planned_layout,
+      voice_tone: s.scripts.voice_tone,
+      narration: s.scripts.narration,
+      base_id: s.assets.base_id
+    })))).toMatchSnapshot();
+  });
+
+  it('rejects an answer without a scenes list', () => {
+    expect(() => enforceScenePacing({ meta: {} })).toThrow('Invalid Scene Data');
+  });
+});
@@ -0,0 +1,105 @@
+import { ScriptData, Scene } from "../types";
+import { InvalidResponseError } from "./aiErrors";
+import { toLayout, toVoiceTone } from "./projectSchema";
+
+// --- SCRIPT PARSING ---
+// Turns model answers into ScriptData. No provider or storage access, so recorded answers can be
+// replayed through it in tests (services/scriptParsing.test.ts).
+
+export function parseJSONSafely(text: string): any {
+  let cleanText = text.replace(/```json/g, '').replace(/```/g, '').trim();
+  // Top-level object or array, whichever opens first (split-cuts answers with a bare array)
+  const start = cleanText.search(/[{[]/);
+  if (start === -1) return null;
+  const end = cleanText.lastIndexOf(cleanText[start] === '[' ? ']' : '}');
+  if (end < start) return null;
+  
+  cleanText = cleanText.substring(start, end + 1);
+
+  try {
+    return JSON.parse(cleanText);
+  } catch (e) {
+    console.warn("JSON Parse Failed", e);
+    return null;
+  }
+}
+
+export function enforceScenePacing(data: any): ScriptData {
+    const MAX_LENGTH = 60;
+    const newScenes: Scene[] = [];
+    let globalIndex = 1;
+
+    if (!data.scenes || !Array.isArray(data.scenes)) {
+        throw new InvalidResponseError("Invalid Scene Data generated by AI");
+    }
+
+    data.scenes.forEach((rawScene: any) => {
+        const narration = rawScene.scripts?.narration || rawScene.narration_full || "";
+        
+        if (narration.length <= MAX_LENGTH) {
+            newScenes.push(createSceneObject(rawScene, globalIndex++));
+            return;
+        }
+
+        const sentences = narration.match(/[^.?!]+[.?!]+[\s]*/g) || [narration];
+        
+        sentences.forEach((sentence: string) => {
+             if (!sentence.trim()) return;
+             const splitScene = {
+                 ...rawScene,
+                 scripts: {
+                     ...rawScene.scripts,
+                     narration: sentence.trim(),
+                     subtitles: rawScene.scripts?.subtitles || []
+                 }
+             };
+             newScenes.push(createSceneObject(splitScene, globalIndex++));
+        });
+    });
+
+    return { ...data, scenes: newScenes };
+}
+
+export function createSceneObject(raw: any, index: number): Scene {
+    const type = raw.type === 'video' ? 'video' : 'image';
+    const baseId = raw.assets?.base_id || `scene_${String(index).padStart(3, '0')}`;
+    const duration = raw.duration_prediction 
+        ? parseFloat(raw.duration_prediction) 
+        : Math.max(3, Math.min(8, (raw.scripts?.narration?.length || 0) * 0.25));
+
+    return {
+        scene_index: index,
+        step_phase: raw.step_phase || "Chapter",
+        type: type,
+        duration_prediction: parseFloat(duration.toFixed(1)),
+        planned_layout: toLayout(raw.layout || raw.planned_layout),
+        cuts: raw.cuts || [],
+        narration_full: raw.narration_full || raw.scripts?.narration || "",
+        assets: {
+            base_id: baseId,
+            audio_filename: raw.assets?.audio_filename || `${baseId}.mp3`,
+            visual_filename: raw.assets?.visual_filename || `${baseId}.png`,
+            subtitle_filename: raw.assets?.subtitle_filename || `${baseId}.ass`,
+            visual_url: raw.assets?.visual_url || "",
+            audio_url: raw.assets?.audio_url || ""
+        },
+        scripts: {
+            narration: raw.scripts?.narration || raw.narration_full || "",
+            tts_text: raw.scripts?.tts_text || raw.scripts?.narration || "",
+            subtitles: raw.scripts?.subtitles || [],
+            voice_tone: toVoiceTone(raw.scripts?.voice_tone || 'serious')
+        },
+        prompts: {
+            visual_prompt: raw.prompts?.visual_prompt || "Documentary visual",
+            motion_strength: raw.prompts?.motion_strength || (type === 'video' ? 5 : 0)
+        },
+        progress_status: {
+            is_script_done: true,
+            is_prompt_done: true, 
+            is_image_generated: raw.progress_status?.is_image_generated || false,
+            is_image_inspected: raw.progress_status?.is_image_inspected || false,
+            is_audio_generated: raw.progress_status?.is_audio_generated || false,
+            is_video_generated: raw.progress_status?.is_video_generated || false
+        }
+    };
+}
@@ -0,0 +1,75 @@
+import { Capability } from './providers/types';
+import type { ModelPrice } from '../types';
+
+// --- RUNTIME SETTINGS ---
+// Persisted in localStorage and read on every call, so edits apply without a rebuild.
+
+export type SafetyThreshold = 'BLOCK_NONE' | 'BLOCK_ONLY_HIGH' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_LOW_AND_ABOVE';
+
+// Empty field → no limit
+export interface BudgetLimits {
+  calls?: number;
+  tokens?: number; // Prompt + output tokens
+  cost?: number; // Estimated USD
+}
+
+export interface AppSettings {
+  apiKey: string; // Empty → falls back to the build-time key (process.env.API_KEY)
+  providers: Partial<Record<Capability, string>>; // Provider id per capability (empty → default)
+  models: Partial<Record<Capability, string>>; // Model id per capability (empty → provider default)
+  temperature: number | null; // null → model default; agents with their own temperature keep it
+  safetyThreshold: SafetyThreshold;
+  sceneDelayMs: number; // Pause between scenes in the asset pipeline
+  maxConcurrentJobs: number; // Jobs the scheduler runs at once (rate limits still apply)
+  quotaLimits: Record<string, { rpm?: number; rpd?: number }>; // Per-model overrides of the provider limits
+  prices: Record<string, Partial<ModelPrice>>; // Per-model overrides of the default price table
+  usageRetentionDays: number; // Daily quota/usage records older than this are pruned (0 = keep all)
+  budgets: { day: BudgetLimits; project: BudgetLimits }; // Checked before every call
+  budgetWarnPercent: number; // Share of a budget that triggers the warning banner
+}
+
+const SETTINGS_KEY = 'app_settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  apiKey: '',
+  providers: {},
+  models: {},
+  temperature: null,
+  safetyThreshold: 'BLOCK_ONLY_HIGH',
+  sceneDelayMs: 2000,
+  maxConcurrentJobs: 2,
+  quotaLimits: {},
+  prices: {},
+  usageRetentionDays: 90,
+  budgets: { day: {}, project: {} },
+  budgetWarnPercent: 80
+};
+
+let cached: AppSettings | null = null;
+
+export function getSettings(): AppSettings {
+  if (cached) return cached;
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    cached = { ...DEFAULT_SETTINGS, ...stored };
+  } catch {
+    cached = { ...DEFAULT_SETTINGS };
+  }
+  return cached!;
+}
+
+export function saveSettings(patch: Partial<AppSettings>): AppSettings {
+  cached = { ...getSettings(), ...patch };
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(cached));
+  window.dispatchEvent(new CustomEvent('settings-update', { detail: cached }));
+  return cached;
+}
+
+export function resetSettings(): AppSettings {
+  localStorage.removeItem(SETTINGS_KEY);
+  cached = null;
+  return saveSettings({});
+}
+
+// Key actually used for Gemini calls
+export const getApiKey = (): string => getSettings().apiKey.trim() || process.env.API_KEY || '';
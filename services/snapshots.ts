@@ -0,0 +1,133 @@
+import { get, update } from 'idb-keyval';
+import { ScriptData, Scene, ProjectSnapshot, SceneChange, SceneChangeField } from '../types';
+import { snapshotKey, toStoredProject, hydrateProject } from './projectLibrary';
+import { migrateScriptData } from './projectSchema';
+
+// Manual snapshots are never pruned; automatic ones roll over
+const MAX_AUTO_SNAPSHOTS = 30;
+
+const createSnapshotId = () =>
+  `snap_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * Records the current state of a project. Media is referenced by asset ID, so a snapshot only costs
+ * the project JSON. Called automatically before destructive operations and manually from the history panel.
+ */
+export async function createSnapshot(
+  data: ScriptData,
+  label: string,
+  kind: ProjectSnapshot['kind'] = 'auto'
+): Promise<ProjectSnapshot | null> {
+  if (!data.project_id) return null;
+  const projectId = data.project_id;
+
+  try {
+    const snapshot: ProjectSnapshot = {
+      id: createSnapshotId(),
+      project_id: projectId,
+      created_at: Date.now(),
+      label,
+      kind,
+      data: await toStoredProject(data)
+    };
+
+    await update<ProjectSnapshot[]>(snapshotKey(projectId), (old) => {
+      const list = [snapshot, ...(old || [])];
+      const autos = list.filter(s => s.kind === 'auto');
+      if (autos.length <= MAX_AUTO_SNAPSHOTS) return list;
+      const expired = new Set(autos.slice(MAX_AUTO_SNAPSHOTS).map(s => s.id));
+      return list.filter(s => !expired.has(s.id));
+    });
+    window.dispatchEvent(new CustomEvent('snapshot-update', { detail: { projectId } }));
+    return snapshot;
+  } catch (err) {
+    console.error('[Snapshots] Create Failed', err);
+    return null;
+  }
+}
+
+export async function listSnapshots(projectId: string): Promise<ProjectSnapshot[]> {
+  try {
+    const list = await get<ProjectSnapshot[]>(snapshotKey(projectId)) || [];
+    return [...list].sort((a, b) => b.created_at - a.created_at);
+  } catch (err) {
+    console.error('[Snapshots] List Failed', err);
+    return [];
+  }
+}
+
+export async function deleteSnapshot(projectId: string, snapshotId: string): Promise<void> {
+  await update<ProjectSnapshot[]>(snapshotKey(projectId), (old) => (old || []).filter(s => s.id !== snapshotId));
+  window.dispatchEvent(new CustomEvent('snapshot-update', { detail: { projectId } }));
+}
+
+// --- DIFF ---
+
+function changedFields(before: Scene, after: Scene): SceneChangeField[] {
+  const fields: SceneChangeField[] = [];
+  if (before.scripts.narration !== after.scripts.narration) fields.push('narration');
+  if (before.prompts.visual_prompt !== after.prompts.visual_prompt) fields.push('prompt');
+  if (before.assets.visual_asset_id !== after.assets.visual_asset_id) fields.push('image');
+  if (before.assets.audio_asset_id !== after.assets.audio_asset_id) fields.push('audio');
+  if (before.planned_layout !== after.planned_layout) fields.push('layout');
+  if (before.type !== after.type) fields.push('type');
+  return fields;
+}
+
+/**
+ * Scene-level summary of what differs between two versions, matched by `scene_index`.
+ */
+export function diffProjects(before: ScriptData, after: ScriptData): SceneChange[] {
+  const beforeMap = new Map(before.scenes.map(s => [s.scene_index, s]));
+  const afterMap = new Map(after.scenes.map(s => [s.scene_index, s]));
+  const indices = Array.from(new Set([...beforeMap.keys(), ...afterMap.keys()])).sort((a, b) => a - b);
+
+  const changes: SceneChange[] = [];
+  indices.forEach(index => {
+    const prev = beforeMap.get(index);
+    const next = afterMap.get(index);
+    if (!prev) {
+      changes.push({ scene_index: index, change: 'added', fields: [] });
+    } else if (!next) {
+      changes.push({ scene_index: index, change: 'removed', fields: [] });
+    } else {
+      const fields = changedFields(prev, next);
+      if (fields.length > 0) changes.push({ scene_index: index, change: 'modified', fields });
+    }
+  });
+  return changes;
+}
+
+// --- RESTORE ---
+
+/**
+ * Returns the snapshot as a live project (display URLs resolved), upgraded to the current schema like a
+ * loaded project. The current state is snapshotted first so a restore can itself be undone.
+ * Throws `ProjectSchemaError` when the snapshot cannot be upgraded.
+ */
+export async function restoreSnapshot(current: ScriptData, snapshot: ProjectSnapshot): Promise<ScriptData> {
+  const migrated = migrateScriptData(snapshot.data);
+  await createSnapshot(current, `복원 전 상태 (${snapshot.label})`);
+  const restored = await hydrateProject(migrated);
+  return { ...restored, project_id: current.project_id };
+}
+
+/**
+ * Replaces a single scene with its version from the snapshot, leaving every other scene untouched.
+ */
+export async function restoreSceneFromSnapshot(
+  current: ScriptData,
+  snapshot: ProjectSnapshot,
+  sceneIndex: number
+): Promise<ScriptData> {
+  const hydrated = await hydrateProject(migrateScriptData(snapshot.data));
+  const sceneFromSnapshot = hydrated.scenes.find(s => s.scene_index === sceneIndex);
+  if (!sceneFromSnapshot) return current;
+
+  await createSnapshot(current, `씬 #${sceneIndex} 복원 전 상태`);
+  const exists = current.scenes.some(s => s.scene_index === sceneIndex);
+  const scenes = exists
+    ? current.scenes.map(s => s.scene_index === sceneIndex ? sceneFromSnapshot : s)
+    : [...current.scenes, sceneFromSnapshot].sort((a, b) => a.scene_index - b.scene_index);
+  return { ...current, scenes };
+}
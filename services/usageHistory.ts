@@ -0,0 +1,146 @@
+import { UsageByModel } from '../types';
+import { quotaManager, quotaDayOf, QuotaType, QuotaStats } from '../utils/quotaManager';
+import { getUsageHistory, pruneUsageBefore, getProjectUsage, totalsOf, costOf, addUsage, emptyUsage, UsageTotals } from './usageLedger';
+import { listProjects } from './projectLibrary';
+import { getSettings } from './settings';
+
+// --- USAGE HISTORY ---
+// Read side of the daily quota counters and token ledger: per-day and per-week series, the busiest
+// hour, per-project totals, CSV export, and retention pruning of the daily localStorage records.
+
+const DAY_MS = 86_400_000;
+const QUOTA_TYPES: QuotaType[] = ['text', 'image', 'audio', 'video'];
+
+export interface UsageDay {
+  day: string; // YYYY-MM-DD (Pacific quota day)
+  calls: Record<QuotaType, number>;
+  total: number;
+  hours: number[];
+  models: QuotaStats['models'];
+  usage: UsageByModel;
+  cost: number;
+}
+
+export interface UsageWeek {
+  week_start: string; // Monday
+  calls: Record<QuotaType, number>;
+  total: number;
+  cost: number;
+}
+
+export interface ProjectUsageRow extends UsageTotals {
+  project_id: string;
+  title: string;
+}
+
+const emptyCalls = (): Record<QuotaType, number> => ({ text: 0, image: 0, audio: 0, video: 0 });
+
+const shiftDay = (day: string, days: number) =>
+  new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+/** The last `days` quota days ending today, oldest first; days without records are zero-filled */
+export function getUsageDays(days: number): UsageDay[] {
+  const today = quotaDayOf();
+  const usageByDay = getUsageHistory();
+  const statsByDay = new Map<string, QuotaStats[]>();
+  quotaManager.getHistory().forEach(stats => statsByDay.set(stats.day, [...(statsByDay.get(stats.day) || []), stats]));
+
+  return Array.from({ length: days }, (_, i) => {
+    const day = shiftDay(today, i - days + 1);
+    // A legacy locale-keyed record can share its day with a new one; add them up
+    const records = statsByDay.get(day) || [];
+    const calls = emptyCalls();
+    const hours = new Array(24).fill(0);
+    const models: QuotaStats['models'] = {};
+    records.forEach(stats => {
+      QUOTA_TYPES.forEach(type => { calls[type] += stats.modelCounts[type] || 0; });
+      stats.hours.forEach((count, hour) => { hours[hour] += count; });
+      Object.entries(stats.models).forEach(([model, usage]) => {
+        models[model] = { type: usage.type, count: (models[model]?.count || 0) + usage.count };
+      });
+    });
+    const usage = usageByDay[day] || {};
+    return {
+      day,
+      calls,
+      total: records.reduce((sum, stats) => sum + stats.count, 0),
+      hours,
+      models,
+      usage,
+      cost: totalsOf(usage).cost
+    };
+  });
+}
+
+export function groupByWeek(days: UsageDay[]): UsageWeek[] {
+  const weeks = new Map<string, UsageWeek>();
+  days.forEach(record => {
+    const weekday = (new Date(`${record.day}T00:00:00Z`).getUTCDay() + 6) % 7; // Monday = 0
+    const weekStart = shiftDay(record.day, -weekday);
+    const week = weeks.get(weekStart) || { week_start: weekStart, calls: emptyCalls(), total: 0, cost: 0 };
+    QUOTA_TYPES.forEach(type => { week.calls[type] += record.calls[type]; });
+    week.total += record.total;
+    week.cost += record.cost;
+    weeks.set(weekStart, week);
+  });
+  return Array.from(weeks.values());
+}
+
+/** Local hour of day with the most calls over the given days */
+export function findPeakHour(days: UsageDay[]): { hour: number; calls: number } | null {
+  const hours = new Array(24).fill(0);
+  days.forEach(record => record.hours.forEach((count, hour) => { hours[hour] += count; }));
+  const calls = Math.max(...hours);
+  return calls > 0 ? { hour: hours.indexOf(calls), calls } : null;
+}
+
+/** Token/cost totals per project for days in [fromDay, toDay], most expensive first */
+export async function getProjectUsageRows(fromDay: string, toDay: string): Promise<ProjectUsageRow[]> {
+  const projects = await listProjects({ includeArchived: true });
+  const rows = await Promise.all(projects.map(async (project): Promise<ProjectUsageRow | null> => {
+    const record = await getProjectUsage(project.id);
+    if (!record) return null;
+    const byModel: UsageByModel = {};
+    Object.entries(record.by_day)
+      .filter(([day]) => day >= fromDay && day <= toDay)
+      .forEach(([, models]) => Object.entries(models).forEach(([model, usage]) => {
+        byModel[model] = addUsage(byModel[model] || emptyUsage(), usage);
+      }));
+    const totals = totalsOf(byModel);
+    return totals.usage.calls > 0 ? { project_id: project.id, title: project.title, ...totals } : null;
+  }));
+  return rows.filter((row): row is ProjectUsageRow => row !== null).sort((a, b) => b.cost - a.cost || b.usage.calls - a.usage.calls);
+}
+
+/** One row per day and model */
+export function buildUsageCsv(days: UsageDay[]): string {
+  const header = ['date', 'model', 'type', 'calls', 'prompt_tokens', 'output_tokens', 'images', 'audio', 'videos', 'estimated_cost_usd'];
+  const rows = days.flatMap(record => {
+    const models = new Set([...Object.keys(record.models), ...Object.keys(record.usage)]);
+    return Array.from(models).map(model => {
+      const usage = record.usage[model] || emptyUsage();
+      return [
+        record.day,
+        model,
+        record.models[model]?.type || '',
+        record.models[model]?.count ?? usage.calls,
+        usage.prompt_tokens,
+        usage.output_tokens,
+        usage.images,
+        usage.audio,
+        usage.videos,
+        costOf(model, usage).toFixed(6)
+      ];
+    });
+  });
+  return [header, ...rows].map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(',')).join('\n');
+}
+
+/** Drops daily quota and usage records older than the retention period. Returns how many were removed. */
+export function pruneUsageHistory(retentionDays: number = getSettings().usageRetentionDays): number {
+  if (!retentionDays || retentionDays <= 0) return 0;
+  const cutoff = shiftDay(quotaDayOf(), -(retentionDays - 1));
+  const removed = quotaManager.pruneBefore(cutoff) + pruneUsageBefore(cutoff);
+  if (removed > 0) console.log(`[UsageHistory] Pruned ${removed} daily records before ${cutoff}`);
+  return removed;
+}
@@ -0,0 +1,161 @@
+import { get, update } from 'idb-keyval';
+import { TokenUsage, UsageByModel, ProjectUsage, ModelPrice } from '../types';
+import { UsageMetadata } from './providers/types';
+import { getSettings } from './settings';
+import { usageKey } from './projectLibrary';
+import { quotaDayOf, listDayKeys } from '../utils/quotaManager';
+
+// --- TOKEN & COST LEDGER ---
+// Every provider call reports its token and media counts here (see invoke() in geminiService.ts).
+// Totals are kept per quota day (localStorage, next to the call counters) and per project (IndexedDB).
+// Costs are derived at read time from the price table, so editing a price re-prices past usage too.
+
+const DAY_KEY_PREFIX = 'gemini_usage_';
+
+// Paid-tier list prices (USD). Image and TTS output is billed as output tokens.
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash': { input_per_million: 0.3, output_per_million: 2.5, per_output: 0 },
+  'gemini-2.5-flash-image': { input_per_million: 0.3, output_per_million: 30, per_output: 0 },
+  'gemini-2.5-flash-preview-tts': { input_per_million: 0.5, output_per_million: 10, per_output: 0 },
+  'veo-3.1-fast-generate-preview': { input_per_million: 0, output_per_million: 0, per_output: 1.2 }
+};
+
+const FREE: ModelPrice = { input_per_million: 0, output_per_million: 0, per_output: 0 };
+
+export const emptyUsage = (): TokenUsage => ({ calls: 0, prompt_tokens: 0, output_tokens: 0, images: 0, audio: 0, videos: 0 });
+
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  calls: a.calls + b.calls,
+  prompt_tokens: a.prompt_tokens + b.prompt_tokens,
+  output_tokens: a.output_tokens + b.output_tokens,
+  images: a.images + b.images,
+  audio: a.audio + b.audio,
+  videos: a.videos + b.videos
+});
+
+const mergeByModel = (a: UsageByModel, b: UsageByModel): UsageByModel => {
+  const merged = { ...a };
+  Object.entries(b).forEach(([model, usage]) => { merged[model] = addUsage(merged[model] || emptyUsage(), usage); });
+  return merged;
+};
+
+export const getPrice = (model: string): ModelPrice => ({ ...FREE, ...DEFAULT_PRICES[model], ...getSettings().prices[model] });
+
+export function costOf(model: string, usage: TokenUsage): number {
+  const price = getPrice(model);
+  return usage.prompt_tokens / 1e6 * price.input_per_million
+    + usage.output_tokens / 1e6 * price.output_per_million
+    + (usage.images + usage.audio + usage.videos) * price.per_output;
+}
+
+export interface UsageTotals {
+  usage: TokenUsage;
+  cost: number;
+}
+
+export const totalsOf = (byModel: UsageByModel): UsageTotals =>
+  Object.entries(byModel).reduce(
+    (sum, [model, usage]) => ({ usage: addUsage(sum.usage, usage), cost: sum.cost + costOf(model, usage) }),
+    { usage: emptyUsage(), cost: 0 }
+  );
+
+export const formatCost = (usd: number) => `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+// --- Per day ---
+const dayKey = (day: string) => `${DAY_KEY_PREFIX}${day}`;
+
+export function getDayUsage(day: string = quotaDayOf()): UsageByModel {
+  try {
+    return JSON.parse(localStorage.getItem(dayKey(day)) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+// [NEW] Every stored day, keyed by day
+export function getUsageHistory(): Record<string, UsageByModel> {
+  return Object.fromEntries(listDayKeys(DAY_KEY_PREFIX).map(({ day }) => [day, getDayUsage(day)]));
+}
+
+export function pruneUsageBefore(cutoffDay: string): number {
+  const stale = listDayKeys(DAY_KEY_PREFIX).filter(({ day }) => day < cutoffDay);
+  stale.forEach(({ key }) => localStorage.removeItem(key));
+  return stale.length;
+}
+
+// --- Per project ---
+// Calls made before a project exists (script generation) are held as draft usage and handed to
+// the project once it is first saved.
+let activeProjectId: string | undefined;
+let draftUsage: Record<string, UsageByModel> = {};
+
+export const setUsageProject = (projectId?: string) => {
+  activeProjectId = projectId;
+};
+
+async function addToProject(projectId: string, byDay: Record<string, UsageByModel>) {
+  try {
+    await update<ProjectUsage>(usageKey(projectId), (old) => {
+      const record: ProjectUsage = old || { project_id: projectId, by_day: {}, updated_at: 0 };
+      const days = { ...record.by_day };
+      Object.entries(byDay).forEach(([day, byModel]) => { days[day] = mergeByModel(days[day] || {}, byModel); });
+      return { ...record, by_day: days, updated_at: Date.now() };
+    });
+    window.dispatchEvent(new CustomEvent('usage-update', { detail: { projectId } }));
+  } catch (err) {
+    // Accounting is informational; never fail the call over it
+    console.error('[Usage] Save Failed', err);
+  }
+}
+
+/** Attributes the draft usage to a newly created project and makes it the active one */
+export async function claimDraftUsage(projectId: string): Promise<void> {
+  setUsageProject(projectId);
+  const pending = draftUsage;
+  draftUsage = {};
+  if (Object.keys(pending).length > 0) await addToProject(projectId, pending);
+}
+
+export async function getProjectUsage(projectId: string): Promise<ProjectUsage | null> {
+  try {
+    return await get<ProjectUsage>(usageKey(projectId)) || null;
+  } catch (err) {
+    console.error('[Usage] Load Failed', err);
+    return null;
+  }
+}
+
+// [NEW] All-time usage of the open project (or the unsaved draft), for the budget guard
+export async function getActiveProjectUsage(): Promise<{ projectId?: string; usage: UsageByModel }> {
+  const byDay = activeProjectId ? (await getProjectUsage(activeProjectId))?.by_day || {} : draftUsage;
+  const usage = Object.values(byDay).reduce<UsageByModel>((sum, byModel) => mergeByModel(sum, byModel), {});
+  return { projectId: activeProjectId, usage };
+}
+
+// --- Recording ---
+export function recordUsage(model: string, metadata?: UsageMetadata): void {
+  const day = quotaDayOf();
+  const entry: UsageByModel = {
+    [model]: {
+      calls: 1,
+      prompt_tokens: metadata?.promptTokens || 0,
+      output_tokens: metadata?.outputTokens || 0,
+      images: metadata?.images || 0,
+      audio: metadata?.audio || 0,
+      videos: metadata?.videos || 0
+    }
+  };
+
+  try {
+    localStorage.setItem(dayKey(day), JSON.stringify(mergeByModel(getDayUsage(day), entry)));
+  } catch (e) {
+    console.error('Failed to record usage', e);
+  }
+
+  if (activeProjectId) {
+    addToProject(activeProjectId, { [day]: entry });
+  } else {
+    draftUsage = { ...draftUsage, [day]: mergeByModel(draftUsage[day] || {}, entry) };
+    window.dispatchEvent(new CustomEvent('usage-update', { detail: {} }));
+  }
+}
@@ -0,0 +1,117 @@
+import { ScriptData } from '../types';
+import { pcmToWavBase64 } from '../utils/audio';
+import { putAsset, dataUrlToBlob } from './assetStore';
+import { MainToWorkerMessage, WorkerToMainMessage, deserializeError } from './workerProtocol';
+
+// --- PIPELINE WORKER CLIENT ---
+// One shared worker per page. Heavy byte work (WAV encoding, base64 decoding, ZIP packing) is sent
+// here as request/reply pairs; pipeline runs use the streaming messages (see services/pipeline.ts).
+// Whenever the worker is unavailable everything runs on the main thread instead: no Worker support,
+// a worker that fails to load, or one that crashed earlier.
+
+type WorkerRequest = Extract<MainToWorkerMessage, { request_id: number }>;
+
+// A worker that never reports ready within this time is treated as failed to load
+const READY_TIMEOUT_MS = 5000;
+
+let workerReady: Promise<Worker | null> | undefined;
+let requestCounter = 0;
+const pendingReplies = new Map<number, { resolve: (value: any) => void; reject: (reason: unknown) => void }>();
+const listeners = new Set<(message: WorkerToMainMessage) => void>();
+
+function failPending(reason: unknown) {
+  pendingReplies.forEach(({ reject }) => reject(reason));
+  pendingReplies.clear();
+}
+
+function handleMessage(event: MessageEvent<WorkerToMainMessage>) {
+  const message = event.data;
+  if (message.type === 'reply') {
+    const pending = pendingReplies.get(message.request_id);
+    pendingReplies.delete(message.request_id);
+    if (message.error) pending?.reject(deserializeError(message.error));
+    else pending?.resolve(message.value);
+    return;
+  }
+  listeners.forEach(listener => listener(message));
+}
+
+/**
+ * The shared worker once it has loaded, or null (callers then use their main-thread fallback).
+ * A module worker whose imports cannot be resolved fails asynchronously, after `new Worker` returned:
+ * this is what happens without a bundler, since the index.html importmap does not apply inside workers.
+ * So nothing is sent to the worker before its 'ready' message arrives.
+ */
+export function getPipelineWorker(): Promise<Worker | null> {
+  if (workerReady) return workerReady;
+
+  workerReady = new Promise<Worker | null>(resolve => {
+    let candidate: Worker;
+    try {
+      if (typeof Worker === 'undefined') return resolve(null);
+      candidate = new Worker(new URL('./pipeline.worker.ts', import.meta.url), { type: 'module' });
+    } catch (err) {
+      console.warn('[Worker] Unavailable, running on the main thread', err);
+      return resolve(null);
+    }
+
+    let ready = false;
+    const fallBack = (reason: string) => {
+      clearTimeout(readyTimer);
+      console.warn(`[Worker] ${reason}, running on the main thread`);
+      candidate.terminate();
+      resolve(null);
+    };
+    const readyTimer = setTimeout(() => fallBack('No ready signal'), READY_TIMEOUT_MS);
+
+    candidate.addEventListener('message', (event: MessageEvent<WorkerToMainMessage>) => {
+      if (event.data.type !== 'ready') return handleMessage(event);
+      ready = true;
+      clearTimeout(readyTimer);
+      resolve(candidate);
+    });
+    candidate.addEventListener('error', (event) => {
+      if (!ready) return fallBack(`Failed to load (${event.message})`);
+      // A crashed worker is dropped; later calls use the main-thread fallback
+      console.error('[Worker] Crashed', event.message);
+      failPending(new Error(`Pipeline worker error: ${event.message}`));
+      workerReady = Promise.resolve(null);
+    });
+  });
+  return workerReady;
+}
+
+export function onWorkerMessage(listener: (message: WorkerToMainMessage) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+async function request<T>(build: (requestId: number) => WorkerRequest, fallback: () => Promise<T> | T): Promise<T> {
+  const target = await getPipelineWorker();
+  if (!target) return fallback();
+  return new Promise<T>((resolve, reject) => {
+    const requestId = ++requestCounter;
+    pendingReplies.set(requestId, { resolve, reject });
+    target.postMessage(build(requestId));
+  });
+}
+
+/** Raw 16-bit PCM (base64) -> WAV (base64) */
+export const encodeWav = (pcmBase64: string): Promise<string> =>
+  request(
+    request_id => ({ type: 'encode-wav', request_id, pcm_base64: pcmBase64 }),
+    () => pcmToWavBase64(pcmBase64)
+  );
+
+/** Decodes a data URL and stores it in the asset store. Returns the asset ID. */
+export const storeDataUrl = (dataUrl: string): Promise<string> =>
+  request(
+    request_id => ({ type: 'ingest', request_id, data_url: dataUrl }),
+    () => putAsset(dataUrlToBlob(dataUrl))
+  );
+
+export const packProjectZip = (project: ScriptData): Promise<Blob> =>
+  request(
+    request_id => ({ type: 'pack-zip', request_id, project }),
+    async () => (await import('./projectArchive')).buildProjectZip(project)
+  );
@@ -0,0 +1,95 @@
+import { ScriptData, LayoutType, Cut, InspectionData, Scene, GenerationLogStage, GenerationInputs, SceneRunState, RunTrackStage } from '../types';
+import { Capability } from './providers/types';
+import { AIError, AIErrorKind, JobCancelledError } from './aiErrors';
+import type { PipelineRunSummary } from './construction';
+
+// --- PIPELINE WORKER PROTOCOL ---
+// The construction loop, WAV encoding and ZIP packing run in services/pipeline.worker.ts.
+// Provider calls stay on the main thread (settings, quota, cassettes and the shared job scheduler
+// live there), so the worker asks for each one with a `job` message and waits for `job-result`.
+
+// --- Jobs (worker -> main) ---
+export type PipelineJobRequest =
+  | { kind: 'image'; prompt: string; layout: LayoutType }
+  | { kind: 'inspection'; asset_id?: string; url?: string }
+  | { kind: 'video'; asset_id?: string; url?: string; motion_strength: number; duration_seconds: number }
+  | { kind: 'split'; narration: string; visual_prompt: string }
+  | { kind: 'speech'; text: string; voice_tone: Scene['scripts']['voice_tone'] };
+
+export interface PipelineJobResults {
+  image: { asset_id: string };
+  inspection: InspectionData;
+  video: { url: string; asset_id?: string }; // url = "" when video is unavailable
+  split: Cut[];
+  speech: { asset_id: string };
+}
+
+export interface PipelineJob<R extends PipelineJobRequest = PipelineJobRequest> {
+  label: string;
+  capability: Capability;
+  order: number; // Scene position; earlier scenes get priority
+  scene_index: number;
+  stage: GenerationLogStage;
+  inputs: GenerationInputs; // For the generation log
+  attempt: number;
+  waited_ms: number;
+  request: R;
+}
+
+// --- Errors cross the boundary as plain data ---
+export interface SerializedError {
+  name: string;
+  message: string;
+  kind?: AIErrorKind;
+  retry_after_ms?: number;
+  cancelled?: boolean;
+}
+
+export function serializeError(error: unknown): SerializedError {
+  if (error instanceof JobCancelledError) return { name: error.name, message: error.message, cancelled: true };
+  if (error instanceof AIError) {
+    return { name: error.name, message: error.message, kind: error.kind, retry_after_ms: error.retryAfterMs };
+  }
+  return { name: 'Error', message: String((error as any)?.message ?? error) };
+}
+
+export function deserializeError(data: SerializedError): Error {
+  if (data.cancelled) return new JobCancelledError(data.message);
+  if (data.kind) return new AIError(data.kind, data.message, { retryAfterMs: data.retry_after_ms });
+  return new Error(data.message);
+}
+
+// --- Run summary as sent over the wire ---
+export type SerializedRunSummary = Omit<PipelineRunSummary, 'error'> & { error?: SerializedError };
+
+export interface PipelineProgress {
+  scene_index: number;
+  track: keyof SceneRunState;
+  stage: RunTrackStage;
+}
+
+// --- Messages ---
+export type MainToWorkerMessage =
+  | {
+      type: 'start';
+      project: ScriptData;
+      only_scenes?: number[];
+      resumed_from?: string;
+      scene_delay_ms: number;
+      veo_available: boolean;
+    }
+  | { type: 'stop' }
+  | { type: 'job-result'; call_id: number; value?: unknown; error?: SerializedError }
+  | { type: 'encode-wav'; request_id: number; pcm_base64: string }
+  | { type: 'ingest'; request_id: number; data_url: string }
+  | { type: 'pack-zip'; request_id: number; project: ScriptData };
+
+export type WorkerToMainMessage =
+  | { type: 'ready' } // Posted once the worker's imports have loaded (see getPipelineWorker)
+  | { type: 'run-started'; run_id?: string }
+  | { type: 'job'; call_id: number; job: PipelineJob }
+  | { type: 'progress'; progress: PipelineProgress }
+  | { type: 'scene-update'; project: ScriptData }
+  | { type: 'run-finished'; run_id?: string; summary: SerializedRunSummary }
+  | { type: 'run-failed'; run_id?: string; error: SerializedError } // The loop itself crashed
+  | { type: 'reply'; request_id: number; value?: unknown; error?: SerializedError };
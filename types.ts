@@ -1,4 +1,6 @@
 
+import type { AIErrorKind } from './services/aiErrors';
+
 export type LayoutType = 'SINGLE' | 'SPLIT_V' | 'SPLIT_H' | 'TRI_TOP_SPLIT' | 'TRI_BOT_SPLIT' | 'GRID_2X2';
 
 // New Interface for Topics
@@ -14,7 +16,10 @@ export interface SceneAsset {
   audio_filename: string;
   visual_filename: string;
   subtitle_filename: string;
-  // Actual data storage (base64 or blob url) for the session
+  // [NEW] Content-addressed keys into the asset store (persisted)
+  audio_asset_id?: string;
+  visual_asset_id?: string;
+  // Display URLs for the session (object URL from the asset store; never persisted when an asset ID exists)
   audio_url?: string;
   visual_url?: string;
   audio_duration?: number;
@@ -47,6 +52,17 @@ export interface InspectionData {
   description: string;
 }
 
+// [NEW] Asset pipeline stage that ran out of retries (kept on the scene until it succeeds)
+export type AssetStage = 'image' | 'inspection' | 'grid' | 'audio';
+
+export interface AssetFailure {
+  stage: AssetStage;
+  error_kind: AIErrorKind;
+  message: string;
+  attempts: number;
+  failed_at: number;
+}
+
 export interface Cut {
   cut_no: number;
   narration: string;
@@ -72,6 +88,9 @@ export interface Scene {
   cuts?: Cut[];
   narration_full?: string;
 
+  // [NEW] Failed pipeline stages, one entry per stage (see services/pipeline.ts)
+  failures?: AssetFailure[];
+
   // UI State
   isSelected?: boolean;
   isProcessing?: boolean; // Generic processing flag for any agent
@@ -86,7 +105,8 @@ export interface ScriptMeta {
   thumbnail_prompt: string;
   bgm_mood: string;
   timestamp?: number;
-  thumbnail_url?: string; // [NEW] Stores the generated thumbnail base64
+  thumbnail_asset_id?: string; // [NEW] Asset store key for the thumbnail
+  thumbnail_url?: string; // Session display URL for the thumbnail
 }
 
 export interface GlobalStyle {
@@ -95,14 +115,169 @@ export interface GlobalStyle {
 }
 
 export interface ScriptData {
+  schema_version?: number; // [NEW] See services/projectSchema.ts for the version history
+  project_id?: string; // [NEW] Key in the project library (assigned on first save)
   meta: ScriptMeta;
   global_style: GlobalStyle;
   scenes: Scene[];
 }
 
+// [NEW] Staged script writer: reviewed outline → one call per chapter → scenes
+export interface OutlineChapter {
+  id: string;
+  phase: string; // Hook, History, Deep Analysis, ... (becomes the scenes' step_phase)
+  title: string;
+  summary: string;
+  key_points: string[];
+  target_chars: number; // Narration length to aim for
+}
+
+export interface ScriptOutline {
+  topic: string;
+  meta: Pick<ScriptMeta, 'title' | 'description' | 'tags' | 'genre' | 'thumbnail_prompt' | 'bgm_mood'>;
+  global_style: GlobalStyle;
+  chapters: OutlineChapter[];
+}
+
+export interface ChapterDraft {
+  chapter_id: string;
+  narration: string;
+  outline_snapshot: string; // The chapter's outline entry when written; differs → the draft is stale
+  written_at: number;
+}
+
+export interface ScriptWriterDraft {
+  outline: ScriptOutline;
+  chapters: Record<string, ChapterDraft>; // By chapter id
+}
+
+// [NEW] Project Library index entry (kept separately so listing never loads full projects)
+export interface ProjectSummary {
+  id: string;
+  title: string;
+  genre: string;
+  created_at: number;
+  updated_at: number;
+  archived: boolean;
+  progress: {
+    total_scenes: number;
+    images_done: number;
+    audio_done: number;
+    percent: number;
+  };
+}
+
+// [NEW] Generation Audit Log (append-only, one entry per provider call; see services/generationLog.ts)
+export type GenerationLogStage = AssetStage | 'video' | 'split';
+
+export interface GenerationInputs {
+  prompt?: string;
+  text?: string;
+  layout?: LayoutType;
+  layout_guide?: boolean; // A layout guide image was sent with the prompt
+  voice_tone?: string;
+  motion_strength?: number;
+  duration_seconds?: number;
+  source_asset_id?: string; // Image the call worked from (inspection, video)
+}
+
+export interface QuotaCounters {
+  total: number;
+  text: number;
+  image: number;
+  audio: number;
+  video: number;
+}
+
+export interface GenerationLogEntry {
+  id: string;
+  project_id: string;
+  scene_index: number;
+  stage: GenerationLogStage;
+  source: 'pipeline' | 'manual';
+  attempt: number;
+  waited_ms: number; // Retry back-off before this attempt
+  provider: string;
+  model: string;
+  inputs: GenerationInputs;
+  started_at: number;
+  duration_ms: number;
+  outcome: 'success' | 'empty' | 'failed'; // empty = the call returned nothing usable
+  error_kind?: AIErrorKind;
+  error_message?: string;
+  asset_id?: string;
+  replaced_asset_id?: string; // Asset this call overwrote (manual regeneration)
+  quota_before: QuotaCounters;
+  quota_after: QuotaCounters;
+}
+
+// [NEW] Pipeline Run Record (persisted checkpoint; see services/pipelineRuns.ts)
+export type RunTrackStage = 'pending' | GenerationLogStage | 'done';
+
+export interface SceneRunState {
+  visual: RunTrackStage; // Image -> Inspection -> Video / Split -> Grid
+  audio: RunTrackStage;
+}
+
+export interface PipelineRunRecord {
+  run_id: string;
+  project_id: string;
+  status: 'running' | 'completed' | 'stopped' | 'aborted' | 'interrupted';
+  started_at: number;
+  updated_at: number;
+  ended_at?: number;
+  queue: number[]; // Scene indices this run set out to build, in order
+  scenes: Record<number, SceneRunState>;
+  resumed_from?: string; // Run ID this one continued
+}
+
+// [NEW] Token & Cost Accounting (see services/usageLedger.ts)
+export interface TokenUsage {
+  calls: number;
+  prompt_tokens: number;
+  output_tokens: number; // Candidates (+ thinking) tokens
+  images: number;
+  audio: number;
+  videos: number;
+}
+
+export type UsageByModel = Record<string, TokenUsage>;
+
+export interface ProjectUsage {
+  project_id: string;
+  by_day: Record<string, UsageByModel>; // Pacific quota day (YYYY-MM-DD) -> model -> usage
+  updated_at: number;
+}
+
+// USD; tokens are priced per million, media outputs per item
+export interface ModelPrice {
+  input_per_million: number;
+  output_per_million: number;
+  per_output: number;
+}
+
+// [NEW] Version History
+export interface ProjectSnapshot {
+  id: string;
+  project_id: string;
+  created_at: number;
+  label: string;
+  kind: 'auto' | 'manual';
+  data: ScriptData; // Persisted form (asset IDs only)
+}
+
+export type SceneChangeField = 'narration' | 'prompt' | 'image' | 'audio' | 'layout' | 'type';
+
+export interface SceneChange {
+  scene_index: number;
+  change: 'added' | 'removed' | 'modified';
+  fields: SceneChangeField[];
+}
+
 export enum ViewState {
   CATEGORY_SELECT = 'CATEGORY_SELECT',
   TOPIC_LIST = 'TOPIC_LIST',
+  OUTLINE_REVIEW = 'OUTLINE_REVIEW',
   STYLE_SELECT = 'STYLE_SELECT',
   SCRIPT_VIEW = 'SCRIPT_VIEW',
 }
@@ -0,0 +1,60 @@
+// --- WAV / PCM HELPERS ---
+// TTS models return raw 16-bit mono PCM; browsers need a RIFF header to play it.
+
+export const TTS_SAMPLE_RATE = 24000;
+
+export function base64ToUint8Array(base64: string): Uint8Array {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function uint8ArrayToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function writeString(view: DataView, offset: number, string: string) {
+  for (let i = 0; i < string.length; i++) {
+    view.setUint8(offset + i, string.charCodeAt(i));
+  }
+}
+
+export function createWavHeader(dataLength: number, sampleRate: number = TTS_SAMPLE_RATE) {
+  const buffer = new ArrayBuffer(44);
+  const view = new DataView(buffer);
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataLength, true);
+  return new Uint8Array(buffer);
+}
+
+export function pcmToWav(pcmData: Uint8Array, sampleRate: number = TTS_SAMPLE_RATE): Uint8Array {
+  const header = createWavHeader(pcmData.length, sampleRate);
+  const wavData = new Uint8Array(header.length + pcmData.length);
+  wavData.set(header);
+  wavData.set(pcmData, header.length);
+  return wavData;
+}
+
+export function pcmToWavBase64(pcmBase64: string): string {
+  return uint8ArrayToBase64(pcmToWav(base64ToUint8Array(pcmBase64)));
+}
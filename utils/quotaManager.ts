@@ -1,77 +1,212 @@
+import { Capability, CAPABILITIES, listProviders, resolveCapability } from '../services/providers';
+import { getSettings } from '../services/settings';
+
+// --- QUOTA MANAGER ---
+// Counts calls per model against its requests-per-minute (sliding 60s window) and requests-per-day
+// limits. Daily counters follow the provider's reset at midnight Pacific time, not the browser's
+// locale or time zone. Limits come from Settings, then the provider's defaults.
+
+export type QuotaType = 'text' | 'image' | 'audio' | 'video';
+
+export interface ModelUsage {
+  type: QuotaType;
+  count: number;
+}
 
 export interface QuotaStats {
+  day: string; // Pacific date (YYYY-MM-DD) the counters belong to
   count: number;
   lastUpdated: number;
   activeModel: string;
-  modelCounts: {
-    text: number;
-    image: number;
-    audio: number;
-    video: number;
-  };
+  modelCounts: Record<QuotaType, number>;
+  models: Record<string, ModelUsage>;
+  hours: number[]; // Calls per local hour of day (0-23)
+}
+
+export interface QuotaLimits {
+  rpm: number;
+  rpd: number;
+}
+
+export interface ModelQuotaStatus {
+  model: string;
+  type: QuotaType;
+  limits: QuotaLimits;
+  minute: number; // Calls in the last 60 seconds
+  day: number; // Calls since the last reset
+  next_available_at: number; // Earliest time the next call fits both windows (now if free)
+  exhausted: boolean; // Daily limit reached; the next slot is the reset
 }
 
 const STORAGE_KEY_PREFIX = 'gemini_quota_';
-const MAX_DAILY_LIMIT_ESTIMATE = 1500; // Estimated free tier daily limit for Flash
+const RESET_TIME_ZONE = 'America/Los_Angeles';
+const MINUTE_MS = 60_000;
+const HOUR_MS = 3_600_000;
+const DEFAULT_LIMITS: QuotaLimits = { rpm: 10, rpd: 1500 };
 
-export const quotaManager = {
-  getStats: (): QuotaStats => {
+export const CAPABILITY_QUOTA_TYPE: Record<Capability, QuotaType> = {
+  text: 'text',
+  json: 'text',
+  vision: 'text',
+  image: 'image',
+  speech: 'audio',
+  video: 'video'
+};
+
+const QUOTA_TYPES: QuotaType[] = ['text', 'image', 'audio', 'video'];
+
+// --- Pacific day boundaries ---
+// en-CA formats as YYYY-MM-DD
+const dayFormatter = new Intl.DateTimeFormat('en-CA', { timeZone: RESET_TIME_ZONE, year: 'numeric', month: '2-digit', day: '2-digit' });
+const clockFormatter = new Intl.DateTimeFormat('en-US', { timeZone: RESET_TIME_ZONE, hourCycle: 'h23', hour: 'numeric', minute: 'numeric', second: 'numeric' });
+
+export const quotaDayOf = (time: number = Date.now()) => dayFormatter.format(time);
+
+/** Next midnight in Pacific time (handles 23/25-hour DST days) */
+export function getNextResetAt(now: number = Date.now()): number {
+  const parts = Object.fromEntries(clockFormatter.formatToParts(now).map(p => [p.type, Number(p.value)]));
+  const sinceMidnight = ((parts.hour * 60 + parts.minute) * 60 + parts.second) * 1000 + (now % 1000);
+  const today = quotaDayOf(now);
+
+  let candidate = now - sinceMidnight + 24 * HOUR_MS;
+  while (quotaDayOf(candidate) === today) candidate += HOUR_MS;
+  while (quotaDayOf(candidate - HOUR_MS) !== today) candidate -= HOUR_MS;
+  return candidate;
+}
+
+const storageKey = (day: string) => `${STORAGE_KEY_PREFIX}${day}`;
+
+const pad = (n: string) => n.padStart(2, '0');
+
+/**
+ * Day of a stored counter key. Keys written before the Pacific reset used the browser's
+ * toLocaleDateString(); the common year-first and month-first forms are read, others are skipped.
+ */
+export function parseQuotaDay(key: string, prefix: string = STORAGE_KEY_PREFIX): string | null {
+  if (!key.startsWith(prefix)) return null;
+  const raw = key.slice(prefix.length);
+  const yearFirst = raw.match(/^(\d{4})\D+(\d{1,2})\D+(\d{1,2})\D*$/);
+  if (yearFirst) return `${yearFirst[1]}-${pad(yearFirst[2])}-${pad(yearFirst[3])}`;
+  const monthFirst = raw.match(/^(\d{1,2})\D+(\d{1,2})\D+(\d{4})$/);
+  if (monthFirst) return `${monthFirst[3]}-${pad(monthFirst[1])}-${pad(monthFirst[2])}`;
+  return null;
+}
+
+// Stored keys with the given prefix, by the day they belong to
+export function listDayKeys(prefix: string): { key: string; day: string }[] {
+  const keys: { key: string; day: string }[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    const day = key ? parseQuotaDay(key, prefix) : null;
+    if (key && day) keys.push({ key, day });
+  }
+  return keys.sort((a, b) => a.day.localeCompare(b.day));
+}
+
+const emptyStats = (day: string): QuotaStats => ({
+  day,
+  count: 0,
+  lastUpdated: Date.now(),
+  activeModel: 'Idle',
+  modelCounts: { text: 0, image: 0, audio: 0, video: 0 },
+  models: {},
+  hours: new Array(24).fill(0)
+});
+
+// Call timestamps per model for the RPM window (this page session only)
+const minuteWindows = new Map<string, number[]>();
+
+function recentCalls(model: string, now: number): number[] {
+  const window = (minuteWindows.get(model) || []).filter(t => now - t < MINUTE_MS);
+  minuteWindows.set(model, window);
+  return window;
+}
+
+function writeStats(stats: QuotaStats) {
+  localStorage.setItem(storageKey(stats.day), JSON.stringify(stats));
+  window.dispatchEvent(new CustomEvent('quota-update', { detail: stats }));
+}
+
+// Models currently selected per capability (deduplicated)
+function selectedModels(): { model: string; capability: Capability }[] {
+  const seen = new Map<string, Capability>();
+  CAPABILITIES.forEach(capability => {
     try {
-        const today = new Date().toLocaleDateString();
-        const key = `${STORAGE_KEY_PREFIX}${today}`;
-        const stored = localStorage.getItem(key);
-        
-        const defaultModel = 'Idle';
-        const defaultCounts = { text: 0, image: 0, audio: 0, video: 0 };
+      const { model } = resolveCapability(capability);
+      if (!seen.has(model)) seen.set(model, capability);
+    } catch {
+      // No provider for this capability
+    }
+  });
+  return Array.from(seen, ([model, capability]) => ({ model, capability }));
+}
 
+function readStats(key: string, day: string): QuotaStats {
+    try {
+        const stored = localStorage.getItem(key);
         if (stored) {
             try {
                 const parsed = JSON.parse(stored);
                 // Validate shape
                 if (typeof parsed === 'object' && parsed !== null) {
-                     return { 
-                        count: typeof parsed.count === 'number' ? parsed.count : 0, 
-                        lastUpdated: parsed.lastUpdated || Date.now(), 
-                        activeModel: parsed.activeModel || defaultModel,
-                        modelCounts: parsed.modelCounts || defaultCounts
+                     const defaults = emptyStats(day);
+                     return {
+                        day,
+                        count: typeof parsed.count === 'number' ? parsed.count : 0,
+                        lastUpdated: parsed.lastUpdated || Date.now(),
+                        activeModel: parsed.activeModel || defaults.activeModel,
+                        modelCounts: { ...defaults.modelCounts, ...parsed.modelCounts },
+                        models: parsed.models || {},
+                        hours: Array.isArray(parsed.hours) && parsed.hours.length === 24 ? parsed.hours : defaults.hours
                      };
                 }
             } catch (e) {
                 console.warn('Failed to parse quota stats, resetting.', e);
             }
         }
-        return { count: 0, lastUpdated: Date.now(), activeModel: defaultModel, modelCounts: defaultCounts };
     } catch (e) {
         console.warn('LocalStorage access failed.', e);
-        return { count: 0, lastUpdated: Date.now(), activeModel: 'Idle', modelCounts: { text: 0, image: 0, audio: 0, video: 0 } };
     }
+    return emptyStats(day);
+}
+
+export const quotaManager = {
+  getStats: (): QuotaStats => {
+    const day = quotaDayOf();
+    return readStats(storageKey(day), day);
   },
 
-  increment: (modelName: string) => {
+  // [NEW] Every stored day, oldest first (legacy locale-keyed days included)
+  getHistory: (): QuotaStats[] =>
+    listDayKeys(STORAGE_KEY_PREFIX).map(({ key, day }) => readStats(key, day)),
+
+  /** Removes day counters older than `cutoffDay` (YYYY-MM-DD). Returns how many were removed. */
+  pruneBefore: (cutoffDay: string): number => {
+    const stale = listDayKeys(STORAGE_KEY_PREFIX).filter(({ day }) => day < cutoffDay);
+    stale.forEach(({ key }) => localStorage.removeItem(key));
+    return stale.length;
+  },
+
+  increment: (modelName: string, capability: Capability) => {
     try {
-        const today = new Date().toLocaleDateString();
-        const key = `${STORAGE_KEY_PREFIX}${today}`;
-        
-        let currentStats = quotaManager.getStats();
-        
-        // Determine type based on model name
-        const type = modelName.includes('image') ? 'image' :
-                     modelName.includes('tts') ? 'audio' :
-                     modelName.includes('veo') ? 'video' : 'text';
-
-        const newStats: QuotaStats = {
+        const now = Date.now();
+        recentCalls(modelName, now).push(now);
+
+        const currentStats = quotaManager.getStats();
+        const type = CAPABILITY_QUOTA_TYPE[capability];
+        const usage = currentStats.models[modelName] || { type, count: 0 };
+        const hours = [...currentStats.hours];
+        hours[new Date(now).getHours()]++;
+
+        writeStats({
+          ...currentStats,
           count: currentStats.count + 1,
-          lastUpdated: Date.now(),
+          lastUpdated: now,
           activeModel: modelName,
-          modelCounts: {
-              ...currentStats.modelCounts,
-              [type]: (currentStats.modelCounts[type] || 0) + 1
-          }
-        };
-
-        localStorage.setItem(key, JSON.stringify(newStats));
-        
-        window.dispatchEvent(new CustomEvent('quota-update', { detail: newStats }));
+          modelCounts: { ...currentStats.modelCounts, [type]: currentStats.modelCounts[type] + 1 },
+          models: { ...currentStats.models, [modelName]: { ...usage, count: usage.count + 1 } },
+          hours
+        });
     } catch (e) {
         console.error('Failed to increment quota', e);
     }
@@ -79,17 +214,79 @@ export const quotaManager = {
 
   updateModelStatus: (modelName: string) => {
     try {
-        const stats = quotaManager.getStats();
-        const newStats = { ...stats, activeModel: modelName };
-        const today = new Date().toLocaleDateString();
-        const key = `${STORAGE_KEY_PREFIX}${today}`;
-        
-        localStorage.setItem(key, JSON.stringify(newStats));
-        window.dispatchEvent(new CustomEvent('quota-update', { detail: newStats }));
+        writeStats({ ...quotaManager.getStats(), activeModel: modelName });
     } catch (e) {
         console.error('Failed to update model status', e);
     }
   },
 
-  getLimit: () => MAX_DAILY_LIMIT_ESTIMATE
+  /** Settings override, then the provider's published limit, then a conservative default */
+  getLimits: (model: string): QuotaLimits => {
+    const configured = getSettings().quotaLimits[model] || {};
+    const published = listProviders().map(p => p.rateLimits?.[model]).find(Boolean);
+    return {
+      rpm: configured.rpm || published?.rpm || DEFAULT_LIMITS.rpm,
+      rpd: configured.rpd || published?.rpd || DEFAULT_LIMITS.rpd
+    };
+  },
+
+  getModelStatus: (model: string, capability: Capability): ModelQuotaStatus => {
+    const now = Date.now();
+    const limits = quotaManager.getLimits(model);
+    const stats = quotaManager.getStats();
+    const window = recentCalls(model, now);
+    const day = stats.models[model]?.count || 0;
+    const exhausted = day >= limits.rpd;
+
+    let nextAvailableAt = now;
+    if (exhausted) nextAvailableAt = getNextResetAt(now);
+    else if (window.length >= limits.rpm) nextAvailableAt = window[window.length - limits.rpm] + MINUTE_MS;
+
+    return {
+      model,
+      type: stats.models[model]?.type || CAPABILITY_QUOTA_TYPE[capability],
+      limits,
+      minute: window.length,
+      day,
+      next_available_at: nextAvailableAt,
+      exhausted
+    };
+  },
+
+  /** Earliest time a call to `model` fits its RPM and RPD windows */
+  nextAvailableAt: (model: string, capability: Capability): number =>
+    quotaManager.getModelStatus(model, capability).next_available_at,
+
+  /** Currently selected models plus any other model used today */
+  getModelStatuses: (): ModelQuotaStatus[] => {
+    const models = selectedModels();
+    const stats = quotaManager.getStats();
+    Object.entries(stats.models).forEach(([model, usage]) => {
+      if (!models.some(m => m.model === model)) {
+        models.push({ model, capability: CAPABILITIES.find(cap => CAPABILITY_QUOTA_TYPE[cap] === usage.type) || 'text' });
+      }
+    });
+    return models.map(({ model, capability }) => quotaManager.getModelStatus(model, capability));
+  },
+
+  // Daily requests across the currently selected models
+  getLimit: (): number =>
+    selectedModels().reduce((sum, { model }) => sum + quotaManager.getLimits(model).rpd, 0),
+
+  // Calls left today per type (the tightest model serving that type)
+  getRemaining: (): Record<QuotaType, number> => {
+    const remaining = { text: Infinity, image: Infinity, audio: Infinity, video: Infinity } as Record<QuotaType, number>;
+    CAPABILITIES.forEach(capability => {
+      try {
+        const { model } = resolveCapability(capability);
+        const status = quotaManager.getModelStatus(model, capability);
+        const type = CAPABILITY_QUOTA_TYPE[capability];
+        remaining[type] = Math.min(remaining[type], Math.max(0, status.limits.rpd - status.day));
+      } catch {
+        // No provider for this capability
+      }
+    });
+    QUOTA_TYPES.forEach(type => { if (remaining[type] === Infinity) remaining[type] = 0; });
+    return remaining;
+  }
 };